@@ -101,12 +101,16 @@ export default defineConfig({
               '@uni-ts/result': ['packages/result/src/index.ts'],
               '@uni-ts/result/fp': ['packages/result/src/fp.ts'],
               '@uni-ts/result/builder': ['packages/result/src/builder.ts'],
+              '@uni-ts/result/option': ['packages/result/src/option/index.ts'],
+              '@uni-ts/result/option/fp': ['packages/result/src/option/fp.ts'],
+              '@uni-ts/result/option/builder': ['packages/result/src/option/builder.ts'],
               '@uni-ts/composition': ['packages/composition/src/index.ts'],
               '@uni-ts/composition/builder': ['packages/composition/src/builder.ts'],
               '@uni-ts/model': ['packages/model/src/index.ts'],
               '@uni-ts/model/safe': ['packages/model/src/safe.ts'],
               '@uni-ts/action': ['packages/action/src/index.ts'],
               '@uni-ts/action/safe': ['packages/action/src/safe.ts'],
+              '@uni-ts/action/testing': ['packages/action/src/testing.ts'],
             },
           },
         },
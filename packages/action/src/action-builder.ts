@@ -1,16 +1,32 @@
+import type { ActionAbortedError, ActionInputValidationError, ActionTimeoutError } from './error.js';
+import { ActionOutputValidationError } from './error.js';
 import type {
+  ActionConfig,
   ActionExecutor,
   ActionFn,
   ActionResponse,
+  AroundFn,
   Ctx,
   CtxValue,
+  ExecutorConfig,
+  InferSchemaInput,
+  InferSchemaOutput,
+  IsAroundAsync,
   IsAsync,
+  IsChainAsync,
+  IsOutputAsync,
   Merge,
+  Middleware,
+  MiddlewareChain,
   MiddlewareFn,
   OrPromise,
+  SchemaOrModel,
+  SchemaValidation,
   UnwrapCtx,
+  ValidatedOutput,
 } from './helpers.js';
-import { createActionExecutor } from './helpers.js';
+import { createActionExecutor, defineActionMeta, toStandardSchema, validateWithSchema } from './helpers.js';
+import type { StandardSchemaV1 } from './standard-schema.js';
 
 /**
  * Builder class for composing middleware and action functions in a type-safe manner.
@@ -20,6 +36,8 @@ import { createActionExecutor } from './helpers.js';
  * @template Context - The context object type containing data passed between middleware. Extends from base `Ctx` type.
  * @template Async - Boolean literal type tracking whether any middleware or action returns a Promise.
  * @template ExceptionHandler - Function type that handles exceptions thrown during execution. Must return a value or throw.
+ * @template RawInput - The input type accepted by the action before validation. Equal to `Input` when no input schema is set.
+ * @template OutputSchema - The schema (or model) used to validate the action output. `undefined` when no output schema is set.
  */
 export class ActionBuilder<
   Input,
@@ -27,12 +45,144 @@ export class ActionBuilder<
   Context extends Ctx,
   Async extends boolean,
   ExceptionHandler extends (ex: unknown) => unknown,
+  RawInput = Input,
+  OutputSchema extends SchemaOrModel | undefined = undefined,
 > {
   constructor(
-    private readonly fns: MiddlewareFn<Input, OrPromise<OutputType | Ctx>, Ctx>[],
+    private readonly fns: Middleware<Input, OrPromise<OutputType | Ctx>, Ctx>[],
     private readonly handleException: ExceptionHandler,
+    private readonly config: ActionConfig = {},
   ) {}
 
+  /**
+   * Sets the schema (or model) used to validate the action input.
+   * The input is validated before the first middleware runs, and middleware and action receive the validated value.
+   * It has to be set before adding middleware.
+   *
+   * When the validation fails, the action throws `ActionInputValidationError` (the `onThrow` handler is not called).
+   * Async schemas are supported, in which case the action returns a Promise.
+   *
+   * @template S - Type of the Standard Schema compatible validation schema or a model containing it
+   * @param schema - A validation schema that follows the Standard Schema interface or a model created with `@uni-ts/model`
+   * @returns A new ActionBuilder instance with the input type inferred from the schema
+   * @throws {TypeError} When middleware was already added, since it's typed with the previous input
+   *
+   * @example
+   * ```typescript
+   * const action = createAction()
+   *   .input(z.object({ token: z.string().min(1) }))
+   *   .with(async ({ input }) => {
+   *     const session = await getSession(input.token);
+   *     if (!session) throw new Error('Session not found');
+   *     return next({ session });
+   *   })
+   *   .do(...);
+   *
+   * await action({ token: '' }); // throws ActionInputValidationError
+   * ```
+   */
+  input<S extends SchemaOrModel>(schema: S) {
+    if (this.fns.length) throw new TypeError('The input schema must be set before adding middleware');
+
+    return new ActionBuilder<
+      InferSchemaOutput<S>,
+      Output,
+      Context,
+      IsAsync<Async, SchemaValidation<S>>,
+      ExceptionHandler,
+      InferSchemaInput<S>,
+      OutputSchema
+    >(this.fns as Middleware<unknown, OrPromise<OutputType | Ctx>, Ctx>[], this.handleException, {
+      ...this.config,
+      inputSchema: toStandardSchema(schema),
+    });
+  }
+
+  /**
+   * Sets the schema (or model) used to validate the value returned by the action function.
+   * The validated value (e.g. with unknown keys stripped, if the schema strips them) is returned instead of the original one,
+   * and the action response type is inferred from the schema.
+   *
+   * When the validation fails, `ActionOutputValidationError` is passed to the `onThrow` handler.
+   * Values returned early by middleware are not validated.
+   *
+   * @template S - Type of the Standard Schema compatible validation schema or a model containing it
+   * @param schema - A validation schema that follows the Standard Schema interface or a model created with `@uni-ts/model`
+   * @returns A new ActionBuilder instance with the output type inferred from the schema
+   *
+   * @example
+   * ```typescript
+   * const action = createAction<{ id: string }>()
+   *   .output(z.object({ id: z.string(), name: z.string() }))
+   *   .do(async ({ input }) => {
+   *     return await db.users.find(input.id); // { id: string; name: string; passwordHash: string }
+   *   });
+   *
+   * const user = await action({ id: '1' });
+   * // { id: string; name: string }
+   * ```
+   */
+  output<S extends SchemaOrModel>(schema: S) {
+    return new ActionBuilder<Input, Output, Context, Async, ExceptionHandler, RawInput, S>(
+      this.fns,
+      this.handleException,
+      { ...this.config, outputSchema: toStandardSchema(schema) },
+    );
+  }
+
+  /**
+   * Sets the name of the action that identifies it in metadata (see `getActionMeta`) and errors (e.g. `ActionTimeoutError`).
+   *
+   * @param name - The name of the action
+   * @returns A new ActionBuilder instance with the name set
+   *
+   * @example
+   * ```typescript
+   * const createUser = createAction<{ email: string }>()
+   *   .named('user.create')
+   *   .do(async ({ input }) => db.users.create(input));
+   *
+   * getActionMeta(createUser)?.name; // 'user.create'
+   * ```
+   */
+  named(name: string) {
+    return new ActionBuilder<Input, Output, Context, Async, ExceptionHandler, RawInput, OutputSchema>(
+      this.fns,
+      this.handleException,
+      { ...this.config, name },
+    );
+  }
+
+  /**
+   * Sets the maximum time the asynchronous action can take to complete.
+   *
+   * When the time runs out, the action throws `ActionTimeoutError` (the `onThrow` handler is not called)
+   * and the signal passed to middleware and action is aborted, so the in-flight work can be cancelled.
+   * Synchronous actions are not affected.
+   *
+   * @param ms - The timeout in milliseconds
+   * @returns A new ActionBuilder instance with the timeout set
+   *
+   * @example
+   * ```typescript
+   * const action = createAction<{ url: string }>()
+   *   .timeout(5000)
+   *   .do(async ({ input, signal }) => {
+   *     const response = await fetch(input.url, { signal });
+   *     return response.json();
+   *   });
+   *
+   * await action({ url: 'https://example.com' }); // throws ActionTimeoutError after 5 seconds
+   * ```
+   */
+  timeout(ms: number) {
+    return new ActionBuilder<Input, Output, Context, Async, ExceptionHandler, RawInput, OutputSchema>(
+      this.fns,
+      this.handleException,
+      { ...this.config, timeout: ms },
+    );
+  }
+
   /**
    * Adds a middleware function to the action pipeline.
    *
@@ -66,8 +216,87 @@ export class ActionBuilder<
       Output | UnwrapNonCtx<MiddlewareOutput>,
       Ctx<Merge<CtxValue<Context>, CtxValue<UnwrapCtx<MiddlewareOutput>>>>,
       IsAsync<Async, MiddlewareOutput>,
-      ExceptionHandler
-    >([...this.fns, fn], this.handleException);
+      ExceptionHandler,
+      RawInput,
+      OutputSchema
+    >([...this.fns, fn], this.handleException, this.config);
+  }
+
+  /**
+   * Adds all middleware of a chain created with `composeMiddleware` to the action pipeline.
+   * It's equivalent to adding the middleware one by one with `.with()`.
+   *
+   * @template ChainOutput - Union of the return types of the middleware in the chain.
+   * @template ChainContext - The context created by the chain.
+   * @param chain - The middleware chain to add
+   * @returns A new ActionBuilder instance with the middleware added
+   *
+   * @example
+   * ```typescript
+   * const authed = composeMiddleware(authenticate, rateLimit, resolveTenant);
+   *
+   * const listPosts = createAction()
+   *   .use(authed)
+   *   .do(({ ctx }) => db.posts.list(ctx.tenantId));
+   * ```
+   */
+  use<ChainOutput extends OrPromise<OutputType | Ctx<object>>, ChainContext extends Ctx>(
+    chain: MiddlewareChain<Input, ChainOutput, ChainContext>,
+  ) {
+    return new ActionBuilder<
+      Input,
+      Output | UnwrapNonCtx<ChainOutput>,
+      Ctx<Merge<CtxValue<Context>, CtxValue<ChainContext>>>,
+      IsChainAsync<Async, ChainOutput>,
+      ExceptionHandler,
+      RawInput,
+      OutputSchema
+    >([...this.fns, ...chain.fns], this.handleException, this.config);
+  }
+
+  /**
+   * Adds a middleware function that wraps the rest of the action pipeline (onion model).
+   *
+   * The wrapper receives `proceed` that runs the subsequent middleware and the action, and returns their response.
+   * It only observes the response: it must return the response as it is or throw, which allows to measure
+   * the execution time, wrap the action in a transaction or react to thrown exceptions.
+   * Returning a Promise from the wrapper makes the whole action asynchronous.
+   *
+   * @template F - The wrapper function type
+   * @param fn - The wrapper function receiving input, context and `proceed`
+   * @returns A new ActionBuilder instance with the wrapper added
+   *
+   * @example
+   * ```typescript
+   * const action = createAction<{ title: string }>()
+   *   .around(async ({ proceed }) => {
+   *     const start = performance.now();
+   *     try {
+   *       return await proceed();
+   *     } finally {
+   *       console.log(`Action took ${performance.now() - start}ms`);
+   *     }
+   *   })
+   *   .around(async ({ proceed }) => {
+   *     await db.begin();
+   *     try {
+   *       const response = await proceed();
+   *       await db.commit();
+   *       return response;
+   *     } catch (ex) {
+   *       await db.rollback();
+   *       throw ex;
+   *     }
+   *   })
+   *   .do(async ({ input }) => db.posts.create(input));
+   * ```
+   */
+  around<F extends AroundFn<Input, OutputType, Context>>(fn: F) {
+    return new ActionBuilder<Input, Output, Context, IsAroundAsync<Async, F>, ExceptionHandler, RawInput, OutputSchema>(
+      [...this.fns, { type: 'around', fn }],
+      this.handleException,
+      this.config,
+    );
   }
 
   /**
@@ -91,19 +320,50 @@ export class ActionBuilder<
    * // BlogPost[]
    * ```
    */
-  do<ActionOutput extends OrPromise<OutputType> = never>(actionFn: ActionFn<Input, ActionOutput, Context>) {
-    const actionExecutor = createActionExecutor(this.fns, this.handleException, actionFn);
+  do<ActionOutput extends OrPromise<ActionOutputType<OutputSchema>> = never>(
+    actionFn: ActionFn<Input, ActionOutput, Context>,
+  ) {
+    const { name, inputSchema, outputSchema, timeout, hooks } = this.config;
+    const config: ExecutorConfig = {
+      name,
+      inputSchema,
+      processOutput: outputSchema && ((output) => validateOutput(outputSchema, output)),
+      timeout,
+      hooks,
+      handleActionError: throwActionError,
+    };
+    const actionExecutor = createActionExecutor(this.fns, this.handleException, actionFn, config);
+
+    defineActionMeta(
+      actionExecutor,
+      { name, inputSchema, outputSchema, middlewareCount: this.fns.length },
+      { fns: this.fns, handleException: this.handleException, actionFn, config },
+    );
 
     return actionExecutor as ActionExecutor<
-      Input,
+      RawInput,
       ActionResponse<
-        IsAsync<Async, ActionOutput>,
-        Output | UnwrapNonCtx<ActionOutput> | InferCatchErr<ExceptionHandler>
-      >
+        IsOutputAsync<IsAsync<Async, ActionOutput>, OutputSchema>,
+        Output | ValidatedOutput<OutputSchema, UnwrapNonCtx<ActionOutput>> | InferCatchErr<ExceptionHandler>
+      >,
+      Context
     >;
   }
 }
 
+function throwActionError(error: ActionInputValidationError | ActionAbortedError | ActionTimeoutError): never {
+  throw error;
+}
+
+function validateOutput(schema: StandardSchemaV1, output: unknown) {
+  return validateWithSchema(schema, output, (validation) => {
+    if (validation.issues) throw new ActionOutputValidationError(validation.issues);
+    return validation.value;
+  });
+}
+
+type ActionOutputType<S extends SchemaOrModel | undefined> = S extends SchemaOrModel ? InferSchemaInput<S> : OutputType;
+
 type InferCatchErr<F extends (ex: unknown) => unknown> = Awaited<ReturnType<F>>;
 
 type OutputType = string | number | boolean | object | symbol | null | undefined;
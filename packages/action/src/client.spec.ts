@@ -0,0 +1,157 @@
+import type { Result } from '@uni-ts/result';
+import { createErrorCodecRegistry, defineError, err, ok, taggedErrorCodec } from '@uni-ts/result';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { z } from 'zod';
+import { createActionClient, createFetchTransport, createInMemoryTransport } from './client.js';
+import type { ThrownActionError } from './error.js';
+import { ActionInputValidationError, ActionNotFoundError, actionErrorCodecs } from './error.js';
+import { toFetchHandler } from './fetch.js';
+import type { ActionCallOptions } from './helpers.js';
+import { createActionRegistry } from './registry.js';
+import { createSafeAction } from './safe.js';
+
+describe('client.ts', () => {
+  const createUser = createSafeAction()
+    .input(z.object({ email: z.string() }))
+    .do(({ input }) =>
+      input.email.includes('@') ? ok({ id: '1', email: input.email }) : err('INVALID_EMAIL' as const),
+    );
+
+  const listUsers = createSafeAction().do(async () => ok(['1', '2']));
+
+  const failing = createSafeAction().do(() => {
+    throw new Error('Database is down');
+  });
+
+  const actions = { 'user.create': createUser, 'user.list': listUsers, failing };
+
+  describe('createActionClient', () => {
+    it('calls actions by nested names with inferred types', async () => {
+      const client = createActionClient<typeof actions>(createInMemoryTransport(actions));
+
+      const result = await client.user.create({ email: 'john@example.com' });
+
+      expect(result).toEqual(ok({ id: '1', email: 'john@example.com' }));
+      expect(await client.user.create({ email: 'john' })).toEqual(err('INVALID_EMAIL'));
+      expect(await client.user.list()).toEqual(ok(['1', '2']));
+      expectTypeOf(client.user.create).toEqualTypeOf<
+        (
+          input: { email: string },
+          options?: ActionCallOptions,
+        ) => Promise<
+          Result<
+            { readonly id: '1'; readonly email: string },
+            'INVALID_EMAIL' | ActionInputValidationError | ThrownActionError
+          >
+        >
+      >();
+      expectTypeOf(client.user.list).returns.toEqualTypeOf<Promise<Result<readonly ['1', '2'], ThrownActionError>>>();
+    });
+
+    it('infers actions from a registry', async () => {
+      const registry = createActionRegistry(actions);
+      const client = createActionClient<typeof registry>(createInMemoryTransport(registry));
+
+      expect(await client.user.list()).toEqual(ok(['1', '2']));
+      expectTypeOf(client.user.list).returns.toEqualTypeOf<Promise<Result<readonly ['1', '2'], ThrownActionError>>>();
+    });
+
+    it('restores action errors with their classes', async () => {
+      const client = createActionClient<typeof actions>(createInMemoryTransport(actions));
+
+      const result = await client.user.create({ email: 1 } as never);
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toBeInstanceOf(ActionInputValidationError);
+      expect(!result.success && result.error).toMatchObject({ issues: [{ path: ['email'] }] });
+    });
+
+    it('types errors without codecs as plain Errors', async () => {
+      class NotFoundError extends defineError('NotFound', (props: { id: string }) => `User ${props.id} not found`) {}
+      const getUser = createSafeAction<{ id: string }>().do(({ input }) => err(new NotFoundError({ id: input.id })));
+      const registry = createErrorCodecRegistry([...actionErrorCodecs, taggedErrorCodec(NotFoundError)]);
+
+      const untyped = createActionClient<{ 'user.get': typeof getUser }>(
+        createInMemoryTransport({ 'user.get': getUser }),
+      );
+      const typed = createActionClient<{ 'user.get': typeof getUser }, NotFoundError>(
+        createInMemoryTransport({ 'user.get': getUser }, { registry }),
+        { registry },
+      );
+
+      const untypedResult = await untyped.user.get({ id: '1' });
+      const typedResult = await typed.user.get({ id: '1' });
+
+      expect(!untypedResult.success && untypedResult.error).not.toBeInstanceOf(NotFoundError);
+      expect(!untypedResult.success && untypedResult.error).toMatchObject({ name: 'NotFound' });
+      expect(!typedResult.success && typedResult.error).toBeInstanceOf(NotFoundError);
+      expectTypeOf(untypedResult).toEqualTypeOf<Result<never, Error | ThrownActionError>>();
+      expectTypeOf(typedResult).toEqualTypeOf<Result<never, NotFoundError | ThrownActionError>>();
+    });
+
+    it('passes the signal to the transport', async () => {
+      const transport = vi.fn(createInMemoryTransport(actions));
+      const client = createActionClient<typeof actions>(transport);
+      const { signal } = new AbortController();
+
+      await client.user.list(undefined, { signal });
+
+      expect(transport).toHaveBeenCalledWith({ name: 'user.list', input: undefined, signal });
+    });
+
+    it('rejects when the action is not registered', async () => {
+      const client = createActionClient<typeof actions>(createInMemoryTransport(actions));
+      const unknown = client as unknown as { user: { update: () => Promise<unknown> } };
+
+      await expect(unknown.user.update()).rejects.toThrow(ActionNotFoundError);
+    });
+
+    it('is not treated as a thenable', async () => {
+      const client = createActionClient<typeof actions>(createInMemoryTransport(actions));
+
+      expect(await Promise.resolve(client)).toBe(client);
+    });
+  });
+
+  describe('createFetchTransport', () => {
+    const handlers = new Map(Object.entries(actions).map(([name, action]) => [name, toFetchHandler(action)]));
+    const fetch = vi.fn(async (url: string | URL | Request, init?: RequestInit) => {
+      const request = new Request(url, init);
+      const handler = handlers.get(new URL(request.url).pathname.replace('/api/actions/', ''));
+      return handler ? handler(request) : new Response('Not found', { status: 404 });
+    });
+
+    it('sends actions to the fetch handlers', async () => {
+      const client = createActionClient<typeof actions>(
+        createFetchTransport('http://localhost/api/actions/', { fetch, headers: { authorization: 'Bearer token' } }),
+      );
+
+      expect(await client.user.create({ email: 'john@example.com' })).toEqual(
+        ok({ id: '1', email: 'john@example.com' }),
+      );
+      expect(await client.user.list()).toEqual(ok(['1', '2']));
+
+      const [url, init] = fetch.mock.calls[0] ?? [];
+      expect(url).toBe('http://localhost/api/actions/user.create');
+      expect(new Headers(init?.headers).get('authorization')).toBe('Bearer token');
+    });
+
+    it('restores thrown errors from the response', async () => {
+      const client = createActionClient<typeof actions>(
+        createFetchTransport('http://localhost/api/actions', { fetch }),
+      );
+
+      const result = await client.failing();
+
+      expect(result).toEqual(
+        err(expect.objectContaining({ type: 'ThrownActionError', message: 'Action threw an exception' })),
+      );
+    });
+
+    it('rejects when the response is not a serialized Result', async () => {
+      const client = createActionClient<typeof actions>(createFetchTransport('http://localhost/api', { fetch }));
+
+      await expect(client.user.list()).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import type { ErrorCodecRegistry, Result, UnwrapErr, UnwrapOk } from '@uni-ts/result';
+import { createErrorCodecRegistry, deserializeResult, serializeResult } from '@uni-ts/result';
+import type {
+  ActionAbortedError,
+  ActionInputValidationError,
+  ActionOutputValidationError,
+  ActionTimeoutError,
+  ThrownActionError,
+} from './error.js';
+import { ActionNotFoundError, actionErrorCodecs } from './error.js';
+import type { ActionCallOptions, OrPromise } from './helpers.js';
+import type { ActionMap, ActionName, AnyAction } from './registry.js';
+import { ActionRegistry } from './registry.js';
+
+const defaultRegistry = createErrorCodecRegistry([...actionErrorCodecs]);
+
+/**
+ * Creates a typed client calling actions through the provided transport.
+ *
+ * The client mirrors the names of the actions split by dots, so the action registered as `user.create`
+ * is called with `client.user.create(input)`. Input and Result types are inferred from the actions,
+ * while the Results are deserialized with the codec registry, restoring errors with their original classes.
+ * Errors without a codec in the registry are restored as plain `Error` instances (keeping only their name and message),
+ * so they're typed as `Error` unless they're listed in `DecodedErrors`.
+ * Transport failures (e.g. network errors or responses that are not serialized Results) reject the returned Promise.
+ *
+ * @template Actions - Object type mapping action names to actions (or the type of an ActionRegistry)
+ * @template DecodedErrors - Errors (besides the ones from `actionErrorCodecs`) with codecs in the provided registry
+ * @param transport - Function sending the action call and returning the serialized Result
+ * @param options - Configuration options for the client
+ * @param options.registry - Optional registry of error codecs used to deserialize errors (defaults to `actionErrorCodecs`)
+ * @returns A client with a method for every action
+ *
+ * @example
+ * ```typescript
+ * // server.ts
+ * export const actions = { 'user.create': createUser, 'user.delete': deleteUser };
+ *
+ * // client.ts
+ * import type { actions } from './server';
+ *
+ * const client = createActionClient<typeof actions>(createFetchTransport('/api/actions'));
+ *
+ * const result = await client.user.create({ email: 'john@example.com' });
+ * // Result<User, 'EMAIL_TAKEN' | ActionInputValidationError | ThrownActionError>
+ *
+ * const registry = createErrorCodecRegistry([...actionErrorCodecs, taggedErrorCodec(NotFoundError)]);
+ * const typedClient = createActionClient<typeof actions, NotFoundError>(transport, { registry });
+ * ```
+ */
+export function createActionClient<Actions extends ActionMap | ActionRegistry<any>, DecodedErrors = never>(
+  transport: ActionTransport,
+  { registry = defaultRegistry }: { registry?: ErrorCodecRegistry } = {},
+): ActionClient<InferActionMap<Actions>, DecodedErrors> {
+  const createProxy = (path: string[]): unknown =>
+    new Proxy(() => {}, {
+      get: (_, key) => (typeof key === 'string' && key !== 'then' ? createProxy([...path, key]) : undefined),
+      apply: async (_, __, [input, options]: [unknown, ActionCallOptions?]) =>
+        deserializeResult(await transport({ name: path.join('.'), input, signal: options?.signal }), registry),
+    });
+
+  return createProxy([]) as ActionClient<InferActionMap<Actions>, DecodedErrors>;
+}
+
+/**
+ * Creates a transport sending action calls as POST requests with a JSON body to `${baseUrl}/${name}`,
+ * e.g. to handlers created with `toFetchHandler`.
+ *
+ * @param baseUrl - URL the action names are appended to
+ * @param options - Configuration options for the transport
+ * @param options.fetch - Optional fetch implementation (defaults to the global `fetch`)
+ * @param options.headers - Optional headers added to every request
+ * @returns A transport that can be passed to `createActionClient`
+ *
+ * @example
+ * ```typescript
+ * const transport = createFetchTransport('https://api.example.com/actions', {
+ *   headers: { authorization: `Bearer ${token}` },
+ * });
+ * ```
+ */
+export function createFetchTransport(
+  baseUrl: string,
+  { fetch = globalThis.fetch, headers }: { fetch?: typeof globalThis.fetch; headers?: HeadersInit } = {},
+): ActionTransport {
+  return async ({ name, input, signal }) => {
+    const requestHeaders = new Headers(headers);
+    if (input !== undefined) requestHeaders.set('content-type', 'application/json');
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/${name}`, {
+      method: 'POST',
+      headers: requestHeaders,
+      body: input === undefined ? undefined : JSON.stringify(input),
+      signal,
+    });
+
+    return response.json();
+  };
+}
+
+/**
+ * Creates a transport calling the actions directly in the same process.
+ * The input and Results go through JSON serialization, so the behavior matches the network transports,
+ * which makes it useful for testing the client code.
+ *
+ * @param actions - Object mapping action names to actions or an ActionRegistry
+ * @param options - Configuration options for the transport
+ * @param options.registry - Optional registry of error codecs used to serialize errors (defaults to `actionErrorCodecs`)
+ * @returns A transport that can be passed to `createActionClient`
+ *
+ * @example
+ * ```typescript
+ * const client = createActionClient<typeof actions>(createInMemoryTransport(actions));
+ *
+ * expect(await client.user.create({ email: 'john@example.com' })).toEqual(ok(user));
+ * ```
+ */
+export function createInMemoryTransport(
+  actions: ActionMap | ActionRegistry<any>,
+  { registry = defaultRegistry }: { registry?: ErrorCodecRegistry } = {},
+): ActionTransport {
+  const call = (name: string, input: unknown, options: ActionCallOptions): OrPromise<Result> => {
+    if (actions instanceof ActionRegistry) return actions.call(name, input as never, options) as OrPromise<Result>;
+
+    const action = Object.hasOwn(actions, name) ? actions[name] : undefined;
+    if (!action) throw new ActionNotFoundError(name);
+
+    return action(input as never, options) as OrPromise<Result>;
+  };
+
+  return async ({ name, input, signal }) => {
+    const parsedInput = input === undefined ? undefined : JSON.parse(JSON.stringify(input));
+    const result = await call(name, parsedInput, { signal });
+
+    return JSON.parse(JSON.stringify(serializeResult(result, registry)));
+  };
+}
+
+export type ActionTransport = (request: { name: string; input: unknown; signal?: AbortSignal }) => Promise<unknown>;
+
+export type ActionClient<Actions extends ActionMap, DecodedErrors = never> = UnionToIntersection<
+  { [Name in ActionName<Actions>]: PathToClient<Name, Actions[Name], DecodedErrors> }[ActionName<Actions>]
+>;
+
+type PathToClient<Path extends string, A extends AnyAction, DecodedErrors> = Path extends `${infer Head}.${infer Rest}`
+  ? { [K in Head]: PathToClient<Rest, A, DecodedErrors> }
+  : { [K in Path]: ClientAction<A, DecodedErrors> };
+
+type ClientAction<A extends AnyAction, DecodedErrors> = Parameters<A> extends
+  | []
+  | [input?: undefined, ...args: unknown[]]
+  ? (input?: undefined, options?: ActionCallOptions) => Promise<ClientResult<Awaited<ReturnType<A>>, DecodedErrors>>
+  : (
+      input: Parameters<A>[0],
+      options?: ActionCallOptions,
+    ) => Promise<ClientResult<Awaited<ReturnType<A>>, DecodedErrors>>;
+
+type ClientResult<R, DecodedErrors> = [R] extends [Result]
+  ? Result<UnwrapOk<R>, ClientErr<UnwrapErr<R>, DecodedErrors>>
+  : R;
+
+type ClientErr<E, DecodedErrors> = E extends ActionError | DecodedErrors ? E : E extends Error ? Error : E;
+
+type ActionError =
+  | ThrownActionError
+  | ActionInputValidationError
+  | ActionOutputValidationError
+  | ActionAbortedError
+  | ActionTimeoutError
+  | ActionNotFoundError;
+
+type InferActionMap<T> = T extends ActionRegistry<infer Actions> ? Actions : T extends ActionMap ? T : never;
+
+type UnionToIntersection<U> = (U extends unknown ? (arg: U) => void : never) extends (arg: infer I) => void ? I : never;
@@ -1,3 +1,6 @@
+import type { ErrorCodec, ErrorCodecRegistry, SerializedError } from '@uni-ts/result';
+import type { StandardSchemaV1 } from './standard-schema.js';
+
 /**
  * Error class for wrapping exceptions thrown during action execution.
  *
@@ -47,3 +50,379 @@ export class ThrownActionError extends Error {
     this.name = ThrownActionError.name;
   }
 }
+
+/**
+ * Error produced when the action input doesn't match the schema passed to `.input()`.
+ *
+ * Safe actions return it as an Err result, while regular actions throw it
+ * (without passing it to the `onThrow` handler).
+ *
+ * @example
+ * ```typescript
+ * const action = createSafeAction()
+ *   .input(z.object({ email: z.string().email() }))
+ *   .do(({ input }) => ok(input.email));
+ *
+ * const result = await action({ email: 'invalid' });
+ *
+ * if (isErr(result) && result.error instanceof ActionInputValidationError) {
+ *   console.error('Issues:', result.error.issues);
+ * }
+ * ```
+ */
+export class ActionInputValidationError extends Error {
+  /**
+   * Used to distinguish this error from others with the same shape.
+   */
+  readonly type = 'ActionInputValidationError';
+
+  /**
+   * Array of all validation issues that caused the error.
+   */
+  readonly issues: StandardSchemaV1.FailureResult['issues'];
+
+  /**
+   * Creates a new ActionInputValidationError with the provided validation issues.
+   *
+   * @param issues - Array of validation issues from the schema validation
+   */
+  constructor(issues: StandardSchemaV1.FailureResult['issues']) {
+    super(formatIssues(issues));
+    this.name = ActionInputValidationError.name;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error produced when the value returned by the action doesn't match the schema passed to `.output()`.
+ *
+ * Safe actions return it as an Err result, while regular actions pass it to the `onThrow` handler
+ * (by default, it's thrown wrapped in ThrownActionError).
+ *
+ * @example
+ * ```typescript
+ * const action = createSafeAction()
+ *   .output(z.object({ id: z.string(), name: z.string() }))
+ *   .do(async () => ok(await getUser()));
+ *
+ * const result = await action();
+ *
+ * if (isErr(result) && result.error instanceof ActionOutputValidationError) {
+ *   console.error('Issues:', result.error.issues);
+ * }
+ * ```
+ */
+export class ActionOutputValidationError extends Error {
+  /**
+   * Used to distinguish this error from others with the same shape.
+   */
+  readonly type = 'ActionOutputValidationError';
+
+  /**
+   * Array of all validation issues that caused the error.
+   */
+  readonly issues: StandardSchemaV1.FailureResult['issues'];
+
+  /**
+   * Creates a new ActionOutputValidationError with the provided validation issues.
+   *
+   * @param issues - Array of validation issues from the schema validation
+   */
+  constructor(issues: StandardSchemaV1.FailureResult['issues']) {
+    super(formatIssues(issues));
+    this.name = ActionOutputValidationError.name;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error produced when the signal passed to the action is aborted before the action completes.
+ * Once the signal is aborted, the remaining middleware and the action are not executed.
+ *
+ * Safe actions return it as an Err result, while regular actions throw it
+ * (without passing it to the `onThrow` handler).
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * request.on('close', () => controller.abort());
+ *
+ * const result = await action(input, { signal: controller.signal });
+ *
+ * if (isErr(result) && result.error instanceof ActionAbortedError) {
+ *   console.log('Client disconnected', result.error.cause);
+ * }
+ * ```
+ */
+export class ActionAbortedError extends Error {
+  /**
+   * Used to distinguish this error from others with the same shape.
+   */
+  readonly type = 'ActionAbortedError';
+
+  /**
+   * Creates a new ActionAbortedError with the abort reason of the signal.
+   *
+   * @param reason - The reason the signal was aborted with
+   */
+  constructor(reason: unknown) {
+    super('Action was aborted', { cause: reason });
+    this.name = ActionAbortedError.name;
+  }
+}
+
+/**
+ * Error produced when an asynchronous action doesn't complete within the configured timeout.
+ * When it happens, the signal passed to middleware and action is aborted, so the in-flight work can be cancelled.
+ *
+ * Safe actions return it as an Err result, while regular actions throw it
+ * (without passing it to the `onThrow` handler).
+ *
+ * @example
+ * ```typescript
+ * const action = createSafeAction({ timeout: 5000 })
+ *   .do(async ({ signal }) => ok(await fetch(url, { signal })));
+ *
+ * const result = await action();
+ *
+ * if (isErr(result) && result.error instanceof ActionTimeoutError) {
+ *   console.error(`Timed out after ${result.error.elapsed}ms`);
+ * }
+ * ```
+ */
+export class ActionTimeoutError extends Error {
+  /**
+   * Used to distinguish this error from others with the same shape.
+   */
+  readonly type = 'ActionTimeoutError';
+
+  /**
+   * The configured timeout in milliseconds.
+   */
+  readonly timeout: number;
+
+  /**
+   * Time in milliseconds that elapsed from the action call to the timeout.
+   */
+  readonly elapsed: number;
+
+  /**
+   * Name of the action that timed out (if the action is named).
+   */
+  readonly actionName: string | undefined;
+
+  /**
+   * Creates a new ActionTimeoutError with the timeout details.
+   *
+   * @param timeout - The configured timeout in milliseconds
+   * @param elapsed - Time in milliseconds that elapsed from the action call
+   * @param actionName - Name of the action that timed out
+   */
+  constructor(timeout: number, elapsed: number, actionName?: string) {
+    super(`Action${actionName ? ` "${actionName}"` : ''} timed out after ${elapsed}ms`);
+    this.name = ActionTimeoutError.name;
+    this.timeout = timeout;
+    this.elapsed = elapsed;
+    this.actionName = actionName;
+  }
+}
+
+/**
+ * Error thrown when an action registry is asked to call an action that isn't registered.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await registry.call(request.action, request.input);
+ * } catch (ex) {
+ *   if (ex instanceof ActionNotFoundError) {
+ *     return new Response(ex.message, { status: 404 });
+ *   }
+ * }
+ * ```
+ */
+export class ActionNotFoundError extends Error {
+  /**
+   * Used to distinguish this error from others with the same shape.
+   */
+  readonly type = 'ActionNotFoundError';
+
+  /**
+   * Name of the action that wasn't found.
+   */
+  readonly actionName: string;
+
+  /**
+   * Creates a new ActionNotFoundError for the provided action name.
+   *
+   * @param actionName - Name of the action that wasn't found
+   */
+  constructor(actionName: string) {
+    super(`Action "${actionName}" is not registered`);
+    this.name = ActionNotFoundError.name;
+    this.actionName = actionName;
+  }
+}
+
+/**
+ * Error codec that allows ThrownActionError to be sent across process and network boundaries
+ * with `serializeResult` and `deserializeResult` from `@uni-ts/result`.
+ *
+ * The original exception stored in `cause` is not encoded, so internal details (e.g. database errors)
+ * don't leak to clients. The decoded error has a generic message and no cause.
+ * Use `thrownActionErrorWithCauseCodec` to send the original exception as well.
+ *
+ * @example
+ * ```typescript
+ * import { createErrorCodecRegistry, deserializeResult, serializeResult } from '@uni-ts/result';
+ *
+ * const registry = createErrorCodecRegistry([thrownActionErrorCodec]);
+ *
+ * const serialized = serializeResult(await action(input), registry);
+ * const result = deserializeResult(serialized, registry); // Err<ThrownActionError>
+ * ```
+ */
+export const thrownActionErrorCodec: ErrorCodec<ThrownActionError, { cause?: SerializedError }> = {
+  type: 'ThrownActionError',
+  is: (error) => error instanceof ThrownActionError,
+  encode: () => ({}),
+  decode: decodeThrownActionError,
+};
+
+/**
+ * Error codec that sends ThrownActionError together with the original exception stored in `cause`.
+ * The cause is encoded with the same registry, so native Errors and errors with registered codecs are restored as well.
+ *
+ * Use it only when clients can be trusted with the internal details of thrown exceptions (e.g. in development).
+ * Register it before `actionErrorCodecs`, so it takes precedence over `thrownActionErrorCodec`.
+ *
+ * @example
+ * ```typescript
+ * const registry = createErrorCodecRegistry([thrownActionErrorWithCauseCodec, ...actionErrorCodecs]);
+ *
+ * export const POST = toFetchHandler(createUser, { registry });
+ * ```
+ */
+export const thrownActionErrorWithCauseCodec: ErrorCodec<ThrownActionError, { cause?: SerializedError }> = {
+  type: 'ThrownActionError',
+  is: (error) => error instanceof ThrownActionError,
+  encode: (error, registry) => ({ cause: registry.encode(error.cause) }),
+  decode: decodeThrownActionError,
+};
+
+/**
+ * Error codec that allows ActionInputValidationError to be sent across process and network boundaries.
+ * Issue paths are reduced to property keys (symbols converted to strings), so they stay JSON-compatible.
+ */
+export const actionInputValidationErrorCodec: ErrorCodec<ActionInputValidationError, { issues: SerializedIssue[] }> = {
+  type: 'ActionInputValidationError',
+  is: (error) => error instanceof ActionInputValidationError,
+  encode: (error) => ({ issues: serializeIssues(error.issues) }),
+  decode: ({ issues }) => new ActionInputValidationError(issues),
+};
+
+/**
+ * Error codec that allows ActionOutputValidationError to be sent across process and network boundaries.
+ * Issue paths are reduced to property keys (symbols converted to strings), so they stay JSON-compatible.
+ */
+export const actionOutputValidationErrorCodec: ErrorCodec<ActionOutputValidationError, { issues: SerializedIssue[] }> =
+  {
+    type: 'ActionOutputValidationError',
+    is: (error) => error instanceof ActionOutputValidationError,
+    encode: (error) => ({ issues: serializeIssues(error.issues) }),
+    decode: ({ issues }) => new ActionOutputValidationError(issues),
+  };
+
+/**
+ * Error codec that allows ActionAbortedError to be sent across process and network boundaries.
+ * The abort reason is encoded with the same registry.
+ */
+export const actionAbortedErrorCodec: ErrorCodec<ActionAbortedError, { cause: SerializedError }> = {
+  type: 'ActionAbortedError',
+  is: (error) => error instanceof ActionAbortedError,
+  encode: (error, registry) => ({ cause: registry.encode(error.cause) }),
+  decode: ({ cause }, registry) => new ActionAbortedError(registry.decode(cause)),
+};
+
+/**
+ * Error codec that allows ActionTimeoutError to be sent across process and network boundaries.
+ */
+export const actionTimeoutErrorCodec: ErrorCodec<
+  ActionTimeoutError,
+  { timeout: number; elapsed: number; actionName: string | undefined }
+> = {
+  type: 'ActionTimeoutError',
+  is: (error) => error instanceof ActionTimeoutError,
+  encode: ({ timeout, elapsed, actionName }) => ({ timeout, elapsed, actionName }),
+  decode: ({ timeout, elapsed, actionName }) => new ActionTimeoutError(timeout, elapsed, actionName),
+};
+
+/**
+ * Error codec that allows ActionNotFoundError to be sent across process and network boundaries.
+ */
+export const actionNotFoundErrorCodec: ErrorCodec<ActionNotFoundError, { actionName: string }> = {
+  type: 'ActionNotFoundError',
+  is: (error) => error instanceof ActionNotFoundError,
+  encode: ({ actionName }) => ({ actionName }),
+  decode: ({ actionName }) => new ActionNotFoundError(actionName),
+};
+
+/**
+ * Codecs of all errors produced by actions. Used by default by `toFetchHandler` and `createActionClient`,
+ * so the errors are restored with their original classes on the client.
+ *
+ * @example
+ * ```typescript
+ * import { createErrorCodecRegistry, taggedErrorCodec } from '@uni-ts/result';
+ *
+ * const registry = createErrorCodecRegistry([...actionErrorCodecs, taggedErrorCodec(NotFoundError)]);
+ *
+ * export const GET = toFetchHandler(getUser, { registry });
+ * const client = createActionClient<typeof actions>(transport, { registry });
+ * ```
+ */
+export const actionErrorCodecs: readonly ErrorCodec[] = [
+  thrownActionErrorCodec,
+  actionInputValidationErrorCodec,
+  actionOutputValidationErrorCodec,
+  actionAbortedErrorCodec,
+  actionTimeoutErrorCodec,
+  actionNotFoundErrorCodec,
+];
+
+function decodeThrownActionError(
+  { cause }: { cause?: SerializedError },
+  registry: ErrorCodecRegistry,
+): ThrownActionError {
+  if (cause !== undefined) return new ThrownActionError(registry.decode(cause));
+
+  const error = new ThrownActionError(undefined);
+  error.message = 'Action threw an exception';
+  return error;
+}
+
+function serializeIssues(issues: StandardSchemaV1.FailureResult['issues']): SerializedIssue[] {
+  return [...issues].map(({ message, path }) =>
+    path
+      ? { message, path: path.map((segment) => toSerializedKey(typeof segment === 'object' ? segment.key : segment)) }
+      : { message },
+  );
+}
+
+function toSerializedKey(key: PropertyKey): string | number {
+  return typeof key === 'symbol' ? String(key) : key;
+}
+
+function formatIssues(issues: StandardSchemaV1.FailureResult['issues']): string {
+  return JSON.stringify(
+    [...issues].map(({ message, path }) => ({ message, path: path?.map(toPathKey).join('.') })),
+    null,
+    2,
+  );
+}
+
+function toPathKey(segment: PropertyKey | StandardSchemaV1.PathSegment): string {
+  return String(typeof segment === 'object' ? segment.key : segment);
+}
+
+type SerializedIssue = { message: string; path?: (string | number)[] };
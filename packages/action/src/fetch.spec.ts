@@ -0,0 +1,230 @@
+import type { Result } from '@uni-ts/result';
+import { createErrorCodecRegistry, deserializeResult, err, ok } from '@uni-ts/result';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import {
+  ActionInputValidationError,
+  actionErrorCodecs,
+  ThrownActionError,
+  thrownActionErrorWithCauseCodec,
+} from './error.js';
+import { toFetchHandler } from './fetch.js';
+import { createSafeAction } from './safe.js';
+
+describe('fetch.ts', () => {
+  describe('toFetchHandler', () => {
+    const registry = createErrorCodecRegistry([...actionErrorCodecs]);
+    const echo = createSafeAction<unknown>().do(({ input }) => ok(input));
+
+    async function readResult(response: Response) {
+      return deserializeResult<Result<unknown, unknown>>(await response.json(), registry);
+    }
+
+    it('responds with serialized Ok result and 200 status', async () => {
+      const handler = toFetchHandler(createSafeAction().do(() => ok({ id: 1 })));
+
+      const response = await handler(new Request('http://localhost/', { method: 'POST' }));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('application/json');
+      expect(await readResult(response)).toEqual(ok({ id: 1 }));
+    });
+
+    it('parses JSON body', async () => {
+      const response = await toFetchHandler(echo)(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ name: 'John', tags: ['a'] }),
+        }),
+      );
+
+      expect(await readResult(response)).toEqual(ok({ name: 'John', tags: ['a'] }));
+    });
+
+    it('parses form body', async () => {
+      const body = new FormData();
+      body.append('name', 'John');
+      body.append('tag', 'a');
+      body.append('tag', 'b');
+
+      const response = await toFetchHandler(echo)(new Request('http://localhost/', { method: 'POST', body }));
+
+      expect(await readResult(response)).toEqual(ok({ name: 'John', tag: ['a', 'b'] }));
+    });
+
+    it('parses URL encoded body', async () => {
+      const response = await toFetchHandler(echo)(
+        new Request('http://localhost/', { method: 'POST', body: new URLSearchParams({ name: 'John' }) }),
+      );
+
+      expect(await readResult(response)).toEqual(ok({ name: 'John' }));
+    });
+
+    it('parses query string of GET requests', async () => {
+      const response = await toFetchHandler(echo)(new Request('http://localhost/?id=1&id=2&name=John'));
+
+      expect(await readResult(response)).toEqual(ok({ id: ['1', '2'], name: 'John' }));
+    });
+
+    it('passes undefined input for requests without input', async () => {
+      const handler = toFetchHandler(createSafeAction<unknown>().do(({ input }) => ok(input === undefined)));
+
+      expect(await readResult(await handler(new Request('http://localhost/')))).toEqual(ok(true));
+      expect(await readResult(await handler(new Request('http://localhost/', { method: 'POST' })))).toEqual(ok(true));
+    });
+
+    it('allows to provide custom input parser', async () => {
+      const handler = toFetchHandler(echo, {
+        parseInput: (request) => ({ id: new URL(request.url).pathname.split('/').at(-1) }),
+      });
+
+      const response = await handler(new Request('http://localhost/users/42'));
+
+      expect(await readResult(response)).toEqual(ok({ id: '42' }));
+    });
+
+    it('responds with 422 status when the input is invalid', async () => {
+      const handler = toFetchHandler(
+        createSafeAction()
+          .input(z.object({ email: z.string() }))
+          .do(({ input }) => ok(input.email)),
+      );
+
+      const response = await handler(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ email: 1 }),
+        }),
+      );
+
+      expect(response.status).toBe(422);
+      expect(await readResult(response)).toEqual(err(expect.any(ActionInputValidationError)));
+    });
+
+    it('responds with 422 status when the body cannot be parsed', async () => {
+      const response = await toFetchHandler(echo)(
+        new Request('http://localhost/', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: '{ invalid',
+        }),
+      );
+
+      expect(response.status).toBe(422);
+      expect(await readResult(response)).toEqual(
+        err(expect.objectContaining({ issues: [{ message: expect.stringContaining('Invalid request input') }] })),
+      );
+    });
+
+    it('responds with 500 status for thrown exceptions', async () => {
+      const handler = toFetchHandler(
+        createSafeAction().do(() => {
+          throw new Error('Database is down');
+        }),
+      );
+
+      const response = await handler(new Request('http://localhost/', { method: 'POST' }));
+
+      expect(response.status).toBe(500);
+      expect(await readResult(response)).toEqual(err(expect.any(ThrownActionError)));
+    });
+
+    it('does not expose thrown exceptions unless the codec with cause is registered', async () => {
+      const action = createSafeAction().do(() => {
+        throw new Error('Database is down');
+      });
+      const request = () => new Request('http://localhost/', { method: 'POST' });
+
+      const hidden = await (await toFetchHandler(action)(request())).text();
+      const exposed = await toFetchHandler(action, {
+        registry: createErrorCodecRegistry([thrownActionErrorWithCauseCodec, ...actionErrorCodecs]),
+      })(request());
+
+      expect(hidden).not.toContain('Database is down');
+      expect(await readResult(exposed)).toEqual(err(expect.objectContaining({ cause: new Error('Database is down') })));
+    });
+
+    it('does not expose thrown exceptions with custom registries without action error codecs', async () => {
+      const action = createSafeAction().do(() => {
+        throw new Error('DB password=hunter2');
+      });
+
+      const response = await toFetchHandler(action, { registry: createErrorCodecRegistry([]) })(
+        new Request('http://localhost/', { method: 'POST' }),
+      );
+      const body = await response.text();
+
+      expect(response.status).toBe(500);
+      expect(body).not.toContain('hunter2');
+      expect(deserializeResult(JSON.parse(body), registry)).toEqual(err(expect.any(ThrownActionError)));
+    });
+
+    it('responds with 500 status when the action rejects or its result cannot be serialized', async () => {
+      const rejecting = createSafeAction({
+        onThrow: (ex) => {
+          throw ex;
+        },
+      }).do(async () => {
+        throw new Error('Database is down');
+      });
+      const bigint = createSafeAction().do(() => ok(1n));
+
+      for (const action of [rejecting, bigint]) {
+        const response = await toFetchHandler(action)(new Request('http://localhost/', { method: 'POST' }));
+
+        expect(response.status).toBe(500);
+        expect(await readResult(response)).toEqual(err(expect.any(ThrownActionError)));
+      }
+    });
+
+    it('allows to provide custom error codec registry', async () => {
+      const handler = toFetchHandler(
+        createSafeAction().do(() => err(new ActionInputValidationError([]))),
+        {
+          registry: createErrorCodecRegistry(),
+        },
+      );
+
+      const response = await handler(new Request('http://localhost/', { method: 'POST' }));
+
+      expect(deserializeResult(await response.json())).toEqual(
+        err(expect.objectContaining({ name: 'ActionInputValidationError' })),
+      );
+      expect(response.status).toBe(422);
+    });
+
+    it('responds with 400 status for other errors by default', async () => {
+      const handler = toFetchHandler(createSafeAction().do(() => err('NOT_FOUND')));
+
+      const response = await handler(new Request('http://localhost/', { method: 'POST' }));
+
+      expect(response.status).toBe(400);
+      expect(await readResult(response)).toEqual(err('NOT_FOUND'));
+    });
+
+    it('allows to map errors to custom statuses', async () => {
+      const action = createSafeAction<{ id: number }>().do(({ input }) =>
+        input.id > 0 ? err('NOT_FOUND' as const) : err('FORBIDDEN' as const),
+      );
+      const handler = toFetchHandler(action, {
+        parseInput: (request) => ({ id: Number(new URL(request.url).searchParams.get('id')) }),
+        mapErrToStatus: (error) => (error === 'NOT_FOUND' ? 404 : undefined),
+      });
+
+      expect((await handler(new Request('http://localhost/?id=1'))).status).toBe(404);
+      expect((await handler(new Request('http://localhost/?id=0'))).status).toBe(400);
+    });
+
+    it('passes the request signal to the action', async () => {
+      const controller = new AbortController();
+      const handler = toFetchHandler(createSafeAction().do(async ({ signal }) => ok(signal.aborted)));
+      controller.abort();
+
+      const response = await handler(new Request('http://localhost/', { method: 'POST', signal: controller.signal }));
+
+      expect(response.status).toBe(499);
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import type { ErrorCodecRegistry, Result, UnwrapErr } from '@uni-ts/result';
+import { createErrorCodecRegistry, err, isOk, serializeResult } from '@uni-ts/result';
+import { ActionInputValidationError, actionErrorCodecs, ThrownActionError, thrownActionErrorCodec } from './error.js';
+import type { ActionCallOptions, OrPromise } from './helpers.js';
+
+const defaultRegistry = createErrorCodecRegistry([...actionErrorCodecs]);
+
+const internalErrorResult = serializeResult(err(new ThrownActionError('Internal error')), defaultRegistry);
+
+/**
+ * Converts a safe action into a handler of the Fetch API `Request` returning a `Response`.
+ *
+ * The handler parses the action input from the request, calls the action with the request signal
+ * and responds with the Result serialized with `serializeResult` (so it can be read with `deserializeResult`).
+ * Ok results are sent with the 200 status and Err results with the status returned by `mapErrToStatus`:
+ * - 422 for `ActionInputValidationError` and `ModelValidationError`
+ * - 500 for `ThrownActionError` and `ActionOutputValidationError`
+ * - 504 for `ActionTimeoutError`
+ * - 499 for `ActionAbortedError`
+ * - 400 for any other error
+ *
+ * By default, the input is read from the query string for GET and HEAD requests and from the JSON or form body otherwise.
+ * It's not validated by the handler, so use `.input()` to validate it in the action.
+ * Errors are serialized with all their fields, except for the exceptions wrapped in `ThrownActionError`,
+ * which are exposed only when `thrownActionErrorWithCauseCodec` is added to the registry
+ * (custom registries without a codec for `ThrownActionError` still encode it with `thrownActionErrorCodec`).
+ * When the action rejects or its Result can't be serialized (e.g. it contains a BigInt), the handler responds
+ * with the 500 status and a generic `ThrownActionError`.
+ *
+ * @template A - The type of the safe action
+ * @param action - The action created with `createSafeAction`
+ * @param options - Configuration options for the handler
+ * @param options.parseInput - Optional function reading the action input from the request
+ * @param options.mapErrToStatus - Optional function returning the response status for an error (`undefined` uses the default mapping)
+ * @param options.registry - Optional registry of error codecs used to serialize errors (defaults to `actionErrorCodecs`)
+ * @returns A function handling Fetch API requests
+ *
+ * @example
+ * ```typescript
+ * const createUser = createSafeAction()
+ *   .input(z.object({ email: z.string().email() }))
+ *   .do(async ({ input }) => {
+ *     if (await db.users.exists(input.email)) return err('EMAIL_TAKEN');
+ *     return ok(await db.users.create(input));
+ *   });
+ *
+ * export const POST = toFetchHandler(createUser, {
+ *   mapErrToStatus: (error) => (error === 'EMAIL_TAKEN' ? 409 : undefined),
+ * });
+ * ```
+ */
+export function toFetchHandler<A extends SafeAction>(
+  action: A,
+  {
+    parseInput = parseRequestInput,
+    mapErrToStatus,
+    registry = defaultRegistry,
+  }: FetchHandlerOptions<InferActionErr<A>> = {},
+): (request: Request) => Promise<Response> {
+  const safeRegistry = hideThrownExceptions(registry);
+
+  const toResponse = (result: Result) => {
+    const status = isOk(result)
+      ? 200
+      : (mapErrToStatus?.(result.error as InferActionErr<A>) ?? getErrStatus(result.error));
+    return Response.json(serializeResult(result, safeRegistry), { status });
+  };
+
+  const handle = async (request: Request) => {
+    let input: unknown;
+
+    try {
+      input = await parseInput(request);
+    } catch (ex) {
+      const message = ex instanceof Error ? ex.message : String(ex);
+      return toResponse(err(new ActionInputValidationError([{ message: `Invalid request input: ${message}` }])));
+    }
+
+    return toResponse(await action(input as never, { signal: request.signal }));
+  };
+
+  return (request) => handle(request).catch(() => Response.json(internalErrorResult, { status: 500 }));
+}
+
+function hideThrownExceptions(registry: ErrorCodecRegistry): ErrorCodecRegistry {
+  return {
+    register: (codec) => registry.register(codec),
+    decode: (serialized) => registry.decode(serialized),
+    encode: (error) => {
+      const encoded = registry.encode(error);
+
+      if (!(error instanceof ThrownActionError) || encoded.codec === thrownActionErrorCodec.type) return encoded;
+
+      return { codec: thrownActionErrorCodec.type, value: thrownActionErrorCodec.encode(error, registry) };
+    },
+  };
+}
+
+async function parseRequestInput(request: Request): Promise<unknown> {
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    const { searchParams } = new URL(request.url);
+    return searchParams.size ? toObject(searchParams) : undefined;
+  }
+
+  const contentType = request.headers.get('content-type') ?? '';
+
+  if (contentType.includes('application/json')) return request.json();
+
+  if (contentType.includes('multipart/form-data') || contentType.includes('application/x-www-form-urlencoded')) {
+    return toObject(await request.formData());
+  }
+
+  const text = await request.text();
+  return text || undefined;
+}
+
+function toObject<V>(entries: Iterable<[string, V]>): Record<string, V | V[]> {
+  const object: Record<string, V | V[]> = {};
+
+  for (const [key, value] of entries) {
+    const current = object[key];
+
+    if (current === undefined) object[key] = value;
+    else if (Array.isArray(current)) current.push(value);
+    else object[key] = [current, value];
+  }
+
+  return object;
+}
+
+function getErrStatus(error: unknown): number {
+  const type = typeof error === 'object' && error !== null && 'type' in error ? error.type : undefined;
+
+  switch (type) {
+    case 'ActionInputValidationError':
+    case 'ModelValidationError':
+      return 422;
+    case 'ThrownActionError':
+    case 'ActionOutputValidationError':
+      return 500;
+    case 'ActionTimeoutError':
+      return 504;
+    case 'ActionAbortedError':
+      return 499;
+    default:
+      return 400;
+  }
+}
+
+export type FetchHandlerOptions<E> = {
+  parseInput?: (request: Request) => OrPromise<unknown>;
+  mapErrToStatus?: (error: E) => number | undefined;
+  registry?: ErrorCodecRegistry;
+};
+
+type SafeAction = (input: never, options?: ActionCallOptions) => OrPromise<Result>;
+
+type InferActionErr<A extends SafeAction> = UnwrapErr<Awaited<ReturnType<A>>>;
@@ -1,3 +1,8 @@
+import { ActionAbortedError, ActionInputValidationError, ActionTimeoutError } from './error.js';
+import type { ActionHooks, ActionMiddlewareEvent, ActionTracer } from './hooks.js';
+import { guardHooks } from './hooks.js';
+import type { StandardSchemaV1 } from './standard-schema.js';
+
 /**
  * Creates a context object for passing data between middleware functions.
  *
@@ -25,6 +30,139 @@ export function next<const Value extends object = {}>(value = {} as Value): Ctx<
   return { type: 'ctx', value };
 }
 
+/**
+ * Composes middleware functions into a reusable chain that can be added to an action with a single `.use()` call.
+ *
+ * Every middleware receives the context created by the previous ones, exactly as if they were added with `.with()`.
+ * The resulting chain keeps the merged context and the union of outputs (or Results) the middleware can return,
+ * so actions using it are typed the same way as actions adding the middleware one by one.
+ *
+ * @template Input - The input type the middleware accept. Inferred from the middleware parameters (`unknown` by default).
+ * @param fns - Middleware functions executed in the given order
+ * @returns A middleware chain that can be passed to `.use()` of both action builders
+ *
+ * @example
+ * ```typescript
+ * const authed = composeMiddleware(
+ *   async () => next({ user: await getCurrentUser() }),
+ *   async ({ ctx }) => ((await rateLimiter.allow(ctx.user.id)) ? next() : err('RATE_LIMITED')),
+ *   ({ ctx }) => next({ tenantId: ctx.user.tenantId }),
+ * );
+ *
+ * const listPosts = createSafeAction()
+ *   .use(authed)
+ *   .do(async ({ ctx }) => ok(await db.posts.list(ctx.tenantId)));
+ * // Result<Post[], 'RATE_LIMITED' | ThrownActionError>
+ * ```
+ */
+export function composeMiddleware<Input, O1 extends ChainOutput>(
+  m1: MiddlewareFn<Input, O1, Ctx>,
+): MiddlewareChain<Input, O1, ChainStep<Ctx, O1>>;
+export function composeMiddleware<Input, O1 extends ChainOutput, O2 extends ChainOutput>(
+  m1: MiddlewareFn<Input, O1, Ctx>,
+  m2: MiddlewareFn<Input, O2, ChainStep<Ctx, O1>>,
+): MiddlewareChain<Input, O1 | O2, ChainStep<ChainStep<Ctx, O1>, O2>>;
+export function composeMiddleware<Input, O1 extends ChainOutput, O2 extends ChainOutput, O3 extends ChainOutput>(
+  m1: MiddlewareFn<Input, O1, Ctx>,
+  m2: MiddlewareFn<Input, O2, ChainStep<Ctx, O1>>,
+  m3: MiddlewareFn<Input, O3, ChainStep<ChainStep<Ctx, O1>, O2>>,
+): MiddlewareChain<Input, O1 | O2 | O3, ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>>;
+export function composeMiddleware<
+  Input,
+  O1 extends ChainOutput,
+  O2 extends ChainOutput,
+  O3 extends ChainOutput,
+  O4 extends ChainOutput,
+>(
+  m1: MiddlewareFn<Input, O1, Ctx>,
+  m2: MiddlewareFn<Input, O2, ChainStep<Ctx, O1>>,
+  m3: MiddlewareFn<Input, O3, ChainStep<ChainStep<Ctx, O1>, O2>>,
+  m4: MiddlewareFn<Input, O4, ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>>,
+): MiddlewareChain<Input, O1 | O2 | O3 | O4, ChainStep<ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>, O4>>;
+export function composeMiddleware<
+  Input,
+  O1 extends ChainOutput,
+  O2 extends ChainOutput,
+  O3 extends ChainOutput,
+  O4 extends ChainOutput,
+  O5 extends ChainOutput,
+>(
+  m1: MiddlewareFn<Input, O1, Ctx>,
+  m2: MiddlewareFn<Input, O2, ChainStep<Ctx, O1>>,
+  m3: MiddlewareFn<Input, O3, ChainStep<ChainStep<Ctx, O1>, O2>>,
+  m4: MiddlewareFn<Input, O4, ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>>,
+  m5: MiddlewareFn<Input, O5, ChainStep<ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>, O4>>,
+): MiddlewareChain<
+  Input,
+  O1 | O2 | O3 | O4 | O5,
+  ChainStep<ChainStep<ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>, O4>, O5>
+>;
+export function composeMiddleware<
+  Input,
+  O1 extends ChainOutput,
+  O2 extends ChainOutput,
+  O3 extends ChainOutput,
+  O4 extends ChainOutput,
+  O5 extends ChainOutput,
+  O6 extends ChainOutput,
+>(
+  m1: MiddlewareFn<Input, O1, Ctx>,
+  m2: MiddlewareFn<Input, O2, ChainStep<Ctx, O1>>,
+  m3: MiddlewareFn<Input, O3, ChainStep<ChainStep<Ctx, O1>, O2>>,
+  m4: MiddlewareFn<Input, O4, ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>>,
+  m5: MiddlewareFn<Input, O5, ChainStep<ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>, O4>>,
+  m6: MiddlewareFn<Input, O6, ChainStep<ChainStep<ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>, O4>, O5>>,
+): MiddlewareChain<
+  Input,
+  O1 | O2 | O3 | O4 | O5 | O6,
+  ChainStep<ChainStep<ChainStep<ChainStep<ChainStep<ChainStep<Ctx, O1>, O2>, O3>, O4>, O5>, O6>
+>;
+export function composeMiddleware(
+  ...fns: MiddlewareFn<unknown, ChainOutput, Ctx>[]
+): MiddlewareChain<unknown, ChainOutput, Ctx> {
+  return { type: 'chain', fns };
+}
+
+const metaKey = Symbol('uni-ts.actionMeta');
+const definitionKey = Symbol('uni-ts.actionDefinition');
+
+/**
+ * Returns metadata of an action created with `createAction` or `createSafeAction`.
+ *
+ * The metadata is stored in a non-enumerable property of the action function,
+ * so it can be used for logging, error reporting or generating documentation.
+ *
+ * @param action - The action to get the metadata of
+ * @returns The metadata of the action or undefined if the function is not an action
+ *
+ * @example
+ * ```typescript
+ * const createUser = createAction({ name: 'user.create' })
+ *   .input(userSchema)
+ *   .with(authenticate)
+ *   .do(({ input }) => db.users.create(input));
+ *
+ * getActionMeta(createUser);
+ * // { name: 'user.create', inputSchema: userSchema, outputSchema: undefined, middlewareCount: 1 }
+ * ```
+ */
+export function getActionMeta(action: Fn): ActionMeta | undefined {
+  return (action as Fn & { [metaKey]?: ActionMeta })[metaKey];
+}
+
+export function getActionDefinition(action: Fn): ActionDefinition | undefined {
+  return (action as Fn & { [definitionKey]?: ActionDefinition })[definitionKey];
+}
+
+export function defineActionMeta<F extends Fn>(action: F, meta: ActionMeta, definition: ActionDefinition): F {
+  Object.defineProperty(action, definitionKey, { value: definition });
+  return Object.defineProperty(action, metaKey, { value: Object.freeze(meta) });
+}
+
+const neverAbortedSignal = new AbortController().signal;
+
+let callCount = 0;
+
 function isObject(value: unknown): value is object {
   return typeof value === 'object' && value !== null;
 }
@@ -37,6 +175,12 @@ export function isCtx(value: unknown): value is Ctx {
   return isObject(value) && hasStrictKeys(value, ['type', 'value']) && value.type === 'ctx';
 }
 
+export function isAroundMiddleware<Input, Output, Context extends Ctx>(
+  middleware: Middleware<Input, Output, Context>,
+): middleware is AroundMiddleware<Input, unknown, Context> {
+  return typeof middleware === 'object' && middleware.type === 'around';
+}
+
 export function createActionExecutor<
   Input,
   MiddlewareOutput,
@@ -44,71 +188,296 @@ export function createActionExecutor<
   Context extends Ctx,
   ExceptionHandler extends (ex: unknown) => unknown,
 >(
-  fns: MiddlewareFn<Input, OrPromise<MiddlewareOutput | Ctx>, Ctx>[],
+  fns: Middleware<Input, OrPromise<MiddlewareOutput | Ctx>, Ctx>[],
   handleException: ExceptionHandler,
   actionFn: ActionFn<Input, ActionOutput, Context>,
-): (input: Input) => unknown {
-  const processMiddleware = (
-    input: Input,
-    ctx: Ctx<CtxValue<Context>>,
-  ): OrPromise<MiddlewareOutput | Ctx<CtxValue<Context>>> => {
-    const extendCtx = (newCtx: Ctx) => {
-      ctx.value = { ...ctx.value, ...newCtx.value };
-    };
-
-    for (const middlewareFn of fns) {
-      let resultOrValue = middlewareFn({ input, ctx: ctx.value });
-
-      if (resultOrValue instanceof Promise) {
-        return resultOrValue.then(async (r) => {
-          resultOrValue = r;
-
-          if (!isCtx(resultOrValue)) return resultOrValue;
-          extendCtx(resultOrValue);
-
-          for (const asyncMiddlewareFn of fns.slice(fns.indexOf(middlewareFn) + 1)) {
-            resultOrValue = await asyncMiddlewareFn({ input, ctx: ctx.value });
-
-            if (!isCtx(resultOrValue)) return resultOrValue;
-            extendCtx(resultOrValue);
-          }
-
-          return ctx;
-        });
-      }
-
-      if (!isCtx(resultOrValue)) return resultOrValue;
-      extendCtx(resultOrValue);
-    }
+  {
+    name,
+    inputSchema,
+    processOutput,
+    timeout,
+    initialCtx = {},
+    hooks: unguardedHooks,
+    isErrResponse,
+    handleActionError,
+  }: ExecutorConfig,
+): Fn {
+  const hooks = unguardedHooks && guardHooks(unguardedHooks);
+
+  const processAction = (input: Input, ctx: CtxValue<Context>, call: ActionCall): unknown => {
+    const actionResult = actionFn({ input, ctx, signal: call.signal });
 
-    return ctx;
+    if (!processOutput) return actionResult;
+
+    return actionResult instanceof Promise ? actionResult.then(processOutput) : processOutput(actionResult);
   };
 
-  const processAction = (input: Input, ctx: CtxValue<Context>): unknown => {
-    const actionResult = actionFn({ input, ctx });
-    return actionResult instanceof Promise ? actionResult.catch(handleException) : actionResult;
+  const runMiddleware = (
+    call: ActionCall,
+    index: number,
+    middleware: Middleware<Input, unknown, Ctx>,
+    run: () => unknown,
+  ): unknown => {
+    if (!hooks) return run();
+
+    const type = isAroundMiddleware(middleware) ? 'around' : 'middleware';
+    const fnName = (isAroundMiddleware(middleware) ? middleware.fn : middleware).name;
+    const startTime = Date.now();
+    const startedAt = performance.now();
+    const report = (outcome: ActionMiddlewareEvent['outcome']) =>
+      hooks.onMiddleware?.({
+        actionName: name,
+        callId: call.id,
+        index,
+        name: fnName,
+        type,
+        outcome,
+        startTime,
+        duration: performance.now() - startedAt,
+      });
+
+    return observe(
+      run,
+      (value) => {
+        if (type === 'around') return report('proceeded');
+        if (isCtx(value)) return report('next');
+
+        report('short-circuit');
+        hooks.onShortCircuit?.({ actionName: name, callId: call.id, index, name: fnName, output: value });
+      },
+      () => report('threw'),
+    );
   };
 
-  const actionExecutor = (input: Input): unknown => {
-    try {
-      const resultOrValue = processMiddleware(input, next());
+  const processMiddleware = (input: Input, ctx: CtxValue<Context>, call: ActionCall, index: number): unknown => {
+    const { signal } = call;
+
+    if (signal.aborted) return handleActionError(new ActionAbortedError(signal.reason));
+
+    const middleware = fns[index];
+
+    if (!middleware) return processAction(input, ctx, call);
 
-      if (resultOrValue instanceof Promise) {
-        return resultOrValue.then((r) => (isCtx(r) ? processAction(input, r.value) : r)).catch(handleException);
-      }
+    if (isAroundMiddleware(middleware)) {
+      return runMiddleware(call, index, middleware, () =>
+        middleware.fn({ input, ctx, signal, proceed: () => processMiddleware(input, ctx, call, index + 1) }),
+      );
+    }
+
+    const processResult = (resultOrValue: unknown) =>
+      isCtx(resultOrValue)
+        ? processMiddleware(input, { ...ctx, ...resultOrValue.value }, call, index + 1)
+        : resultOrValue;
+
+    const resultOrValue = runMiddleware(call, index, middleware, () => middleware({ input, ctx, signal }));
+    return resultOrValue instanceof Promise ? resultOrValue.then(processResult) : processResult(resultOrValue);
+  };
 
-      if (!isCtx(resultOrValue)) return resultOrValue;
+  const catchException = (ex: unknown, call: ActionCall) => {
+    if (ex instanceof ActionAbortedError || ex instanceof ActionTimeoutError) throw ex;
+    hooks?.onThrow?.({ actionName: name, callId: call.id, error: ex });
+    return handleException(ex);
+  };
 
-      return processAction(input, resultOrValue.value);
+  const executeAction = (input: Input, call: ActionCall): unknown => {
+    try {
+      const response = processMiddleware(input, initialCtx as CtxValue<Context>, call, 0);
+      return response instanceof Promise ? response.catch((ex) => catchException(ex, call)) : response;
     } catch (ex) {
-      return handleException(ex);
+      return catchException(ex, call);
     }
   };
 
+  const validateAndExecute = (input: Input, call: ActionCall): unknown => {
+    if (!inputSchema) return executeAction(input, call);
+
+    return validateWithSchema(inputSchema, input, (validation) =>
+      validation.issues
+        ? handleActionError(new ActionInputValidationError(validation.issues))
+        : executeAction(validation.value as Input, call),
+    );
+  };
+
+  const executeWithTimeout = (input: Input, call: ActionCall, timeout: number): unknown => {
+    const startedAt = Date.now();
+    const controller = new AbortController();
+    const response = validateAndExecute(input, { ...call, signal: AbortSignal.any([call.signal, controller.signal]) });
+
+    if (!(response instanceof Promise)) return response;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeoutResponse = new Promise<ActionTimeoutError>((resolve) => {
+      timer = setTimeout(() => {
+        const error = new ActionTimeoutError(timeout, Date.now() - startedAt, name);
+        controller.abort(error);
+        resolve(error);
+      }, timeout);
+    }).then(handleActionError);
+
+    return Promise.race([response, timeoutResponse]).finally(() => clearTimeout(timer));
+  };
+
+  const execute = (input: Input, call: ActionCall): unknown =>
+    timeout === undefined ? validateAndExecute(input, call) : executeWithTimeout(input, call, timeout);
+
+  const actionExecutor = (input: Input, { signal = neverAbortedSignal }: ActionCallOptions = {}): unknown => {
+    const call = { id: ++callCount, signal };
+
+    if (!hooks) return execute(input, call);
+
+    const startTime = Date.now();
+    const startedAt = performance.now();
+    const getTiming = () => ({ actionName: name, callId: call.id, startTime, duration: performance.now() - startedAt });
+
+    hooks.onStart?.({ actionName: name, callId: call.id, input, startTime });
+
+    return observe(
+      () => execute(input, call),
+      (output) =>
+        isErrResponse?.(output)
+          ? hooks.onError?.({ ...getTiming(), error: output.error })
+          : hooks.onSuccess?.({ ...getTiming(), output }),
+      (error) => hooks.onError?.({ ...getTiming(), error }),
+    );
+  };
+
   return actionExecutor;
 }
 
+export function validateWithSchema<T>(
+  schema: StandardSchemaV1,
+  value: unknown,
+  fn: (validation: StandardSchemaV1.Result<unknown>) => T,
+): OrPromise<T> {
+  const validation = schema['~standard'].validate(value);
+  return validation instanceof Promise ? validation.then(fn) : fn(validation);
+}
+
+export function toStandardSchema(schemaOrModel: SchemaOrModel): StandardSchemaV1 {
+  return '~standard' in schemaOrModel ? schemaOrModel : schemaOrModel.schema;
+}
+
+function observe(fn: () => unknown, onValue: (value: unknown) => void, onError: (ex: unknown) => void): unknown {
+  try {
+    const value = fn();
+
+    if (!(value instanceof Promise)) {
+      onValue(value);
+      return value;
+    }
+
+    return value.then(
+      (resolved) => {
+        onValue(resolved);
+        return resolved;
+      },
+      (ex) => {
+        onError(ex);
+        throw ex;
+      },
+    );
+  } catch (ex) {
+    onError(ex);
+    throw ex;
+  }
+}
+
 // Type definitions
+export type ActionOptions<ExceptionHandler> = {
+  onThrow?: ExceptionHandler;
+  name?: string;
+  timeout?: number;
+  hooks?: ActionHooks | ActionHooks[];
+  tracer?: ActionTracer;
+};
+
+export type ActionConfig = {
+  name?: string;
+  inputSchema?: StandardSchemaV1;
+  outputSchema?: StandardSchemaV1;
+  timeout?: number;
+  hooks?: ActionHooks;
+};
+
+export type ExecutorConfig = {
+  name?: string;
+  inputSchema?: StandardSchemaV1;
+  processOutput?: (output: unknown) => unknown;
+  timeout?: number;
+  initialCtx?: object;
+  hooks?: ActionHooks;
+  isErrResponse?: (response: unknown) => response is { error: unknown };
+  handleActionError: (error: ActionInputValidationError | ActionAbortedError | ActionTimeoutError) => unknown;
+};
+
+type ActionCall = {
+  id: number;
+  signal: AbortSignal;
+};
+
+export type ActionCallOptions = {
+  /**
+   * Signal that stops running the remaining middleware and action once aborted.
+   * It's also passed to every middleware and action, so they can cancel their own work.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * Metadata describing an action, available via `getActionMeta`.
+ */
+export type ActionMeta = {
+  /**
+   * Name of the action set with the `name` option or `.named()`.
+   */
+  readonly name: string | undefined;
+  /**
+   * Schema used to validate the action input.
+   */
+  readonly inputSchema: StandardSchemaV1 | undefined;
+  /**
+   * Schema used to validate the action output.
+   */
+  readonly outputSchema: StandardSchemaV1 | undefined;
+  /**
+   * Number of middleware (including the ones added with `.around()`) executed before the action.
+   */
+  readonly middlewareCount: number;
+};
+
+export type ActionDefinition = {
+  fns: Middleware<any, unknown, Ctx>[];
+  handleException: (ex: unknown) => unknown;
+  actionFn: ActionFn<any, unknown, Ctx>;
+  config: ExecutorConfig;
+};
+
+export type SchemaOrModel = StandardSchemaV1 | { schema: StandardSchemaV1 };
+
+export type InferSchema<S extends SchemaOrModel> = S extends StandardSchemaV1
+  ? S
+  : S extends { schema: infer Schema extends StandardSchemaV1 }
+    ? Schema
+    : never;
+
+export type InferSchemaInput<S extends SchemaOrModel> = StandardSchemaV1.InferInput<InferSchema<S>>;
+
+export type InferSchemaOutput<S extends SchemaOrModel> = StandardSchemaV1.InferOutput<InferSchema<S>>;
+
+export type SchemaValidation<S extends SchemaOrModel> = ReturnType<InferSchema<S>['~standard']['validate']>;
+
+export type IsAroundAsync<Async extends boolean, F extends Fn> = [ReturnType<F>] extends [Promise<unknown>]
+  ? true
+  : Async;
+
+export type IsOutputAsync<Async extends boolean, S extends SchemaOrModel | undefined> = S extends SchemaOrModel
+  ? IsAsync<Async, SchemaValidation<S>>
+  : Async;
+
+export type ValidatedOutput<S extends SchemaOrModel | undefined, Fallback> = S extends SchemaOrModel
+  ? InferSchemaOutput<S>
+  : Fallback;
+
 export type Ctx<Value extends object = {}> = {
   type: 'ctx';
   value: Value;
@@ -121,11 +490,70 @@ export type UnwrapCtx<T> = Extract<Awaited<T>, Ctx>;
 export type MiddlewareFn<Input, Output, Context extends Ctx> = (opts: {
   input: Input;
   ctx: CtxValue<Context>;
+  signal: AbortSignal;
+}) => Output;
+
+export type AroundFn<Input, Response, Context extends Ctx> = <R extends Response>(opts: {
+  input: Input;
+  ctx: CtxValue<Context>;
+  signal: AbortSignal;
+  proceed: () => OrPromise<R>;
+}) => OrPromise<R>;
+
+export type AroundMiddleware<Input, Response, Context extends Ctx> = {
+  type: 'around';
+  fn: AroundFn<Input, Response, Context>;
+};
+
+export type Middleware<Input, Output, Context extends Ctx> =
+  | MiddlewareFn<Input, Output, Context>
+  | AroundMiddleware<Input, unknown, Context>;
+
+export type ActionFn<Input, Output, Context> = (opts: {
+  input: Input;
+  ctx: CtxValue<Context>;
+  signal: AbortSignal;
 }) => Output;
 
-export type ActionFn<Input, Output, Context> = (opts: { input: Input; ctx: CtxValue<Context> }) => Output;
+/**
+ * Middleware composed with `composeMiddleware`, which can be added to an action with `.use()`.
+ */
+export type MiddlewareChain<Input, Output, Context extends Ctx> = {
+  readonly type: 'chain';
+  readonly fns: MiddlewareFn<Input, Output, Ctx>[];
+  /**
+   * Type-only property keeping the context created by the chain.
+   */
+  readonly '~types'?: { readonly context: Context };
+};
+
+type ChainOutput = OrPromise<string | number | boolean | object | symbol | null | undefined>;
 
-export type ActionExecutor<Input, Response> = [Input] extends [never] ? () => Response : (input: Input) => Response;
+type ChainStep<Context extends Ctx, Output> = Ctx<Merge<CtxValue<Context>, CtxValue<UnwrapCtx<Output>>>>;
+
+export type IsChainAsync<Async extends boolean, Output> = [Extract<Output, Promise<unknown>>] extends [never]
+  ? Async
+  : true;
+
+/**
+ * Executable action created with `createAction` or `createSafeAction`.
+ */
+export type ActionExecutor<Input, Response, Context extends Ctx = Ctx> = {
+  (...args: ActionArgs<Input>): Response;
+  /**
+   * Type-only property keeping the context created by the middleware, so it can be inferred from the action
+   * (e.g. to type the context injected with `testAction`).
+   */
+  readonly '~types'?: { readonly context: Context };
+};
+
+type ActionArgs<Input> = [Input] extends [never]
+  ? [input?: undefined, options?: ActionCallOptions]
+  : [input: Input, options?: ActionCallOptions];
+
+export type InferActionContext<A> = A extends { readonly '~types'?: { readonly context: infer Context extends Ctx } }
+  ? CtxValue<Context>
+  : never;
 
 export type ActionResponse<Async extends boolean, Content> = Async extends true ? Promise<Content> : Content;
 
@@ -139,6 +567,8 @@ export type IsAsync<Current extends boolean, Return> = [Return] extends [never]
 
 export type OrPromise<T> = T | Promise<T>;
 
+export type Fn = (...args: any[]) => any;
+
 export type Simplify<T> = { [KeyType in keyof T]: T[KeyType] } & {};
 
 export type Merge<Destination, Source> = Simplify<
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { combineHooks, createTracingHooks } from './hooks.js';
+import { createInMemoryTracer } from './testing.js';
+
+describe('hooks.ts', () => {
+  const event = { actionName: 'user.get', callId: 1 };
+
+  describe('combineHooks', () => {
+    it('calls the hooks in the given order', () => {
+      const calls: string[] = [];
+      const hooks = combineHooks({ onStart: () => calls.push('first') }, undefined, {
+        onStart: () => calls.push('second'),
+        onSuccess: () => calls.push('success'),
+      });
+
+      hooks?.onStart?.({ ...event, input: undefined, startTime: 0 });
+
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('calls the remaining hooks when one of them throws', () => {
+      const onStart = vi.fn();
+      const hooks = combineHooks(
+        {
+          onStart: () => {
+            throw new Error('Hook failed');
+          },
+        },
+        { onStart },
+      );
+
+      expect(() => hooks?.onStart?.({ ...event, input: undefined, startTime: 0 })).not.toThrow();
+      expect(onStart).toHaveBeenCalledOnce();
+    });
+
+    it('returns the only defined hooks as they are', () => {
+      const hooks = { onStart: vi.fn() };
+
+      expect(combineHooks(undefined, hooks)).toBe(hooks);
+      expect(combineHooks()).toBeUndefined();
+    });
+  });
+
+  describe('createTracingHooks', () => {
+    it('creates a span for the action call and its middleware', () => {
+      const tracer = createInMemoryTracer();
+      const hooks = createTracingHooks(tracer);
+
+      hooks.onStart?.({ ...event, input: '1', startTime: 100 });
+      hooks.onMiddleware?.({
+        ...event,
+        index: 0,
+        name: 'authenticate',
+        type: 'middleware',
+        outcome: 'threw',
+        startTime: 110,
+        duration: 5,
+      });
+      hooks.onSuccess?.({ ...event, output: null, startTime: 100, duration: 20 });
+
+      expect(tracer.spans).toMatchObject([
+        { name: 'action user.get', parent: undefined, startTime: 100, endTime: 120, status: 'ok' },
+        {
+          name: 'middleware authenticate',
+          parent: { name: 'action user.get' },
+          attributes: { 'action.middleware.index': 0, 'action.middleware.outcome': 'threw' },
+          startTime: 110,
+          endTime: 115,
+          status: 'error',
+        },
+      ]);
+    });
+
+    it('keeps the spans of concurrent calls separate', () => {
+      const tracer = createInMemoryTracer();
+      const hooks = createTracingHooks(tracer);
+
+      hooks.onStart?.({ actionName: undefined, callId: 1, input: undefined, startTime: 0 });
+      hooks.onStart?.({ actionName: undefined, callId: 2, input: undefined, startTime: 0 });
+      hooks.onError?.({ actionName: undefined, callId: 2, error: 'NOT_FOUND', startTime: 0, duration: 1 });
+      hooks.onSuccess?.({ actionName: undefined, callId: 1, output: null, startTime: 0, duration: 2 });
+
+      expect(tracer.spans).toMatchObject([
+        { name: 'action anonymous', endTime: 2, status: 'ok' },
+        { name: 'action anonymous', endTime: 1, status: 'error', statusMessage: 'NOT_FOUND' },
+      ]);
+    });
+  });
+});
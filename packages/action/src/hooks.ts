@@ -0,0 +1,232 @@
+/**
+ * Combines multiple hook objects into one that calls all of them in the given order.
+ *
+ * @param hooks - Hook objects to combine (undefined values are ignored)
+ * @returns The combined hooks or undefined if no hooks were provided
+ *
+ * @example
+ * ```typescript
+ * const action = createAction({
+ *   hooks: combineHooks(loggingHooks, createTracingHooks(tracer)),
+ * }).do(...);
+ * ```
+ */
+export function combineHooks(...hooks: (ActionHooks | undefined)[]): ActionHooks | undefined {
+  const defined = hooks.filter((hook) => hook !== undefined);
+
+  if (defined.length <= 1) return defined[0];
+
+  return mapHooks((key, event) => {
+    for (const hook of defined) callHook(hook, key, event);
+  });
+}
+
+/**
+ * Creates hooks that report every action call as a span with a child span for each executed middleware.
+ *
+ * The spans are created through the provided tracer adapter, so they can be recorded in memory in tests
+ * (see `createInMemoryTracer` from `@uni-ts/action/testing`) or sent to OpenTelemetry in production.
+ * Usually, it's used through the `tracer` option of `createAction` and `createSafeAction`.
+ *
+ * @param tracer - The tracer adapter creating the spans
+ * @returns Hooks reporting the spans
+ *
+ * @example
+ * ```typescript
+ * import { context, SpanStatusCode, trace } from '@opentelemetry/api';
+ *
+ * const otelTracer = trace.getTracer('actions');
+ *
+ * function toActionSpan(span: Span): ActionSpan & { span: Span } {
+ *   return {
+ *     span,
+ *     recordException: (error) => span.recordException(error instanceof Error ? error : String(error)),
+ *     setStatus: (status, message) =>
+ *       span.setStatus({ code: status === 'ok' ? SpanStatusCode.OK : SpanStatusCode.ERROR, message }),
+ *     end: (endTime) => span.end(endTime),
+ *   };
+ * }
+ *
+ * const tracer: ActionTracer = {
+ *   startSpan: (name, { parent, ...options }) => {
+ *     const ctx = parent ? trace.setSpan(context.active(), (parent as ReturnType<typeof toActionSpan>).span) : undefined;
+ *     return toActionSpan(otelTracer.startSpan(name, options, ctx));
+ *   },
+ * };
+ *
+ * const action = createAction({ name: 'user.create', tracer }).do(...);
+ * ```
+ */
+export function createTracingHooks(tracer: ActionTracer): ActionHooks {
+  const spans = new Map<number, ActionSpan>();
+
+  const endSpan = (callId: number, endTime: number, status: 'ok' | 'error', message?: string) => {
+    const span = spans.get(callId);
+    spans.delete(callId);
+    span?.setStatus(status, message);
+    span?.end(endTime);
+  };
+
+  return {
+    onStart: ({ callId, actionName, startTime }) => {
+      const attributes: Record<string, string> = actionName === undefined ? {} : { 'action.name': actionName };
+      spans.set(callId, tracer.startSpan(`action ${actionName ?? 'anonymous'}`, { startTime, attributes }));
+    },
+    onMiddleware: ({ callId, index, name, type, outcome, startTime, duration }) => {
+      const span = tracer.startSpan(`${type} ${name || index}`, {
+        startTime,
+        parent: spans.get(callId),
+        attributes: { 'action.middleware.index': index, 'action.middleware.outcome': outcome },
+      });
+      span.setStatus(outcome === 'threw' ? 'error' : 'ok');
+      span.end(startTime + duration);
+    },
+    onThrow: ({ callId, error }) => {
+      spans.get(callId)?.recordException(error);
+    },
+    onSuccess: ({ callId, startTime, duration }) => {
+      endSpan(callId, startTime + duration, 'ok');
+    },
+    onError: ({ callId, error, startTime, duration }) => {
+      endSpan(callId, startTime + duration, 'error', error instanceof Error ? error.message : String(error));
+    },
+  };
+}
+
+/**
+ * Wraps the hooks, so the errors they throw are ignored instead of breaking the action.
+ */
+export function guardHooks(hooks: ActionHooks): ActionHooks {
+  return mapHooks((key, event) => callHook(hooks, key, event));
+}
+
+export function resolveHooks({ hooks, tracer }: { hooks?: ActionHooks | ActionHooks[]; tracer?: ActionTracer }) {
+  return combineHooks(...[hooks ?? []].flat(), tracer && createTracingHooks(tracer));
+}
+
+function mapHooks(call: <K extends keyof ActionHooks>(key: K, event: HookEvent<K>) => void): ActionHooks {
+  return {
+    onStart: (event) => call('onStart', event),
+    onMiddleware: (event) => call('onMiddleware', event),
+    onShortCircuit: (event) => call('onShortCircuit', event),
+    onSuccess: (event) => call('onSuccess', event),
+    onError: (event) => call('onError', event),
+    onThrow: (event) => call('onThrow', event),
+  };
+}
+
+function callHook<K extends keyof ActionHooks>(hooks: ActionHooks, key: K, event: HookEvent<K>) {
+  try {
+    (hooks[key] as ((event: HookEvent<K>) => void) | undefined)?.(event);
+  } catch {
+    // Hooks only observe the action, so their errors must not change its outcome
+  }
+}
+
+/**
+ * Functions called during the action execution, e.g. to log, measure or trace the action calls.
+ * The hooks are called synchronously. Errors thrown by them are ignored, so they never break the action.
+ */
+export type ActionHooks = {
+  /**
+   * Called when the action is called (before the input validation).
+   */
+  onStart?: (event: ActionStartEvent) => void;
+  /**
+   * Called when a middleware completes. For `.around()` middleware, the duration includes the wrapped pipeline.
+   */
+  onMiddleware?: (event: ActionMiddlewareEvent) => void;
+  /**
+   * Called when a middleware returns a value instead of the context, ending the pipeline early.
+   */
+  onShortCircuit?: (event: ActionShortCircuitEvent) => void;
+  /**
+   * Called when the action completes with a value (or an Ok result for safe actions).
+   */
+  onSuccess?: (event: ActionSuccessEvent) => void;
+  /**
+   * Called when the action completes with an exception (or an Err result for safe actions).
+   */
+  onError?: (event: ActionErrorEvent) => void;
+  /**
+   * Called when a middleware or the action throws, before the exception is passed to the `onThrow` handler.
+   */
+  onThrow?: (event: ActionThrowEvent) => void;
+};
+
+type HookEvent<K extends keyof ActionHooks> = Parameters<NonNullable<ActionHooks[K]>>[0];
+
+type ActionEvent = {
+  /**
+   * Name of the action (if the action is named).
+   */
+  actionName: string | undefined;
+  /**
+   * Identifier of the action call, the same for all events of a single call.
+   */
+  callId: number;
+};
+
+type TimedEvent = {
+  /**
+   * Time when the execution started, in milliseconds since the Unix epoch.
+   */
+  startTime: number;
+  /**
+   * Duration of the execution in milliseconds.
+   */
+  duration: number;
+};
+
+export type ActionStartEvent = ActionEvent & { input: unknown; startTime: number };
+
+export type ActionMiddlewareEvent = ActionEvent &
+  TimedEvent & {
+    index: number;
+    name: string;
+    type: 'middleware' | 'around';
+    outcome: 'next' | 'short-circuit' | 'proceeded' | 'threw';
+  };
+
+export type ActionShortCircuitEvent = ActionEvent & { index: number; name: string; output: unknown };
+
+export type ActionSuccessEvent = ActionEvent & TimedEvent & { output: unknown };
+
+export type ActionErrorEvent = ActionEvent & TimedEvent & { error: unknown };
+
+export type ActionThrowEvent = ActionEvent & { error: unknown };
+
+/**
+ * Adapter creating spans for `createTracingHooks`, e.g. backed by an OpenTelemetry tracer.
+ */
+export interface ActionTracer {
+  /**
+   * Starts a new span.
+   *
+   * @param name - The name of the span
+   * @param options - The start time (in milliseconds since the Unix epoch), parent span and attributes of the span
+   * @returns The started span
+   */
+  startSpan(
+    name: string,
+    options: { startTime: number; parent?: ActionSpan; attributes: Record<string, string | number> },
+  ): ActionSpan;
+}
+
+/**
+ * Span created by `ActionTracer`.
+ */
+export interface ActionSpan {
+  /**
+   * Records an exception thrown during the span.
+   */
+  recordException(error: unknown): void;
+  /**
+   * Sets the final status of the span.
+   */
+  setStatus(status: 'ok' | 'error', message?: string): void;
+  /**
+   * Ends the span at the given time (in milliseconds since the Unix epoch).
+   */
+  end(endTime: number): void;
+}
@@ -1,6 +1,25 @@
-import { describe, expect, expectTypeOf, it } from 'vitest';
-import { ThrownActionError } from './error.js';
-import { createAction, defaultActionExceptionHandler, next } from './index.js';
+import { type } from 'arktype';
+import * as v from 'valibot';
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  ActionAbortedError,
+  ActionInputValidationError,
+  ActionOutputValidationError,
+  ActionTimeoutError,
+  ThrownActionError,
+} from './error.js';
+import type { ActionCallOptions, OrPromise } from './helpers.js';
+import type {
+  ActionErrorEvent,
+  ActionMiddlewareEvent,
+  ActionShortCircuitEvent,
+  ActionStartEvent,
+  ActionSuccessEvent,
+  ActionThrowEvent,
+} from './hooks.js';
+import { composeMiddleware, createAction, defaultActionExceptionHandler, getActionMeta, next } from './index.js';
+import { createInMemoryTracer } from './testing.js';
 
 describe('index.ts', () => {
   function expectActionError(action: () => unknown, message: string) {
@@ -43,7 +62,9 @@ describe('index.ts', () => {
         });
 
       expect(action({ name: 'John', age: 30 })).toBe(null);
-      expectTypeOf(action).toEqualTypeOf<(input: { name: string; age: number }) => null>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: { name: string; age: number }, options?: ActionCallOptions) => null
+      >();
     });
 
     it('works with no input when its type is not specified', () => {
@@ -58,7 +79,9 @@ describe('index.ts', () => {
         });
 
       expect(action()).toBe(null);
-      expectTypeOf(action).toEqualTypeOf<() => null>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => null
+      >();
     });
 
     it('has the default exception handler', () => {
@@ -69,7 +92,9 @@ describe('index.ts', () => {
         .do(() => 'success');
 
       expectActionError(action, 'test error');
-      expectTypeOf(action).toEqualTypeOf<() => 'success'>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => 'success'
+      >();
     });
 
     it('uses custom exception handler when provided', () => {
@@ -84,7 +109,9 @@ describe('index.ts', () => {
         .do(() => 'success');
 
       expect(() => action()).toThrow('[Custom] Error: test error');
-      expectTypeOf(action).toEqualTypeOf<() => 'success'>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => 'success'
+      >();
     });
   });
 
@@ -149,7 +176,332 @@ describe('index.ts', () => {
         .do(() => 'Should not reach here');
 
       expect(action()).toBe('early return');
-      expectTypeOf(action).toEqualTypeOf<() => 'early return' | 'Should not reach here'>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => 'early return' | 'Should not reach here'
+      >();
+    });
+  });
+
+  describe('use', () => {
+    it('adds all middleware of the chain with the merged context and outputs', () => {
+      const executionOrder: string[] = [];
+      const authed = composeMiddleware(
+        () => {
+          executionOrder.push('authenticate');
+          return next({ user: { id: 1 } });
+        },
+        ({ ctx }) => {
+          executionOrder.push('loadPermissions');
+          return ctx.user.id > 0 ? next({ permissions: ['read'] }) : null;
+        },
+      );
+
+      const action = createAction()
+        .use(authed)
+        .do(({ ctx }) => {
+          expectTypeOf(ctx).toEqualTypeOf<{
+            readonly user: { readonly id: 1 };
+            readonly permissions: readonly ['read'];
+          }>();
+          return ctx.permissions.length;
+        });
+
+      expect(action()).toBe(1);
+      expect(executionOrder).toEqual(['authenticate', 'loadPermissions']);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => 1 | null
+      >();
+    });
+
+    it('makes the action async when any middleware of the chain is async', async () => {
+      const chain = composeMiddleware(
+        () => next({ a: 1 }),
+        async () => next({ b: 2 }),
+      );
+
+      const action = createAction()
+        .use(chain)
+        .do(({ ctx }) => ctx.a + ctx.b);
+
+      expect(await action()).toBe(3);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<number>
+      >();
+    });
+
+    it('runs chain middleware in order with the previous middleware', () => {
+      const executionOrder: string[] = [];
+      const chain = composeMiddleware(
+        () => {
+          executionOrder.push('chain1');
+          return next();
+        },
+        () => {
+          executionOrder.push('chain2');
+          return next();
+        },
+      );
+
+      const action = createAction()
+        .with(() => {
+          executionOrder.push('before');
+          return next();
+        })
+        .use(chain)
+        .with(() => {
+          executionOrder.push('after');
+          return next();
+        })
+        .do(() => executionOrder.push('action'));
+
+      action();
+
+      expect(executionOrder).toEqual(['before', 'chain1', 'chain2', 'after', 'action']);
+    });
+  });
+
+  describe('input', () => {
+    const positiveNumber = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value: unknown) =>
+          typeof value === 'number' && value > 0 ? { value } : { issues: [{ message: 'Expected positive number' }] },
+        types: undefined as unknown as { input: number; output: number },
+      },
+    } as const;
+
+    it('throws TypeError when middleware was already added', () => {
+      const builder = createAction<number>().with(() => next());
+
+      expect(() => builder.input(positiveNumber)).toThrow(TypeError);
+      expect(() =>
+        createAction()
+          .around(({ proceed }) => proceed())
+          .input(positiveNumber),
+      ).toThrow('The input schema must be set before adding middleware');
+    });
+
+    it('validates the input before middleware runs', () => {
+      const middleware = vi.fn(() => next());
+      const onThrow = vi.fn((_ex: unknown) => null);
+      const action = createAction({ onThrow })
+        .input(positiveNumber)
+        .with(middleware)
+        .do(({ input }) => input * 2);
+
+      expect(action(2)).toBe(4);
+      expect(() => action(-1)).toThrow(ActionInputValidationError);
+      expect(middleware).toHaveBeenCalledTimes(1);
+      expect(onThrow).not.toHaveBeenCalled();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: number, options?: ActionCallOptions) => number | null
+      >();
+    });
+
+    it('passes the validated output to middleware and action', async () => {
+      const action = createAction()
+        .input(z.object({ name: z.string().transform((name) => name.trim()) }))
+        .with(({ input }) => {
+          expectTypeOf(input).toEqualTypeOf<{ name: string }>();
+          return next({ length: input.name.length });
+        })
+        .do(({ input, ctx }) => `${input.name}:${ctx.length}`);
+
+      expect(await action({ name: ' John ' })).toBe('John:4');
+      type Response = `${string}:${number}`;
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: { name: string }, options?: ActionCallOptions) => Response | Promise<Response>
+      >();
+    });
+
+    it('exposes validation issues in the thrown error', () => {
+      const action = createAction()
+        .input(positiveNumber)
+        .do(() => null);
+
+      try {
+        action(0);
+        expect.unreachable();
+      } catch (ex) {
+        expect(ex).toBeInstanceOf(ActionInputValidationError);
+        expect((ex as ActionInputValidationError).issues).toEqual([{ message: 'Expected positive number' }]);
+      }
+    });
+
+    it('works with async schemas', async () => {
+      const action = createAction()
+        .input(z.string().refine(async (value) => value.startsWith('@')))
+        .do(({ input }) => input.slice(1));
+
+      await expect(action('@john')).resolves.toBe('john');
+      await expect(action('john')).rejects.toBeInstanceOf(ActionInputValidationError);
+    });
+
+    it.each([
+      ['valibot', v.pipe(v.string(), v.email())],
+      ['arktype', type('string.email')],
+      ['zod', z.email()],
+    ])('accepts %s schemas and models', (_, schema) => {
+      for (const schemaOrModel of [schema, { schema }]) {
+        const action = createAction()
+          .input(schemaOrModel)
+          .do(({ input }) => input);
+
+        expect(action('john@example.com')).toBe('john@example.com');
+        expect(() => action('john')).toThrow(ActionInputValidationError);
+      }
+    });
+  });
+
+  describe('output', () => {
+    const User = z.object({ id: z.string(), name: z.string() });
+
+    it('validates and strips the action output', async () => {
+      const action = createAction()
+        .output(User)
+        .do(() => ({ id: '1', name: 'John', passwordHash: 'secret' }));
+
+      expect(await action()).toEqual({ id: '1', name: 'John' });
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (
+          input?: undefined,
+          options?: ActionCallOptions,
+        ) => { id: string; name: string } | Promise<{ id: string; name: string }>
+      >();
+    });
+
+    it('passes output violations to the exception handler', async () => {
+      const onThrow = vi.fn((_ex: unknown) => null);
+      const action = createAction({ onThrow })
+        .output({ schema: User })
+        .do(() => ({ id: 1, name: 'John' }) as unknown as { id: string; name: string });
+
+      expect(await action()).toBe(null);
+      expect(onThrow).toHaveBeenCalledWith(expect.any(ActionOutputValidationError));
+    });
+
+    it('throws ThrownActionError by default', async () => {
+      const action = createAction()
+        .output(User)
+        .do(async () => ({ id: '1' }) as { id: string; name: string });
+
+      await expect(action()).rejects.toMatchObject({ cause: expect.any(ActionOutputValidationError) });
+    });
+
+    it('does not validate values returned early by middleware', async () => {
+      const action = createAction()
+        .output(User)
+        .with(() => 'early return' as const)
+        .do(() => ({ id: '1', name: 'John' }));
+
+      expect(await action()).toBe('early return');
+      expectTypeOf(action).returns.toEqualTypeOf<OrPromise<'early return' | { id: string; name: string }>>();
+    });
+
+    it('requires the action to return the schema input type', () => {
+      createAction()
+        .output(User)
+        // @ts-expect-error - name is missing
+        .do(() => ({ id: '1' }));
+    });
+
+    it('works with async schemas', async () => {
+      const action = createAction()
+        .output(z.string().refine(async (value) => value.length > 0))
+        .do(() => '');
+
+      await expect(action()).rejects.toBeInstanceOf(ThrownActionError);
+    });
+  });
+
+  describe('around', () => {
+    it('wraps the rest of the pipeline', () => {
+      const executionOrder: string[] = [];
+
+      const action = createAction()
+        .with(() => {
+          executionOrder.push('middleware1');
+          return next({ user: 'John' });
+        })
+        .around(({ ctx, proceed }) => {
+          executionOrder.push(`around:before:${ctx.user}`);
+          const response = proceed();
+          executionOrder.push('around:after');
+          return response;
+        })
+        .with(() => {
+          executionOrder.push('middleware2');
+          return next();
+        })
+        .do(() => {
+          executionOrder.push('action');
+          return 'success';
+        });
+
+      expect(action()).toBe('success');
+      expect(executionOrder).toEqual(['middleware1', 'around:before:John', 'middleware2', 'action', 'around:after']);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => 'success'
+      >();
+    });
+
+    it('makes the action async when the wrapper is async', async () => {
+      const durations: number[] = [];
+
+      const action = createAction<number>()
+        .around(async ({ proceed }) => {
+          const start = Date.now();
+          const response = await proceed();
+          durations.push(Date.now() - start);
+          return response;
+        })
+        .do(({ input }) => input * 2);
+
+      expect(await action(2)).toBe(4);
+      expect(durations).toHaveLength(1);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: number, options?: ActionCallOptions) => Promise<number>
+      >();
+    });
+
+    it('receives responses returned early by middleware', async () => {
+      const responses: unknown[] = [];
+
+      const action = createAction()
+        .around(async ({ proceed }) => {
+          const response = await proceed();
+          responses.push(response);
+          return response;
+        })
+        .with(() => 'early return' as const)
+        .do(() => 'success' as const);
+
+      expect(await action()).toBe('early return');
+      expect(responses).toEqual(['early return']);
+    });
+
+    it('allows to react to exceptions thrown in the wrapped pipeline', async () => {
+      const rollback = vi.fn();
+
+      const action = createAction()
+        .around(async ({ proceed }) => {
+          try {
+            return await proceed();
+          } catch (ex) {
+            rollback(ex);
+            throw ex;
+          }
+        })
+        .do(async () => {
+          throw new Error('test error');
+        });
+
+      const error = await Promise.resolve(action()).catch((ex: unknown) => ex);
+
+      expect(rollback).toHaveBeenCalledWith(new Error('test error'));
+      expect(error).toBeInstanceOf(ThrownActionError);
+      expect((error as ThrownActionError).cause).toEqual(new Error('test error'));
     });
   });
 
@@ -162,7 +514,9 @@ describe('index.ts', () => {
       });
 
       expect(action()).toBe('success');
-      expectTypeOf(action).toEqualTypeOf<() => 'success'>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => 'success'
+      >();
     });
 
     it('infers complex types from middleware and action', () => {
@@ -196,7 +550,9 @@ describe('index.ts', () => {
         });
 
       expect(action()).toEqual({ first: 1, second: 'two', third: true });
-      expectTypeOf(action).toEqualTypeOf<() => Readonly<{ first: 1; second: 'two'; third: true }>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Readonly<{ first: 1; second: 'two'; third: true }>
+      >();
     });
 
     it('overrides context properties with later middleware values', () => {
@@ -213,7 +569,9 @@ describe('index.ts', () => {
         });
 
       expect(action()).toEqual({ value: 'overridden', otherValue: 42 });
-      expectTypeOf(action).toEqualTypeOf<() => Readonly<{ value: 'overridden'; otherValue: 42 }>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Readonly<{ value: 'overridden'; otherValue: 42 }>
+      >();
     });
   });
 
@@ -227,7 +585,9 @@ describe('index.ts', () => {
         });
 
       expect(await action()).toBe('success');
-      expectTypeOf(action).toEqualTypeOf<() => Promise<'success'>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<'success'>
+      >();
     });
 
     it('returns promise when action is async', async () => {
@@ -239,7 +599,9 @@ describe('index.ts', () => {
         });
 
       expect(await action()).toBe('async result');
-      expectTypeOf(action).toEqualTypeOf<() => Promise<string>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<string>
+      >();
     });
 
     it('processes mix of sync and async middleware correctly', async () => {
@@ -309,7 +671,9 @@ describe('index.ts', () => {
         .do(() => null);
 
       expectActionError(action, 'Middleware error');
-      expectTypeOf(action).toEqualTypeOf<() => null>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => null
+      >();
     });
 
     it('handles asynchronous middleware errors', async () => {
@@ -320,7 +684,9 @@ describe('index.ts', () => {
         .do(() => null);
 
       await expectActionError(action, 'Async middleware error');
-      expectTypeOf(action).toEqualTypeOf<() => Promise<null>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<null>
+      >();
     });
 
     it('handles synchronous action errors', () => {
@@ -329,7 +695,9 @@ describe('index.ts', () => {
       });
 
       expectActionError(action, 'Action error');
-      expectTypeOf(action).toEqualTypeOf<() => never>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => never
+      >();
     });
 
     it('handles asynchronous action errors', async () => {
@@ -338,7 +706,9 @@ describe('index.ts', () => {
       });
 
       await expectActionError(action, 'Async action error');
-      expectTypeOf(action).toEqualTypeOf<() => Promise<never>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<never>
+      >();
     });
 
     it('uses custom error handler when provided', () => {
@@ -353,7 +723,9 @@ describe('index.ts', () => {
         .do(() => null);
 
       expect(() => action()).toThrow('[Custom] Error: Test error');
-      expectTypeOf(action).toEqualTypeOf<() => null>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => null
+      >();
     });
 
     it('allows to make action non-throwable for unexpected errors', () => {
@@ -366,7 +738,336 @@ describe('index.ts', () => {
         .do(() => null);
 
       expect(action()).toBe('HAS_SOME_ERROR');
-      expectTypeOf(action).toEqualTypeOf<() => 'HAS_SOME_ERROR' | null>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => 'HAS_SOME_ERROR' | null
+      >();
+    });
+  });
+
+  describe('abort', () => {
+    it('throws ActionAbortedError without running the pipeline when the signal is already aborted', () => {
+      const controller = new AbortController();
+      const reason = new Error('Cancelled');
+      const onThrow = vi.fn((_ex: unknown) => null);
+      const middleware = vi.fn(() => next());
+      const action = createAction({ onThrow })
+        .with(middleware)
+        .do(() => 'success');
+
+      controller.abort(reason);
+
+      expect(() => action(undefined, { signal: controller.signal })).toThrow(ActionAbortedError);
+      expect(() => action(undefined, { signal: controller.signal })).toThrow(
+        expect.objectContaining({ cause: reason }),
+      );
+      expect(middleware).not.toHaveBeenCalled();
+      expect(onThrow).not.toHaveBeenCalled();
+    });
+
+    it('stops running remaining middleware once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const secondMiddleware = vi.fn(() => next());
+      const actionFn = vi.fn(() => 'success');
+      const action = createAction<number>()
+        .with(async () => {
+          controller.abort();
+          return next();
+        })
+        .with(secondMiddleware)
+        .do(actionFn);
+
+      await expect(action(1, { signal: controller.signal })).rejects.toThrow(ActionAbortedError);
+      expect(secondMiddleware).not.toHaveBeenCalled();
+      expect(actionFn).not.toHaveBeenCalled();
+    });
+
+    it('passes the signal to middleware and action', () => {
+      const { signal } = new AbortController();
+      const signals: AbortSignal[] = [];
+      const action = createAction()
+        .with((opts) => {
+          signals.push(opts.signal);
+          return next();
+        })
+        .around(({ signal, proceed }) => {
+          signals.push(signal);
+          return proceed();
+        })
+        .do((opts) => {
+          signals.push(opts.signal);
+          return 'success';
+        });
+
+      expect(action(undefined, { signal })).toBe('success');
+      expect(signals).toEqual([signal, signal, signal]);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => 'success'
+      >();
+    });
+
+    it('accepts the signal in actions with input', () => {
+      const controller = new AbortController();
+      const action = createAction<number>().do(({ input }) => input);
+
+      controller.abort();
+
+      expect(() => action(1, { signal: controller.signal })).toThrow(ActionAbortedError);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: number, options?: ActionCallOptions) => number
+      >();
+    });
+
+    it('passes a signal that is never aborted when none is provided', () => {
+      const action = createAction().do(({ signal }) => signal.aborted);
+
+      expect(action()).toBe(false);
+    });
+  });
+
+  describe('timeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    function waitForAbort(signal: AbortSignal) {
+      return new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(signal.reason)));
+    }
+
+    it('throws ActionTimeoutError and aborts the signal when the action takes too long', async () => {
+      const onThrow = vi.fn((_ex: unknown) => null);
+      let actionSignal: AbortSignal | undefined;
+      const action = createAction({ onThrow })
+        .timeout(100)
+        .do(async ({ signal }) => {
+          actionSignal = signal;
+          return waitForAbort(signal);
+        });
+
+      const response = action();
+      const assertion = expect(response).rejects.toThrow(ActionTimeoutError);
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+      await expect(response).rejects.toMatchObject({ timeout: 100, elapsed: 100 });
+      expect(actionSignal?.aborted).toBe(true);
+      expect(onThrow).not.toHaveBeenCalled();
+    });
+
+    it('returns the response when the action completes in time', async () => {
+      const action = createAction({ timeout: 100 }).do(async () => 'success');
+
+      await expect(action()).resolves.toBe('success');
+      expect(vi.getTimerCount()).toBe(0);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<string>
+      >();
+    });
+
+    it('does not affect synchronous actions', () => {
+      const action = createAction({ timeout: 100 }).do(() => 'success');
+
+      expect(action()).toBe('success');
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('passes aborts of the provided signal to the action', async () => {
+      const controller = new AbortController();
+      const action = createAction({ timeout: 100 }).do(async ({ signal }) => waitForAbort(signal));
+
+      const response = action(undefined, { signal: controller.signal });
+      controller.abort('Cancelled');
+
+      await expect(response).rejects.toMatchObject({ cause: 'Cancelled' });
+    });
+  });
+
+  describe('metadata', () => {
+    it('stores the action name and configuration', () => {
+      const inputSchema = z.object({ id: z.string() });
+      const outputSchema = z.string();
+      const action = createAction({ name: 'user.get' })
+        .input(inputSchema)
+        .output(outputSchema)
+        .with(() => next())
+        .around(({ proceed }) => proceed())
+        .do(({ input }) => input.id);
+
+      expect(getActionMeta(action)).toEqual({ name: 'user.get', inputSchema, outputSchema, middlewareCount: 2 });
+      expect(Object.keys(action)).toEqual([]);
+    });
+
+    it('allows to name the action with named', () => {
+      const action = createAction()
+        .named('user.list')
+        .do(() => []);
+
+      expect(getActionMeta(action)?.name).toBe('user.list');
+    });
+
+    it('returns undefined for functions that are not actions', () => {
+      expect(getActionMeta(() => null)).toBeUndefined();
+    });
+
+    it('includes the action name in ActionTimeoutError', async () => {
+      vi.useFakeTimers();
+      const action = createAction({ name: 'user.list', timeout: 100 }).do(
+        () => new Promise((resolve) => setTimeout(resolve, 1000)),
+      );
+
+      const response = action();
+      const assertion = expect(response).rejects.toThrow('Action "user.list" timed out after 100ms');
+      await vi.advanceTimersByTimeAsync(100);
+
+      await assertion;
+      vi.useRealTimers();
+    });
+  });
+
+  describe('hooks', () => {
+    function createHooks() {
+      return {
+        onStart: vi.fn((_event: ActionStartEvent) => {}),
+        onMiddleware: vi.fn((_event: ActionMiddlewareEvent) => {}),
+        onShortCircuit: vi.fn((_event: ActionShortCircuitEvent) => {}),
+        onSuccess: vi.fn((_event: ActionSuccessEvent) => {}),
+        onError: vi.fn((_event: ActionErrorEvent) => {}),
+        onThrow: vi.fn((_event: ActionThrowEvent) => {}),
+      };
+    }
+
+    it('calls the hooks with the action name and timing', () => {
+      const hooks = createHooks();
+      function authenticate() {
+        return next({ userId: '1' });
+      }
+      const action = createAction<number>({ name: 'double', hooks })
+        .with(authenticate)
+        .do(({ input }) => input * 2);
+
+      expect(action(2)).toBe(4);
+
+      const callId = hooks.onStart.mock.calls[0]?.[0].callId;
+      expect(hooks.onStart).toHaveBeenCalledWith({
+        actionName: 'double',
+        callId,
+        input: 2,
+        startTime: expect.any(Number),
+      });
+      expect(hooks.onMiddleware).toHaveBeenCalledWith({
+        actionName: 'double',
+        callId,
+        index: 0,
+        name: 'authenticate',
+        type: 'middleware',
+        outcome: 'next',
+        startTime: expect.any(Number),
+        duration: expect.any(Number),
+      });
+      expect(hooks.onSuccess).toHaveBeenCalledWith({
+        actionName: 'double',
+        callId,
+        output: 4,
+        startTime: expect.any(Number),
+        duration: expect.any(Number),
+      });
+      expect(hooks.onError).not.toHaveBeenCalled();
+      expect(hooks.onShortCircuit).not.toHaveBeenCalled();
+    });
+
+    it('uses a different call id for every call', () => {
+      const hooks = createHooks();
+      const action = createAction({ hooks }).do(() => null);
+
+      action();
+      action();
+
+      const [first, second] = hooks.onStart.mock.calls.map(([event]) => event.callId);
+      expect(first).not.toBe(second);
+    });
+
+    it('reports short-circuiting middleware', async () => {
+      const hooks = createHooks();
+      const action = createAction({ hooks })
+        .around(({ proceed }) => proceed())
+        .with(async () => 'cached')
+        .do(() => 'fresh');
+
+      expect(await action()).toBe('cached');
+      expect(hooks.onShortCircuit).toHaveBeenCalledWith(expect.objectContaining({ index: 1, output: 'cached' }));
+      expect(hooks.onMiddleware.mock.calls.map(([event]) => [event.type, event.outcome])).toEqual([
+        ['middleware', 'short-circuit'],
+        ['around', 'proceeded'],
+      ]);
+      expect(hooks.onSuccess).toHaveBeenCalledWith(expect.objectContaining({ output: 'cached' }));
+    });
+
+    it('reports thrown exceptions', async () => {
+      const hooks = createHooks();
+      const error = new Error('Database error');
+      const action = createAction({ hooks })
+        .with(() => next())
+        .do(async () => {
+          throw error;
+        });
+
+      await expect(action()).rejects.toThrow(ThrownActionError);
+      expect(hooks.onThrow).toHaveBeenCalledWith(expect.objectContaining({ error }));
+      expect(hooks.onError).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(ThrownActionError) }));
+      expect(hooks.onSuccess).not.toHaveBeenCalled();
+    });
+
+    it('reports middleware that threw', () => {
+      const hooks = createHooks();
+      const action = createAction({ hooks })
+        .with(() => {
+          throw new Error('Unauthorized');
+        })
+        .do(() => null);
+
+      expect(() => action()).toThrow(ThrownActionError);
+      expect(hooks.onMiddleware).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'threw' }));
+    });
+
+    it('reports validation errors without calling onThrow', () => {
+      const hooks = createHooks();
+      const action = createAction({ hooks })
+        .input(z.string())
+        .do(({ input }) => input);
+
+      expect(() => action(1 as never)).toThrow(ActionInputValidationError);
+      expect(hooks.onError).toHaveBeenCalledWith(
+        expect.objectContaining({ error: expect.any(ActionInputValidationError) }),
+      );
+      expect(hooks.onThrow).not.toHaveBeenCalled();
+    });
+
+    it('calls all hooks passed as a list', () => {
+      const first = createHooks();
+      const second = createHooks();
+      const action = createAction({ hooks: [first, second] }).do(() => null);
+
+      action();
+
+      expect(first.onSuccess).toHaveBeenCalledOnce();
+      expect(second.onSuccess).toHaveBeenCalledOnce();
+    });
+
+    it('reports the action calls as spans to the tracer', () => {
+      const tracer = createInMemoryTracer();
+      const action = createAction({ name: 'user.get', tracer })
+        .with(() => next())
+        .do(() => null);
+
+      action();
+
+      expect(tracer.spans).toMatchObject([
+        { name: 'action user.get', parent: undefined, attributes: { 'action.name': 'user.get' }, status: 'ok' },
+        { name: 'middleware 0', parent: { name: 'action user.get' }, status: 'ok' },
+      ]);
     });
   });
 
@@ -380,3 +1081,5 @@ describe('index.ts', () => {
     });
   });
 });
+
+type CallSignature<F extends (...args: any) => any> = (...args: Parameters<F>) => ReturnType<F>;
@@ -1,6 +1,7 @@
 import { ActionBuilder } from './action-builder.js';
 import { ThrownActionError } from './error.js';
-import type { Ctx } from './helpers.js';
+import type { ActionOptions, Ctx } from './helpers.js';
+import { resolveHooks } from './hooks.js';
 
 /**
  * Creates a new action builder for composing middleware and action functions.
@@ -9,6 +10,10 @@ import type { Ctx } from './helpers.js';
  * @template ExceptionHandler - Function type that handles exceptions thrown during execution. Must return a value or throw.
  * @param options - Configuration options for the action
  * @param options.onThrow - Optional custom exception handler function
+ * @param options.name - Optional name identifying the action in metadata and errors
+ * @param options.timeout - Optional time in milliseconds after which the asynchronous action throws ActionTimeoutError
+ * @param options.hooks - Optional lifecycle hooks (or a list of them) called during every action call
+ * @param options.tracer - Optional tracer adapter reporting every action call as a span
  * @returns A new ActionBuilder instance
  *
  * @example
@@ -36,10 +41,11 @@ import type { Ctx } from './helpers.js';
 export function createAction<
   Input = never,
   ExceptionHandler extends (ex: unknown) => unknown = typeof defaultActionExceptionHandler,
->({ onThrow }: { onThrow?: ExceptionHandler } = {}) {
+>({ onThrow, name, timeout, hooks, tracer }: ActionOptions<ExceptionHandler> = {}) {
   return new ActionBuilder<Input, never, Ctx, false, ExceptionHandler>(
     [],
     (onThrow ?? defaultActionExceptionHandler) as ExceptionHandler,
+    { name, timeout, hooks: resolveHooks({ hooks, tracer }) },
   );
 }
 
@@ -53,5 +59,35 @@ export function defaultActionExceptionHandler(ex: unknown): never {
   throw new ThrownActionError(ex);
 }
 
-export { next } from './helpers.js';
+export {
+  ActionAbortedError,
+  ActionInputValidationError,
+  ActionNotFoundError,
+  ActionOutputValidationError,
+  ActionTimeoutError,
+  actionAbortedErrorCodec,
+  actionErrorCodecs,
+  actionInputValidationErrorCodec,
+  actionNotFoundErrorCodec,
+  actionOutputValidationErrorCodec,
+  actionTimeoutErrorCodec,
+  thrownActionErrorCodec,
+  thrownActionErrorWithCauseCodec,
+} from './error.js';
+export type { ActionCallOptions, ActionMeta, MiddlewareChain } from './helpers.js';
+export { composeMiddleware, getActionMeta, next } from './helpers.js';
+export type {
+  ActionErrorEvent,
+  ActionHooks,
+  ActionMiddlewareEvent,
+  ActionShortCircuitEvent,
+  ActionSpan,
+  ActionStartEvent,
+  ActionSuccessEvent,
+  ActionThrowEvent,
+  ActionTracer,
+} from './hooks.js';
+export { combineHooks, createTracingHooks } from './hooks.js';
+export type { ActionMap, ActionName, AnyAction } from './registry.js';
+export { ActionRegistry, createActionRegistry } from './registry.js';
 export { ThrownActionError };
@@ -0,0 +1,121 @@
+import type { Result } from '@uni-ts/result';
+import { err, ok } from '@uni-ts/result';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { z } from 'zod';
+import type { ActionInputValidationError, ThrownActionError } from './error.js';
+import { ActionAbortedError, ActionNotFoundError } from './error.js';
+import { createAction } from './index.js';
+import { createActionRegistry } from './registry.js';
+import { createSafeAction } from './safe.js';
+
+describe('registry.ts', () => {
+  const createUser = createAction({ name: 'user.create' })
+    .input(z.object({ email: z.string() }))
+    .do(({ input }) => ({ id: '1', email: input.email }));
+
+  const deleteUser = createSafeAction<{ id: string }>()
+    .named('user.delete')
+    .do(({ input }) => ok(input.id));
+
+  const ping = createAction().do(() => 'pong' as const);
+
+  describe('createActionRegistry', () => {
+    it('calls actions by name with typed input', () => {
+      const registry = createActionRegistry({ 'user.create': createUser, 'user.delete': deleteUser });
+
+      const user = registry.call('user.create', { email: 'john@example.com' });
+      const result = registry.call('user.delete', { id: '1' });
+
+      expect(user).toEqual({ id: '1', email: 'john@example.com' });
+      expect(result).toEqual(ok('1'));
+      expectTypeOf(user).toEqualTypeOf<{ id: string; email: string } | Promise<{ id: string; email: string }>>();
+      expectTypeOf(result).toEqualTypeOf<Result<string, ThrownActionError>>();
+      expectTypeOf(registry.call<'user.create'>)
+        .parameter(1)
+        .toEqualTypeOf<{ email: string }>();
+    });
+
+    it('calls actions without input', () => {
+      const registry = createActionRegistry({ ping });
+
+      expect(registry.call('ping')).toBe('pong');
+    });
+
+    it('passes the signal to the called action', () => {
+      const registry = createActionRegistry({ 'user.delete': deleteUser });
+      const controller = new AbortController();
+
+      controller.abort();
+
+      expect(registry.call('user.delete', { id: '1' }, { signal: controller.signal })).toEqual(
+        err(new ActionAbortedError(controller.signal.reason)),
+      );
+    });
+
+    it('starts with no actions by default', () => {
+      const registry = createActionRegistry();
+
+      expect(registry.list()).toEqual([]);
+      expect(registry.has('ping')).toBe(false);
+    });
+  });
+
+  describe('ActionRegistry', () => {
+    it('registers actions under provided names', () => {
+      const registry = createActionRegistry().register('ping', ping).register('user.delete', deleteUser);
+
+      expect(registry.call('ping')).toBe('pong');
+      expect(registry.call('user.delete', { id: '2' })).toEqual(ok('2'));
+      expectTypeOf(registry.has).guards.toEqualTypeOf<'ping' | 'user.delete'>();
+    });
+
+    it('does not modify the original registry when registering actions', () => {
+      const registry = createActionRegistry({ ping });
+      const extended = registry.register('user.create', createUser);
+
+      expect(registry.has('user.create')).toBe(false);
+      expect(extended.has('user.create')).toBe(true);
+    });
+
+    it('throws ActionNotFoundError when calling unknown action', () => {
+      const registry = createActionRegistry({ ping });
+      const name = 'unknown' as 'ping';
+
+      expect(() => registry.call(name)).toThrow(new ActionNotFoundError('unknown'));
+      expect(() => registry.get(name)).toThrow(ActionNotFoundError);
+    });
+
+    it('does not treat inherited properties as registered actions', () => {
+      const registry = createActionRegistry({ ping });
+
+      expect(registry.has('toString')).toBe(false);
+    });
+
+    it('passes validation errors of the called action', () => {
+      const registry = createActionRegistry({ 'user.create': createUser });
+
+      expect(() => registry.call('user.create', { email: 1 } as never)).toThrow(
+        expect.objectContaining({ type: 'ActionInputValidationError' } satisfies Partial<ActionInputValidationError>),
+      );
+    });
+
+    it('lists registered actions with their metadata', () => {
+      const registry = createActionRegistry({ 'user.create': createUser, 'user.delete': deleteUser, ping });
+
+      expect(registry.list()).toEqual([
+        {
+          name: 'user.create',
+          meta: { name: 'user.create', inputSchema: expect.any(Object), outputSchema: undefined, middlewareCount: 0 },
+        },
+        {
+          name: 'user.delete',
+          meta: { name: 'user.delete', inputSchema: undefined, outputSchema: undefined, middlewareCount: 0 },
+        },
+        {
+          name: 'ping',
+          meta: { name: undefined, inputSchema: undefined, outputSchema: undefined, middlewareCount: 0 },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { ActionNotFoundError } from './error.js';
+import type { ActionCallOptions, ActionMeta } from './helpers.js';
+import { getActionMeta } from './helpers.js';
+
+/**
+ * Collection of actions that can be listed and called by name,
+ * e.g. to dispatch RPC requests or to generate documentation.
+ *
+ * @template Actions - Object type mapping action names to actions
+ */
+export class ActionRegistry<Actions extends ActionMap = {}> {
+  constructor(private readonly actions: Actions) {}
+
+  /**
+   * Adds an action to the registry under the provided name.
+   *
+   * @template Name - The name of the action
+   * @template A - The type of the action
+   * @param name - The name the action can be called with
+   * @param action - The action created with `createAction` or `createSafeAction`
+   * @returns A new ActionRegistry instance with the action added
+   *
+   * @example
+   * ```typescript
+   * const registry = createActionRegistry()
+   *   .register('user.create', createUser)
+   *   .register('user.delete', deleteUser);
+   * ```
+   */
+  register<const Name extends string, A extends AnyAction>(name: Name, action: A) {
+    return new ActionRegistry<Omit<Actions, Name> & Record<Name, A>>({ ...this.actions, [name]: action });
+  }
+
+  /**
+   * Checks if an action with the provided name is registered.
+   * Useful for validating names coming from untrusted sources before calling the action.
+   *
+   * @param name - The name to check
+   * @returns True if the action is registered, false otherwise
+   *
+   * @example
+   * ```typescript
+   * if (!registry.has(request.action)) {
+   *   return new Response('Not found', { status: 404 });
+   * }
+   *
+   * return registry.call(request.action, request.input);
+   * ```
+   */
+  has(name: string): name is ActionName<Actions> {
+    return Object.hasOwn(this.actions, name);
+  }
+
+  /**
+   * Returns the action registered under the provided name.
+   *
+   * @template Name - The name of the action
+   * @param name - The name of the action
+   * @returns The registered action
+   * @throws {ActionNotFoundError} If no action is registered under the provided name
+   *
+   * @example
+   * ```typescript
+   * const createUser = registry.get('user.create');
+   * ```
+   */
+  get<Name extends ActionName<Actions>>(name: Name): Actions[Name] {
+    if (!this.has(name)) throw new ActionNotFoundError(name);
+    return this.actions[name];
+  }
+
+  /**
+   * Calls the action registered under the provided name.
+   * The input (and the returned value) is typed based on the action registered under the name.
+   *
+   * @template Name - The name of the action
+   * @param name - The name of the action
+   * @param args - The input and call options passed to the action
+   * @returns The value returned by the action
+   * @throws {ActionNotFoundError} If no action is registered under the provided name
+   *
+   * @example
+   * ```typescript
+   * const user = await registry.call('user.create', { email: 'john@example.com' });
+   * ```
+   */
+  call<Name extends ActionName<Actions>>(name: Name, ...args: Parameters<Actions[Name]>): ReturnType<Actions[Name]> {
+    const action: AnyAction = this.get(name);
+    return action(...(args as [never, ActionCallOptions?])) as ReturnType<Actions[Name]>;
+  }
+
+  /**
+   * Lists all registered actions together with their metadata.
+   *
+   * @returns A list of registered action names and metadata
+   *
+   * @example
+   * ```typescript
+   * for (const { name, meta } of registry.list()) {
+   *   console.log(name, meta?.inputSchema);
+   * }
+   * ```
+   */
+  list(): { name: ActionName<Actions>; meta: ActionMeta | undefined }[] {
+    return Object.entries(this.actions).map(([name, action]) => ({
+      name: name as ActionName<Actions>,
+      meta: getActionMeta(action),
+    }));
+  }
+}
+
+/**
+ * Creates a registry of actions that can be listed and called by name.
+ *
+ * @template Actions - Object type mapping action names to actions
+ * @param actions - Object mapping action names to actions created with `createAction` or `createSafeAction`
+ * @returns A new ActionRegistry instance
+ *
+ * @example
+ * ```typescript
+ * const registry = createActionRegistry({
+ *   'user.create': createUser,
+ *   'user.delete': deleteUser,
+ * });
+ *
+ * const user = await registry.call('user.create', { email: 'john@example.com' });
+ * await registry.call('user.delete', { email: 'john@example.com' }); // Type error
+ * ```
+ */
+export function createActionRegistry<const Actions extends ActionMap = {}>(actions = {} as Actions) {
+  return new ActionRegistry(actions);
+}
+
+export type AnyAction = (input: never, options?: ActionCallOptions) => unknown;
+
+export type ActionMap = Record<string, AnyAction>;
+
+export type ActionName<Actions extends ActionMap> = keyof Actions & string;
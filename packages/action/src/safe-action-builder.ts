@@ -1,17 +1,34 @@
 import type { Err, Ok, Result, UnknownResult, UnwrapErr, UnwrapOk } from '@uni-ts/result';
+import { err, isErrResult, isOk, ok } from '@uni-ts/result';
+import type { ActionAbortedError, ActionInputValidationError, ActionTimeoutError } from './error.js';
+import { ActionOutputValidationError } from './error.js';
 import type {
+  ActionConfig,
   ActionExecutor,
   ActionFn,
   ActionResponse,
+  AroundFn,
   Ctx,
   CtxValue,
+  ExecutorConfig,
+  InferSchemaInput,
+  InferSchemaOutput,
+  IsAroundAsync,
   IsAsync,
+  IsChainAsync,
+  IsOutputAsync,
   Merge,
+  Middleware,
+  MiddlewareChain,
   MiddlewareFn,
   OrPromise,
+  SchemaOrModel,
+  SchemaValidation,
   UnwrapCtx,
+  ValidatedOutput,
 } from './helpers.js';
-import { createActionExecutor } from './helpers.js';
+import { createActionExecutor, defineActionMeta, toStandardSchema, validateWithSchema } from './helpers.js';
+import type { StandardSchemaV1 } from './standard-schema.js';
 
 /**
  * Builder class for composing middleware and action functions that return Result types.
@@ -25,6 +42,8 @@ import { createActionExecutor } from './helpers.js';
  * @template Context - The context object type containing data passed between middleware. Extends from base `Ctx` type.
  * @template Async - Boolean literal type tracking whether any middleware or action returns a Promise.
  * @template ExceptionHandler - Function type that converts exceptions to Result types. Should return `Ok<T>` or `Err<E>`.
+ * @template RawInput - The input type accepted by the action before validation. Equal to `Input` when no input schema is set.
+ * @template OutputSchema - The schema (or model) used to validate the Ok data of the action. `undefined` when no output schema is set.
  */
 export class SafeActionBuilder<
   Input,
@@ -33,12 +52,194 @@ export class SafeActionBuilder<
   Context extends Ctx,
   Async extends boolean,
   ExceptionHandler extends (ex: unknown) => unknown,
+  RawInput = Input,
+  OutputSchema extends SchemaOrModel | undefined = undefined,
 > {
   constructor(
-    private readonly fns: MiddlewareFn<Input, OrPromise<UnknownResult | Ctx>, Ctx>[],
+    private readonly fns: Middleware<Input, OrPromise<UnknownResult | Ctx>, Ctx>[],
     private readonly handleException: ExceptionHandler,
+    private readonly config: ActionConfig = {},
   ) {}
 
+  /**
+   * Sets the schema (or model) used to validate the action input.
+   * The input is validated before the first middleware runs, and middleware and action receive the validated value.
+   * It has to be set before adding middleware.
+   *
+   * When the validation fails, the action returns an Err result with `ActionInputValidationError`.
+   * Async schemas are supported, in which case the action returns a Promise.
+   *
+   * @template S - Type of the Standard Schema compatible validation schema or a model containing it
+   * @param schema - A validation schema that follows the Standard Schema interface or a model created with `@uni-ts/model`
+   * @returns A new SafeActionBuilder instance with the input type inferred from the schema
+   * @throws {TypeError} When middleware was already added, since it's typed with the previous input
+   *
+   * @example
+   * ```typescript
+   * const action = createSafeAction()
+   *   .input(z.object({ token: z.string().min(1) }))
+   *   .with(async ({ input }) => {
+   *     const session = await getSession(input.token);
+   *     if (!session) return err('SESSION_NOT_FOUND');
+   *     return next({ session });
+   *   })
+   *   .do(...);
+   *
+   * const result = await action({ token: '' });
+   * // Err<ActionInputValidationError>
+   * ```
+   */
+  input<S extends SchemaOrModel>(schema: S) {
+    if (this.fns.length) throw new TypeError('The input schema must be set before adding middleware');
+
+    return new SafeActionBuilder<
+      InferSchemaOutput<S>,
+      CurrentOk,
+      CurrentErr | ActionInputValidationError,
+      Context,
+      IsAsync<Async, SchemaValidation<S>>,
+      ExceptionHandler,
+      InferSchemaInput<S>,
+      OutputSchema
+    >(this.fns as Middleware<unknown, OrPromise<UnknownResult | Ctx>, Ctx>[], this.handleException, {
+      ...this.config,
+      inputSchema: toStandardSchema(schema),
+    });
+  }
+
+  /**
+   * Sets the schema (or model) used to validate the Ok data returned by the action function.
+   * The validated data (e.g. with unknown keys stripped, if the schema strips them) is returned instead of the original one,
+   * and the Ok type of the action response is inferred from the schema.
+   *
+   * When the validation fails, the action returns an Err result with `ActionOutputValidationError`.
+   * Err results and Results returned early by middleware are not validated.
+   *
+   * @template S - Type of the Standard Schema compatible validation schema or a model containing it
+   * @param schema - A validation schema that follows the Standard Schema interface or a model created with `@uni-ts/model`
+   * @returns A new SafeActionBuilder instance with the output type inferred from the schema
+   *
+   * @example
+   * ```typescript
+   * const action = createSafeAction<{ id: string }>()
+   *   .output(z.object({ id: z.string(), name: z.string() }))
+   *   .do(async ({ input }) => {
+   *     const user = await db.users.find(input.id); // { id: string; name: string; passwordHash: string } | null
+   *     return user ? ok(user) : err('USER_NOT_FOUND');
+   *   });
+   *
+   * const result = await action({ id: '1' });
+   * // Result<{ id: string; name: string }, 'USER_NOT_FOUND' | ActionOutputValidationError | ThrownActionError>
+   * ```
+   */
+  output<S extends SchemaOrModel>(schema: S) {
+    return new SafeActionBuilder<Input, CurrentOk, CurrentErr, Context, Async, ExceptionHandler, RawInput, S>(
+      this.fns,
+      this.handleException,
+      { ...this.config, outputSchema: toStandardSchema(schema) },
+    );
+  }
+
+  /**
+   * Sets the name of the action that identifies it in metadata (see `getActionMeta`) and errors (e.g. `ActionTimeoutError`).
+   *
+   * @param name - The name of the action
+   * @returns A new SafeActionBuilder instance with the name set
+   *
+   * @example
+   * ```typescript
+   * const createUser = createSafeAction<{ email: string }>()
+   *   .named('user.create')
+   *   .do(async ({ input }) => ok(await db.users.create(input)));
+   *
+   * getActionMeta(createUser)?.name; // 'user.create'
+   * ```
+   */
+  named(name: string) {
+    return new SafeActionBuilder<
+      Input,
+      CurrentOk,
+      CurrentErr,
+      Context,
+      Async,
+      ExceptionHandler,
+      RawInput,
+      OutputSchema
+    >(this.fns, this.handleException, { ...this.config, name });
+  }
+
+  /**
+   * Sets the maximum time the asynchronous action can take to complete.
+   *
+   * When the time runs out, the action returns an Err result with `ActionTimeoutError`
+   * and the signal passed to middleware and action is aborted, so the in-flight work can be cancelled.
+   * Synchronous actions are not affected.
+   *
+   * @param ms - The timeout in milliseconds
+   * @returns A new SafeActionBuilder instance with the timeout set
+   *
+   * @example
+   * ```typescript
+   * const action = createSafeAction<{ url: string }>()
+   *   .timeout(5000)
+   *   .do(async ({ input, signal }) => {
+   *     const response = await fetch(input.url, { signal });
+   *     return ok(await response.json());
+   *   });
+   *
+   * const result = await action({ url: 'https://example.com' });
+   * // Result<any, ActionTimeoutError | ActionAbortedError | ThrownActionError>
+   * ```
+   */
+  timeout(ms: number) {
+    return new SafeActionBuilder<
+      Input,
+      CurrentOk,
+      CurrentErr | ActionTimeoutError | ActionAbortedError,
+      Context,
+      Async,
+      ExceptionHandler,
+      RawInput,
+      OutputSchema
+    >(this.fns, this.handleException, { ...this.config, timeout: ms });
+  }
+
+  /**
+   * Adds `ActionAbortedError` to the error type of the action.
+   *
+   * Every action can be called with an abort signal (`action(input, { signal })`). Once the signal is aborted,
+   * the remaining middleware and action are not executed and the action returns an Err result with `ActionAbortedError`.
+   * Use it for actions called with a signal, so their callers handle the error. Actions with a timeout include it already.
+   *
+   * @returns A new SafeActionBuilder instance with `ActionAbortedError` added to the error type
+   *
+   * @example
+   * ```typescript
+   * const action = createSafeAction<{ url: string }>()
+   *   .abortable()
+   *   .do(async ({ input, signal }) => {
+   *     const response = await fetch(input.url, { signal });
+   *     return ok(await response.json());
+   *   });
+   *
+   * const controller = new AbortController();
+   * const result = await action({ url: 'https://example.com' }, { signal: controller.signal });
+   * // Result<any, ActionAbortedError | ThrownActionError>
+   * ```
+   */
+  abortable() {
+    return new SafeActionBuilder<
+      Input,
+      CurrentOk,
+      CurrentErr | ActionAbortedError,
+      Context,
+      Async,
+      ExceptionHandler,
+      RawInput,
+      OutputSchema
+    >(this.fns, this.handleException, this.config);
+  }
+
   /**
    * Adds a middleware function to the safe action pipeline.
    *
@@ -76,8 +277,80 @@ export class SafeActionBuilder<
       CurrentErr | UnwrapErr<MiddlewareOutput>,
       Ctx<Merge<CtxValue<Context>, CtxValue<UnwrapCtx<MiddlewareOutput>>>>,
       IsAsync<Async, MiddlewareOutput>,
-      ExceptionHandler
-    >([...this.fns, fn], this.handleException);
+      ExceptionHandler,
+      RawInput,
+      OutputSchema
+    >([...this.fns, fn], this.handleException, this.config);
+  }
+
+  /**
+   * Adds all middleware of a chain created with `composeMiddleware` to the safe action pipeline.
+   * It's equivalent to adding the middleware one by one with `.with()`, including the Results they can return.
+   *
+   * @template ChainOutput - Union of the return types of the middleware in the chain.
+   * @template ChainContext - The context created by the chain.
+   * @param chain - The middleware chain to add
+   * @returns A new SafeActionBuilder instance with the middleware added
+   *
+   * @example
+   * ```typescript
+   * const authed = composeMiddleware(authenticate, rateLimit, resolveTenant);
+   *
+   * const listPosts = createSafeAction()
+   *   .use(authed)
+   *   .do(async ({ ctx }) => ok(await db.posts.list(ctx.tenantId)));
+   * ```
+   */
+  use<ChainOutput extends OrPromise<UnknownResult | Ctx<object>>, ChainContext extends Ctx>(
+    chain: MiddlewareChain<Input, ChainOutput, ChainContext>,
+  ) {
+    return new SafeActionBuilder<
+      Input,
+      CurrentOk | UnwrapOk<ChainOutput>,
+      CurrentErr | UnwrapErr<ChainOutput>,
+      Ctx<Merge<CtxValue<Context>, CtxValue<ChainContext>>>,
+      IsChainAsync<Async, ChainOutput>,
+      ExceptionHandler,
+      RawInput,
+      OutputSchema
+    >([...this.fns, ...chain.fns], this.handleException, this.config);
+  }
+
+  /**
+   * Adds a middleware function that wraps the rest of the safe action pipeline (onion model).
+   *
+   * The wrapper receives `proceed` that runs the subsequent middleware and the action, and returns their Result.
+   * It only observes the Result: it must return the Result as it is or throw, which allows to measure
+   * the execution time or wrap the action in a transaction committed only for Ok results.
+   * Returning a Promise from the wrapper makes the whole action asynchronous.
+   *
+   * @template F - The wrapper function type
+   * @param fn - The wrapper function receiving input, context and `proceed`
+   * @returns A new SafeActionBuilder instance with the wrapper added
+   *
+   * @example
+   * ```typescript
+   * const action = createSafeAction<{ title: string }>()
+   *   .around(async ({ proceed }) => {
+   *     await db.begin();
+   *     const result = await proceed();
+   *     await (isOk(result) ? db.commit() : db.rollback());
+   *     return result;
+   *   })
+   *   .do(async ({ input }) => ok(await db.posts.create(input)));
+   * ```
+   */
+  around<F extends AroundFn<Input, UnknownResult, Context>>(fn: F) {
+    return new SafeActionBuilder<
+      Input,
+      CurrentOk,
+      CurrentErr,
+      Context,
+      IsAroundAsync<Async, F>,
+      ExceptionHandler,
+      RawInput,
+      OutputSchema
+    >([...this.fns, { type: 'around', fn }], this.handleException, this.config);
   }
 
   /**
@@ -103,22 +376,63 @@ export class SafeActionBuilder<
    * // Result<BlogPost[], 'SESSION_NOT_FOUND' | 'USER_NOT_FOUND' | ThrownActionError>
    * ```
    */
-  do<ActionOutput extends OrPromise<UnknownResult> = never>(actionFn: ActionFn<Input, ActionOutput, Context>) {
-    const actionExecutor = createActionExecutor(this.fns, this.handleException, actionFn);
+  do<ActionOutput extends OrPromise<ActionOutputType<OutputSchema>> = never>(
+    actionFn: ActionFn<Input, ActionOutput, Context>,
+  ) {
+    const { name, inputSchema, outputSchema, timeout, hooks } = this.config;
+    const config: ExecutorConfig = {
+      name,
+      inputSchema,
+      processOutput: outputSchema && ((output) => validateOutput(outputSchema, output as UnknownResult)),
+      timeout,
+      hooks,
+      isErrResponse: isErrResult,
+      handleActionError: returnActionError,
+    };
+    const actionExecutor = createActionExecutor(this.fns, this.handleException, actionFn, config);
+
+    defineActionMeta(
+      actionExecutor,
+      { name, inputSchema, outputSchema, middlewareCount: this.fns.length },
+      { fns: this.fns, handleException: this.handleException, actionFn, config },
+    );
 
     return actionExecutor as ActionExecutor<
-      Input,
+      RawInput,
       ActionResponse<
-        IsAsync<Async, ActionOutput>,
+        IsOutputAsync<IsAsync<Async, ActionOutput>, OutputSchema>,
         Result<
-          CurrentOk | UnwrapOk<ActionOutput> | InferCatchOk<ExceptionHandler>,
-          CurrentErr | UnwrapErr<ActionOutput> | InferCatchErr<ExceptionHandler>
+          CurrentOk | ValidatedOutput<OutputSchema, UnwrapOk<ActionOutput>> | InferCatchOk<ExceptionHandler>,
+          CurrentErr | UnwrapErr<ActionOutput> | InferCatchErr<ExceptionHandler> | InferOutputErr<OutputSchema>
         >
-      >
+      >,
+      Context
     >;
   }
 }
 
+function returnActionError<E extends ActionInputValidationError | ActionAbortedError | ActionTimeoutError>(
+  error: E,
+): Err<E> {
+  return err(error);
+}
+
+function validateOutput(schema: StandardSchemaV1, output: UnknownResult) {
+  if (!isOk(output)) return output;
+
+  return validateWithSchema(schema, output.data, (validation) =>
+    validation.issues ? err(new ActionOutputValidationError(validation.issues)) : ok(validation.value),
+  );
+}
+
+type ActionOutputType<S extends SchemaOrModel | undefined> = S extends SchemaOrModel
+  ? Result<InferSchemaInput<S>, unknown>
+  : UnknownResult;
+
+type InferOutputErr<S extends SchemaOrModel | undefined> = S extends SchemaOrModel
+  ? ActionOutputValidationError
+  : never;
+
 type InferCatchOk<T> = T extends (ex: unknown) => Ok<infer O> ? O : never;
 
 type InferCatchErr<T> = T extends (ex: unknown) => Err<infer E> ? E : never;
@@ -1,8 +1,20 @@
-import type { Err, Result, UnknownResult } from '@uni-ts/result';
-import { err, isErr, ok } from '@uni-ts/result';
-import { describe, expect, expectTypeOf, it } from 'vitest';
-import { ThrownActionError } from './error.js';
-import { createSafeAction, defaultActionExceptionHandler, next } from './safe.js';
+import type { Err, Ok, Result, UnknownResult } from '@uni-ts/result';
+import { createErrorCodecRegistry, deserializeResult, err, isErr, matchErr, ok, serializeResult } from '@uni-ts/result';
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  ActionAbortedError,
+  ActionInputValidationError,
+  ActionOutputValidationError,
+  ActionTimeoutError,
+  actionInputValidationErrorCodec,
+  ThrownActionError,
+  thrownActionErrorCodec,
+  thrownActionErrorWithCauseCodec,
+} from './error.js';
+import type { ActionCallOptions } from './helpers.js';
+import { composeMiddleware, createSafeAction, defaultActionExceptionHandler, getActionMeta, next } from './safe.js';
+import { createInMemoryTracer } from './testing.js';
 
 describe('safe.ts', () => {
   function expectActionError(result: UnknownResult, message: string) {
@@ -34,7 +46,9 @@ describe('safe.ts', () => {
         });
 
       expect(action({ name: 'John', age: 30 })).toEqual(ok(null));
-      expectTypeOf(action).toEqualTypeOf<(input: { name: string; age: number }) => Result<null, ThrownActionError>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: { name: string; age: number }, options?: ActionCallOptions) => Result<null, ThrownActionError>
+      >();
     });
 
     it('works with no input when its type is not specified', () => {
@@ -49,7 +63,9 @@ describe('safe.ts', () => {
         });
 
       expect(action()).toEqual(ok(null));
-      expectTypeOf(action).toEqualTypeOf<() => Result<null, ThrownActionError>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<null, ThrownActionError>
+      >();
     });
 
     it('has the default exception handler', () => {
@@ -60,7 +76,9 @@ describe('safe.ts', () => {
         .do(() => ok(null));
 
       expectActionError(action(), 'test error');
-      expectTypeOf(action).toEqualTypeOf<() => Result<null, ThrownActionError>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<null, ThrownActionError>
+      >();
     });
 
     it('uses custom exception handler when provided', () => {
@@ -75,7 +93,9 @@ describe('safe.ts', () => {
         .do(() => ok(null));
 
       expect(action()).toEqual(err('[Custom] Error: test error'));
-      expectTypeOf(action).toEqualTypeOf<() => Result<null, `[Custom] ${string}`>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<null, `[Custom] ${string}`>
+      >();
     });
   });
 
@@ -132,7 +152,9 @@ describe('safe.ts', () => {
       const action = createSafeAction().do(() => ok('direct action'));
 
       expect(action()).toEqual(ok('direct action'));
-      expectTypeOf(action).toEqualTypeOf<() => Result<'direct action', ThrownActionError>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<'direct action', ThrownActionError>
+      >();
     });
 
     it('allows middleware to return non-context values', () => {
@@ -141,7 +163,257 @@ describe('safe.ts', () => {
         .do(() => ok('Should not reach here'));
 
       expect(action()).toEqual(ok('early return'));
-      expectTypeOf(action).toEqualTypeOf<() => Result<'early return' | 'Should not reach here', ThrownActionError>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (
+          input?: undefined,
+          options?: ActionCallOptions,
+        ) => Result<'early return' | 'Should not reach here', ThrownActionError>
+      >();
+    });
+  });
+
+  describe('use', () => {
+    it('adds all middleware of the chain with the merged context and errors', async () => {
+      const executionOrder: string[] = [];
+      const user: { id: string; tenantId: string } = { id: '1', tenantId: 't1' };
+      const authed = composeMiddleware(
+        async () => {
+          executionOrder.push('authenticate');
+          return next({ user });
+        },
+        ({ ctx }) => {
+          executionOrder.push('rateLimit');
+          return ctx.user.id === '0' ? err('RATE_LIMITED') : next();
+        },
+        ({ ctx }) => {
+          executionOrder.push('resolveTenant');
+          return next({ tenantId: ctx.user.tenantId });
+        },
+      );
+
+      const action = createSafeAction()
+        .with(() => next({ requestId: 'r1' }))
+        .use(authed)
+        .do(({ ctx }) => {
+          expectTypeOf(ctx).toEqualTypeOf<{
+            readonly requestId: 'r1';
+            readonly user: { id: string; tenantId: string };
+            readonly tenantId: string;
+          }>();
+          return ok(`${ctx.requestId}:${ctx.tenantId}`);
+        });
+
+      expect(await action()).toEqual(ok('r1:t1'));
+      expect(executionOrder).toEqual(['authenticate', 'rateLimit', 'resolveTenant']);
+      expect(getActionMeta(action)?.middlewareCount).toBe(4);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (
+          input?: undefined,
+          options?: ActionCallOptions,
+        ) => Promise<Result<`r1:${string}`, 'RATE_LIMITED' | ThrownActionError>>
+      >();
+    });
+
+    it('short-circuits on chain middleware error', () => {
+      const chain = composeMiddleware(
+        () => err('UNAUTHORIZED'),
+        () => next({ user: 'John' }),
+      );
+
+      const action = createSafeAction()
+        .use(chain)
+        .do(() => ok('Should not reach here'));
+
+      expect(action()).toEqual(err('UNAUTHORIZED'));
+    });
+
+    it('reuses the same chain in multiple actions', () => {
+      const chain = composeMiddleware(({ input }: { input: { token: string } }) => next({ token: input.token }));
+
+      const first = createSafeAction<{ token: string }>()
+        .use(chain)
+        .do(({ ctx }) => ok(ctx.token));
+      const second = createSafeAction<{ token: string; id: number }>()
+        .use(chain)
+        .do(({ input, ctx }) => ok(`${ctx.token}:${input.id}`));
+
+      expect(first({ token: 'a' })).toEqual(ok('a'));
+      expect(second({ token: 'b', id: 1 })).toEqual(ok('b:1'));
+    });
+  });
+
+  describe('input', () => {
+    const positiveNumber = {
+      '~standard': {
+        version: 1,
+        vendor: 'test',
+        validate: (value: unknown) =>
+          typeof value === 'number' && value > 0 ? { value } : { issues: [{ message: 'Expected positive number' }] },
+        types: undefined as unknown as { input: number; output: number },
+      },
+    } as const;
+
+    it('throws TypeError when middleware was already added', () => {
+      const builder = createSafeAction<number>().with(() => next());
+
+      expect(() => builder.input(positiveNumber)).toThrow(TypeError);
+      expect(() =>
+        createSafeAction()
+          .around(({ proceed }) => proceed())
+          .input(positiveNumber),
+      ).toThrow('The input schema must be set before adding middleware');
+    });
+
+    it('returns an Err result when the input is invalid', () => {
+      const middleware = vi.fn(() => next());
+      const onThrow = vi.fn(() => err('THROWN' as const));
+      const action = createSafeAction({ onThrow })
+        .input(positiveNumber)
+        .with(middleware)
+        .do(({ input }) => ok(input * 2));
+
+      expect(action(2)).toEqual(ok(4));
+
+      const result = action(-1);
+
+      expect(result).toEqual(err(expect.any(ActionInputValidationError)));
+      expect((result as Err<ActionInputValidationError>).error.issues).toEqual([
+        { message: 'Expected positive number' },
+      ]);
+      expect(middleware).toHaveBeenCalledTimes(1);
+      expect(onThrow).not.toHaveBeenCalled();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: number, options?: ActionCallOptions) => Result<number, ActionInputValidationError | 'THROWN'>
+      >();
+    });
+
+    it('passes the validated output to middleware and action', async () => {
+      const action = createSafeAction()
+        .input({ schema: z.object({ name: z.string().transform((name) => name.trim()) }) })
+        .with(({ input }) => {
+          expectTypeOf(input).toEqualTypeOf<{ name: string }>();
+          return next({ length: input.name.length });
+        })
+        .do(({ input, ctx }) => ok(`${input.name}:${ctx.length}`));
+
+      expect(await action({ name: ' John ' })).toEqual(ok('John:4'));
+      type Response = Result<`${string}:${number}`, ActionInputValidationError | ThrownActionError>;
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: { name: string }, options?: ActionCallOptions) => Response | Promise<Response>
+      >();
+    });
+
+    it('works with async schemas', async () => {
+      const action = createSafeAction()
+        .input(z.string().refine(async (value) => value.startsWith('@')))
+        .do(({ input }) => ok(input.slice(1)));
+
+      expect(await action('@john')).toEqual(ok('john'));
+      expect(await action('john')).toEqual(err(expect.any(ActionInputValidationError)));
+    });
+  });
+
+  describe('output', () => {
+    const User = z.object({ id: z.string(), name: z.string() });
+
+    it('validates and strips the Ok data', async () => {
+      const action = createSafeAction<boolean>()
+        .output(User)
+        .do(({ input }) => (input ? ok({ id: '1', name: 'John', passwordHash: 'secret' }) : err('NOT_FOUND')));
+
+      expect(await action(true)).toEqual(ok({ id: '1', name: 'John' }));
+      expect(await action(false)).toEqual(err('NOT_FOUND'));
+
+      type Response = Result<
+        { id: string; name: string },
+        'NOT_FOUND' | ActionOutputValidationError | ThrownActionError
+      >;
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: boolean, options?: ActionCallOptions) => Response | Promise<Response>
+      >();
+    });
+
+    it('returns an Err result when the output is invalid', async () => {
+      const onThrow = vi.fn(() => err('THROWN' as const));
+      const action = createSafeAction({ onThrow })
+        .output({ schema: User })
+        .do(() => ok({ id: 1 }) as unknown as Result<{ id: string; name: string }, never>);
+
+      const result = await action();
+
+      expect(result).toEqual(err(expect.any(ActionOutputValidationError)));
+      expect((result as Err<ActionOutputValidationError>).error.issues).toHaveLength(2);
+      expect(onThrow).not.toHaveBeenCalled();
+    });
+
+    it('does not validate results returned early by middleware', async () => {
+      const action = createSafeAction()
+        .output(User)
+        .with(() => ok('early return'))
+        .do(() => ok({ id: '1', name: 'John' }));
+
+      expect(await action()).toEqual(ok('early return'));
+    });
+
+    it('requires the action to return the schema input type', () => {
+      createSafeAction()
+        .output(User)
+        // @ts-expect-error - name is missing
+        .do(() => ok({ id: '1' }));
+    });
+  });
+
+  describe('around', () => {
+    it('wraps the rest of the pipeline', async () => {
+      const transaction: string[] = [];
+
+      const action = createSafeAction<number>()
+        .around(async ({ proceed }) => {
+          transaction.push('begin');
+          const result = await proceed();
+          transaction.push(isErr(result) ? 'rollback' : 'commit');
+          return result;
+        })
+        .with(({ input }) => (input > 0 ? next({ value: input }) : err('NEGATIVE')))
+        .do(({ ctx }) => ok(ctx.value * 2));
+
+      expect(await action(2)).toEqual(ok(4));
+      expect(await action(-1)).toEqual(err('NEGATIVE'));
+      expect(transaction).toEqual(['begin', 'commit', 'begin', 'rollback']);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: number, options?: ActionCallOptions) => Promise<Result<number, 'NEGATIVE' | ThrownActionError>>
+      >();
+    });
+
+    it('keeps the action sync when the wrapper is sync', () => {
+      const action = createSafeAction()
+        .around(({ proceed }) => proceed())
+        .do(() => ok('success'));
+
+      expect(action()).toEqual(ok('success'));
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<'success', ThrownActionError>
+      >();
+    });
+
+    it('converts exceptions thrown in the wrapped pipeline with the exception handler', async () => {
+      const caught = vi.fn();
+
+      const action = createSafeAction()
+        .around(async ({ proceed }) => {
+          try {
+            return await proceed();
+          } catch (ex) {
+            caught(ex);
+            throw ex;
+          }
+        })
+        .do(() => {
+          throw new Error('test error');
+        });
+
+      expectActionError(await action(), 'test error');
+      expect(caught).toHaveBeenCalledWith(new Error('test error'));
     });
   });
 
@@ -154,7 +426,9 @@ describe('safe.ts', () => {
       });
 
       expect(action()).toEqual(ok('success'));
-      expectTypeOf(action).toEqualTypeOf<() => Result<'success', ThrownActionError>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<'success', ThrownActionError>
+      >();
     });
 
     it('infers complex types from middleware and action', () => {
@@ -190,8 +464,11 @@ describe('safe.ts', () => {
         });
 
       expect(action()).toEqual(ok({ first: 1, second: 'two', third: true }));
-      expectTypeOf(action).toEqualTypeOf<
-        () => Result<Readonly<{ first: 1; second: 'two'; third: true }>, ThrownActionError>
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (
+          input?: undefined,
+          options?: ActionCallOptions,
+        ) => Result<Readonly<{ first: 1; second: 'two'; third: true }>, ThrownActionError>
       >();
     });
 
@@ -209,8 +486,11 @@ describe('safe.ts', () => {
         });
 
       expect(action()).toEqual(ok({ value: 'overridden', otherValue: 42 }));
-      expectTypeOf(action).toEqualTypeOf<
-        () => Result<Readonly<{ value: 'overridden'; otherValue: 42 }>, ThrownActionError>
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (
+          input?: undefined,
+          options?: ActionCallOptions,
+        ) => Result<Readonly<{ value: 'overridden'; otherValue: 42 }>, ThrownActionError>
       >();
     });
   });
@@ -225,7 +505,9 @@ describe('safe.ts', () => {
         });
 
       expect(await action()).toEqual(ok('success'));
-      expectTypeOf(action).toEqualTypeOf<() => Promise<Result<'success', ThrownActionError>>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<Result<'success', ThrownActionError>>
+      >();
     });
 
     it('returns promise when action is async', async () => {
@@ -237,7 +519,9 @@ describe('safe.ts', () => {
         });
 
       expect(await action()).toEqual(ok('async result'));
-      expectTypeOf(action).toEqualTypeOf<() => Promise<Result<'async result', ThrownActionError>>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<Result<'async result', ThrownActionError>>
+      >();
     });
 
     it('processes mix of sync and async middleware correctly', async () => {
@@ -307,7 +591,9 @@ describe('safe.ts', () => {
         .do(() => ok(null));
 
       expectActionError(action(), 'Middleware error');
-      expectTypeOf(action).toEqualTypeOf<() => Result<null, ThrownActionError>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<null, ThrownActionError>
+      >();
     });
 
     it('handles asynchronous middleware errors', async () => {
@@ -318,7 +604,9 @@ describe('safe.ts', () => {
         .do(() => ok(null));
 
       expectActionError(await action(), 'Async middleware error');
-      expectTypeOf(action).toEqualTypeOf<() => Promise<Result<null, ThrownActionError>>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<Result<null, ThrownActionError>>
+      >();
     });
 
     it('handles synchronous action errors', () => {
@@ -327,7 +615,9 @@ describe('safe.ts', () => {
       });
 
       expectActionError(action(), 'Action error');
-      expectTypeOf(action).toEqualTypeOf<() => Result<never, ThrownActionError>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<never, ThrownActionError>
+      >();
     });
 
     it('handles asynchronous action errors', async () => {
@@ -336,7 +626,9 @@ describe('safe.ts', () => {
       });
 
       expectActionError(await action(), 'Async action error');
-      expectTypeOf(action).toEqualTypeOf<() => Promise<Result<never, ThrownActionError>>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Promise<Result<never, ThrownActionError>>
+      >();
     });
 
     it('uses custom error handler when provided', () => {
@@ -351,7 +643,22 @@ describe('safe.ts', () => {
         .do(() => ok(null));
 
       expect(action()).toEqual(err('[Custom] Error: Test error'));
-      expectTypeOf(action).toEqualTypeOf<() => Result<null, `[Custom] ${string}`>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<null, `[Custom] ${string}`>
+      >();
+    });
+
+    it('returns errors that can be matched by their type', () => {
+      const action = createSafeAction().do(() => {
+        throw new Error('Action error');
+      });
+
+      const result = matchErr(action(), {
+        ThrownActionError: (error) => err(error.message),
+      });
+
+      expect(result).toEqual(err('Action error'));
+      expectTypeOf(result).toEqualTypeOf<Result<never, string>>();
     });
 
     it('allows to make action throwable for unexpected errors', () => {
@@ -364,7 +671,250 @@ describe('safe.ts', () => {
         .do(() => ok(null));
 
       expect(action()).toEqual(ok('HAS_SOME_ERROR'));
-      expectTypeOf(action).toEqualTypeOf<() => Result<'HAS_SOME_ERROR' | null, never>>();
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<'HAS_SOME_ERROR' | null, never>
+      >();
+    });
+  });
+
+  describe('abort', () => {
+    it('returns ActionAbortedError without running the pipeline when the signal is already aborted', () => {
+      const controller = new AbortController();
+      const reason = new Error('Cancelled');
+      const onThrow = vi.fn((_ex: unknown) => err('THROWN' as const));
+      const middleware = vi.fn(() => next());
+      const action = createSafeAction({ onThrow })
+        .abortable()
+        .with(middleware)
+        .do(() => ok('success'));
+
+      controller.abort(reason);
+      const result = action(undefined, { signal: controller.signal });
+
+      expect(result).toEqual(err(new ActionAbortedError(reason)));
+      expect((result as Err<ActionAbortedError>).error.cause).toBe(reason);
+      expect(middleware).not.toHaveBeenCalled();
+      expect(onThrow).not.toHaveBeenCalled();
+      expectTypeOf(result).toEqualTypeOf<Result<'success', 'THROWN' | ActionAbortedError>>();
+    });
+
+    it('stops running remaining middleware once the signal is aborted', async () => {
+      const controller = new AbortController();
+      const secondMiddleware = vi.fn(() => next());
+      const actionFn = vi.fn(() => ok('success'));
+      const action = createSafeAction<number>()
+        .abortable()
+        .with(async () => {
+          controller.abort();
+          return next();
+        })
+        .with(secondMiddleware)
+        .do(actionFn);
+
+      const result = await action(1, { signal: controller.signal });
+
+      expect(isErr(result) && result.error).toBeInstanceOf(ActionAbortedError);
+      expect(secondMiddleware).not.toHaveBeenCalled();
+      expect(actionFn).not.toHaveBeenCalled();
+    });
+
+    it('passes the signal to middleware and action', () => {
+      const { signal } = new AbortController();
+      const signals: AbortSignal[] = [];
+      const action = createSafeAction()
+        .abortable()
+        .with((opts) => {
+          signals.push(opts.signal);
+          return next();
+        })
+        .around(({ signal, proceed }) => {
+          signals.push(signal);
+          return proceed();
+        })
+        .do((opts) => {
+          signals.push(opts.signal);
+          return ok('success');
+        });
+
+      expect(action(undefined, { signal })).toEqual(ok('success'));
+      expect(signals).toEqual([signal, signal, signal]);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input?: undefined, options?: ActionCallOptions) => Result<'success', ThrownActionError | ActionAbortedError>
+      >();
+    });
+
+    it('returns ActionAbortedError without adding it to the error type when the action is not abortable', () => {
+      const controller = new AbortController();
+      const action = createSafeAction<number>().do(({ input }) => ok(input));
+
+      controller.abort();
+
+      expect(action(1, { signal: controller.signal })).toEqual(err(new ActionAbortedError(controller.signal.reason)));
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (input: number, options?: ActionCallOptions) => Result<number, ThrownActionError>
+      >();
+    });
+  });
+
+  describe('timeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('returns ActionTimeoutError and aborts the signal when the action takes too long', async () => {
+      let actionSignal: AbortSignal | undefined;
+      const action = createSafeAction()
+        .timeout(100)
+        .do(async ({ signal }) => {
+          actionSignal = signal;
+          await new Promise((resolve) => setTimeout(resolve, 1000));
+          return ok('success');
+        });
+
+      const response = action();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(await response).toEqual(err(new ActionTimeoutError(100, 100)));
+      expect(actionSignal?.aborted).toBe(true);
+      expectTypeOf(response).toEqualTypeOf<
+        Promise<Result<'success', ActionTimeoutError | ThrownActionError | ActionAbortedError>>
+      >();
+    });
+
+    it('returns the response when the action completes in time', async () => {
+      const action = createSafeAction({ timeout: 100 }).do(async () => ok('success'));
+
+      expect(await action()).toEqual(ok('success'));
+      expect(vi.getTimerCount()).toBe(0);
+      expectTypeOf<CallSignature<typeof action>>().toEqualTypeOf<
+        (
+          input?: undefined,
+          options?: ActionCallOptions,
+        ) => Promise<Result<'success', ActionTimeoutError | ThrownActionError | ActionAbortedError>>
+      >();
+    });
+
+    it('does not include ActionTimeoutError in the response when no timeout is set', () => {
+      const action = createSafeAction({ onThrow: () => err('THROWN' as const) }).do(() => ok(1));
+
+      expectTypeOf(action).returns.toEqualTypeOf<Result<1, 'THROWN'>>();
+    });
+  });
+
+  describe('metadata', () => {
+    it('stores the action name and configuration', () => {
+      const inputSchema = z.object({ id: z.string() });
+      const action = createSafeAction()
+        .named('user.get')
+        .input(inputSchema)
+        .with(() => next())
+        .do(({ input }) => ok(input.id));
+
+      expect(getActionMeta(action)).toEqual({
+        name: 'user.get',
+        inputSchema,
+        outputSchema: undefined,
+        middlewareCount: 1,
+      });
+    });
+
+    it('allows to name the action with the name option', () => {
+      const action = createSafeAction({ name: 'user.list', timeout: 100 }).do(() => ok([]));
+
+      expect(getActionMeta(action)?.name).toBe('user.list');
+    });
+  });
+
+  describe('hooks', () => {
+    it('reports Err results with onError', async () => {
+      const onSuccess = vi.fn();
+      const onError = vi.fn();
+      const action = createSafeAction({ name: 'user.get', hooks: { onSuccess, onError } }).do(async () =>
+        err('NOT_FOUND'),
+      );
+
+      expect(await action()).toEqual(err('NOT_FOUND'));
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ actionName: 'user.get', error: 'NOT_FOUND', duration: expect.any(Number) }),
+      );
+      expect(onSuccess).not.toHaveBeenCalled();
+    });
+
+    it('reports Ok results with onSuccess', () => {
+      const onSuccess = vi.fn();
+      const action = createSafeAction({ hooks: { onSuccess } }).do(() => ok('data'));
+
+      action();
+
+      expect(onSuccess).toHaveBeenCalledWith(expect.objectContaining({ output: ok('data') }));
+    });
+
+    it('calls onThrow before the exception handler', () => {
+      const calls: string[] = [];
+      const action = createSafeAction({
+        hooks: { onThrow: () => calls.push('hook') },
+        onThrow: () => {
+          calls.push('handler');
+          return err('FAILED');
+        },
+      }).do(() => {
+        throw new Error('Database error');
+      });
+
+      expect(action()).toEqual(err('FAILED'));
+      expect(calls).toEqual(['hook', 'handler']);
+    });
+
+    it('reports timeouts as errors', async () => {
+      vi.useFakeTimers();
+      const onError = vi.fn();
+      const action = createSafeAction({ timeout: 100, hooks: { onError } }).do(
+        () => new Promise<Ok<null>>((resolve) => setTimeout(() => resolve(ok(null)), 1000)),
+      );
+
+      const response = action();
+      await vi.advanceTimersByTimeAsync(100);
+      await response;
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(ActionTimeoutError) }));
+      vi.useRealTimers();
+    });
+
+    it('ignores errors thrown by the hooks and the tracer', async () => {
+      const fail = () => {
+        throw new Error('Hook failed');
+      };
+      const tracer = { startSpan: fail };
+      const hooks = { onStart: fail, onMiddleware: fail, onSuccess: fail, onError: fail, onThrow: fail };
+      const action = createSafeAction<string>({ hooks, tracer })
+        .with(() => next())
+        .do(async ({ input }) => (input ? ok(input) : err('EMPTY')));
+      const throwing = createSafeAction({ hooks, tracer }).do(() => {
+        throw new Error('Database error');
+      });
+
+      expect(await action('data')).toEqual(ok('data'));
+      expect(await action('')).toEqual(err('EMPTY'));
+      expect(throwing()).toEqual(err(expect.any(ThrownActionError)));
+    });
+
+    it('records exceptions and error status in the action span', () => {
+      const tracer = createInMemoryTracer();
+      const error = new Error('Database error');
+      const action = createSafeAction({ name: 'user.get', tracer }).do(() => {
+        throw error;
+      });
+
+      action();
+
+      expect(tracer.spans).toMatchObject([
+        { name: 'action user.get', status: 'error', statusMessage: 'Database error', exceptions: [error] },
+      ]);
+      expect(tracer.spans[0]?.endTime).toBeGreaterThanOrEqual(tracer.spans[0]?.startTime ?? Infinity);
     });
   });
 
@@ -377,4 +927,53 @@ describe('safe.ts', () => {
       expectActionError(defaultActionExceptionHandler('string error'), 'string error');
     });
   });
+
+  describe('thrownActionErrorCodec', () => {
+    it('does not send the original exception', () => {
+      const registry = createErrorCodecRegistry([thrownActionErrorCodec]);
+      const action = createSafeAction().do(() => {
+        throw new TypeError('Action error');
+      });
+
+      const serialized = JSON.stringify(serializeResult(action(), registry));
+      const restored = (deserializeResult(JSON.parse(serialized), registry) as Err<ThrownActionError>).error;
+
+      expect(serialized).not.toContain('Action error');
+      expect(restored).toBeInstanceOf(ThrownActionError);
+      expect(restored.message).toBe('Action threw an exception');
+      expect(restored.cause).toBeUndefined();
+    });
+  });
+
+  describe('thrownActionErrorWithCauseCodec', () => {
+    it('allows ThrownActionError to round-trip through serialization', () => {
+      const registry = createErrorCodecRegistry([thrownActionErrorWithCauseCodec]);
+      const action = createSafeAction().do(() => {
+        throw new TypeError('Action error');
+      });
+
+      const serialized = JSON.parse(JSON.stringify(serializeResult(action(), registry)));
+      const result = deserializeResult(serialized, registry);
+      const restored = (result as Err<ThrownActionError>).error;
+
+      expect(restored).toBeInstanceOf(ThrownActionError);
+      expect(restored.message).toBe('Action error');
+      expect(restored.cause).toBeInstanceOf(Error);
+      expect((restored.cause as Error).name).toBe('TypeError');
+    });
+  });
+
+  describe('actionInputValidationErrorCodec', () => {
+    it('converts symbol path keys to strings', () => {
+      const registry = createErrorCodecRegistry([actionInputValidationErrorCodec]);
+      const error = new ActionInputValidationError([{ message: 'Required', path: [Symbol('meta'), { key: 'id' }, 0] }]);
+
+      const serialized = JSON.parse(JSON.stringify(serializeResult(err(error), registry)));
+      const restored = (deserializeResult(serialized, registry) as Err<ActionInputValidationError>).error;
+
+      expect(restored.issues).toEqual([{ message: 'Required', path: ['Symbol(meta)', 'id', 0] }]);
+    });
+  });
 });
+
+type CallSignature<F extends (...args: any) => any> = (...args: Parameters<F>) => ReturnType<F>;
@@ -1,7 +1,9 @@
 import type { Err, UnknownResult } from '@uni-ts/result';
 import { err } from '@uni-ts/result';
+import type { ActionAbortedError, ActionTimeoutError } from './error.js';
 import { ThrownActionError } from './error.js';
-import type { Ctx } from './helpers.js';
+import type { ActionOptions, Ctx } from './helpers.js';
+import { resolveHooks } from './hooks.js';
 import { SafeActionBuilder } from './safe-action-builder.js';
 
 /**
@@ -14,6 +16,10 @@ import { SafeActionBuilder } from './safe-action-builder.js';
  * @template ExceptionHandler - Function type that converts exceptions to Result types. Should return `Ok<T>` or `Err<E>`.
  * @param options - Configuration options for the safe action
  * @param options.onThrow - Optional custom exception handler for thrown exceptions
+ * @param options.name - Optional name identifying the action in metadata and errors
+ * @param options.timeout - Optional time in milliseconds after which the asynchronous action returns ActionTimeoutError
+ * @param options.hooks - Optional lifecycle hooks (or a list of them) called during every action call
+ * @param options.tracer - Optional tracer adapter reporting every action call as a span
  * @returns A new SafeActionBuilder instance
  *
  * @example
@@ -46,11 +52,27 @@ import { SafeActionBuilder } from './safe-action-builder.js';
 export function createSafeAction<
   Input = never,
   ExceptionHandler extends (ex: unknown) => UnknownResult = typeof defaultActionExceptionHandler,
->({ onThrow }: { onThrow?: ExceptionHandler } = {}) {
-  return new SafeActionBuilder<Input, never, never, Ctx, false, ExceptionHandler>(
-    [],
-    (onThrow ?? defaultActionExceptionHandler) as ExceptionHandler,
-  );
+>(
+  options: ActionOptions<ExceptionHandler> & { timeout: number | undefined },
+): SafeActionBuilder<Input, never, ActionTimeoutError | ActionAbortedError, Ctx, false, ExceptionHandler>;
+export function createSafeAction<
+  Input = never,
+  ExceptionHandler extends (ex: unknown) => UnknownResult = typeof defaultActionExceptionHandler,
+>(
+  options?: ActionOptions<ExceptionHandler> & { timeout?: undefined },
+): SafeActionBuilder<Input, never, never, Ctx, false, ExceptionHandler>;
+export function createSafeAction({
+  onThrow = defaultActionExceptionHandler,
+  name,
+  timeout,
+  hooks,
+  tracer,
+}: ActionOptions<(ex: unknown) => UnknownResult> = {}) {
+  return new SafeActionBuilder<unknown, never, unknown, Ctx, false, (ex: unknown) => UnknownResult>([], onThrow, {
+    name,
+    timeout,
+    hooks: resolveHooks({ hooks, tracer }),
+  });
 }
 
 /**
@@ -79,5 +101,39 @@ export function defaultActionExceptionHandler(ex: unknown): Err<ThrownActionErro
   return err(new ThrownActionError(ex));
 }
 
-export { next } from './helpers.js';
+export type { ActionClient, ActionTransport } from './client.js';
+export { createActionClient, createFetchTransport, createInMemoryTransport } from './client.js';
+export {
+  ActionAbortedError,
+  ActionInputValidationError,
+  ActionNotFoundError,
+  ActionOutputValidationError,
+  ActionTimeoutError,
+  actionAbortedErrorCodec,
+  actionErrorCodecs,
+  actionInputValidationErrorCodec,
+  actionNotFoundErrorCodec,
+  actionOutputValidationErrorCodec,
+  actionTimeoutErrorCodec,
+  thrownActionErrorCodec,
+  thrownActionErrorWithCauseCodec,
+} from './error.js';
+export type { FetchHandlerOptions } from './fetch.js';
+export { toFetchHandler } from './fetch.js';
+export type { ActionCallOptions, ActionMeta, MiddlewareChain } from './helpers.js';
+export { composeMiddleware, getActionMeta, next } from './helpers.js';
+export type {
+  ActionErrorEvent,
+  ActionHooks,
+  ActionMiddlewareEvent,
+  ActionShortCircuitEvent,
+  ActionSpan,
+  ActionStartEvent,
+  ActionSuccessEvent,
+  ActionThrowEvent,
+  ActionTracer,
+} from './hooks.js';
+export { combineHooks, createTracingHooks } from './hooks.js';
+export type { ActionMap, ActionName, AnyAction } from './registry.js';
+export { ActionRegistry, createActionRegistry } from './registry.js';
 export { ThrownActionError };
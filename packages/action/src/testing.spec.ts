@@ -0,0 +1,158 @@
+import { err, ok } from '@uni-ts/result';
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { z } from 'zod';
+import { ActionInputValidationError } from './error.js';
+import type { Ctx } from './helpers.js';
+import { createAction, next } from './index.js';
+import { createSafeAction } from './safe.js';
+import type { ActionContext } from './testing.js';
+import { testAction } from './testing.js';
+
+describe('testing.ts', () => {
+  function authenticate(): Ctx<{ user: { id: string } }> {
+    throw new Error('Should not be called in tests');
+  }
+
+  function connectDb() {
+    return next({ db: { save: (title: string) => `saved:${title}` } });
+  }
+
+  const authedAction = createAction<{ title: string }>().with(authenticate).with(connectDb);
+
+  describe('testAction', () => {
+    it('runs the action with skipped middleware and injected context', () => {
+      const action = createAction<{ title: string }>()
+        .with(authenticate)
+        .with(connectDb)
+        .do(({ input, ctx }) => ({ user: ctx.user, saved: ctx.db.save(input.title) }));
+
+      const { run, calls } = testAction(action, { skip: [authenticate], ctx: { user: { id: '1' } } });
+
+      expect(run({ title: 'Hello' })).toEqual({ user: { id: '1' }, saved: 'saved:Hello' });
+      expect(calls).toEqual([
+        { type: 'middleware', index: 0, name: 'authenticate', outcome: 'skipped' },
+        { type: 'middleware', index: 1, name: 'connectDb', outcome: 'next' },
+        { type: 'action', outcome: 'returned' },
+      ]);
+      expectTypeOf(run).toEqualTypeOf(action);
+    });
+
+    it('replaces mocked middleware', async () => {
+      const save = vi.fn((title: string) => `mocked:${title}`);
+      const action = authedAction.do(async ({ input, ctx }) => ctx.db.save(input.title));
+
+      const { run, calls } = testAction(action, {
+        skip: [0],
+        mock: [[connectDb, () => next({ db: { save } })]],
+        ctx: { user: { id: '1' } } satisfies Pick<ActionContext<typeof authedAction>, 'user'>,
+      });
+
+      expect(await run({ title: 'Hello' })).toBe('mocked:Hello');
+      expect(save).toHaveBeenCalledWith('Hello');
+      expect(calls.map((call) => call.outcome)).toEqual(['skipped', 'next', 'returned']);
+    });
+
+    it('records short-circuits', () => {
+      const actionFn = vi.fn(() => 'success');
+      const action = createAction()
+        .with(() => 'early return')
+        .do(actionFn);
+
+      const { run, calls } = testAction(action);
+
+      expect(run()).toBe('early return');
+      expect(actionFn).not.toHaveBeenCalled();
+      expect(calls).toEqual([{ type: 'middleware', index: 0, name: '', outcome: 'short-circuit' }]);
+    });
+
+    it('records thrown exceptions', async () => {
+      const action = createAction({ onThrow: () => null })
+        .with(async () => next())
+        .do(async () => {
+          throw new Error('Action error');
+        });
+
+      const { run, calls } = testAction(action);
+
+      expect(await run()).toBeNull();
+      expect(calls.map((call) => call.outcome)).toEqual(['next', 'threw']);
+    });
+
+    it('types the injected context and mocks with the action', () => {
+      const action = authedAction.do(({ ctx }) => ctx.user.id);
+      type Options = NonNullable<Parameters<typeof testAction<typeof action>>[1]>;
+
+      expectTypeOf<{ user: { id: string } }>().toExtend<Options['ctx']>();
+      expectTypeOf<{ user: { id: number } }>().not.toExtend<Options['ctx']>();
+      expectTypeOf<{ session: string }>().not.toExtend<Options['ctx']>();
+      // @ts-expect-error - user id must be a string
+      testAction(action, { ctx: { user: { id: 1 } } });
+      // @ts-expect-error - the mock must return the same context as connectDb
+      testAction(action, { mock: [[connectDb, () => next({ db: null })]] });
+    });
+
+    it('skips and mocks around middleware', () => {
+      const order: string[] = [];
+      function transaction<R>({ proceed }: { proceed: () => R }) {
+        order.push('transaction');
+        return proceed();
+      }
+      function logger<R>({ proceed }: { proceed: () => R }) {
+        order.push('logger');
+        return proceed();
+      }
+      const action = createSafeAction()
+        .around(transaction)
+        .around(logger)
+        .do(() => ok('success'));
+
+      const { run, calls } = testAction(action, {
+        skip: [transaction],
+        mock: [
+          [
+            logger,
+            <R>({ proceed }: { proceed: () => R }) => {
+              order.push('mocked logger');
+              return proceed();
+            },
+          ],
+        ],
+      });
+
+      expect(run()).toEqual(ok('success'));
+      expect(order).toEqual(['mocked logger']);
+      expect(calls).toEqual([
+        { type: 'around', index: 0, name: 'transaction', outcome: 'skipped' },
+        { type: 'around', index: 1, name: 'logger', outcome: 'proceeded' },
+        { type: 'action', outcome: 'returned' },
+      ]);
+    });
+
+    it('keeps the action configuration', () => {
+      const action = createSafeAction()
+        .input(z.object({ id: z.string() }))
+        .with(() => err('UNAUTHORIZED'))
+        .do(({ input }) => ok(input.id));
+
+      const { run, calls } = testAction(action, { skip: [0] });
+
+      expect(run({ id: 1 } as never)).toEqual(err(expect.any(ActionInputValidationError)));
+      expect(run({ id: '1' })).toEqual(ok('1'));
+      expect(calls.map((call) => call.outcome)).toEqual(['skipped', 'returned']);
+    });
+
+    it('does not change the original action', () => {
+      const action = createAction()
+        .with(() => 'early return')
+        .do(() => 'success');
+
+      testAction(action, { skip: [0] });
+
+      expect(action()).toBe('early return');
+    });
+
+    it('throws for functions that are not actions', () => {
+      expect(() => testAction(() => null)).toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import type { ActionBuilder } from './action-builder.js';
+import type { AroundFn, Ctx, CtxValue, Fn, InferActionContext, Middleware, MiddlewareFn } from './helpers.js';
+import { createActionExecutor, getActionDefinition, isAroundMiddleware, isCtx, next } from './helpers.js';
+import type { ActionSpan, ActionTracer } from './hooks.js';
+import type { SafeActionBuilder } from './safe-action-builder.js';
+
+/**
+ * Wraps an action so it can be executed in tests with selected middleware skipped or replaced
+ * and with a pre-built context, while recording the middleware calls for assertions.
+ *
+ * Middleware are referenced with the same functions that were passed to `.with()` or `.around()`
+ * (or with their index in the pipeline). Skipped regular middleware don't add anything to the context,
+ * while skipped `.around()` middleware just proceed with the rest of the pipeline.
+ * The injected context is typed with the context of the action, and mocks must have the same signature
+ * as the middleware they replace (mocks referenced by index are not type-checked).
+ *
+ * @template A - The type of the action
+ * @template Refs - The middleware replaced with mocks
+ * @param action - The action created with `createAction` or `createSafeAction`
+ * @param options - Configuration of the test execution
+ * @param options.ctx - Part of the action context passed to the first middleware (or the action if all middleware are skipped)
+ * @param options.skip - Middleware that should not be executed
+ * @param options.mock - Pairs of middleware and functions executed instead of them
+ * @returns An object with the action to run and the list of recorded calls
+ * @throws {TypeError} When the function is not an action
+ *
+ * @example
+ * ```typescript
+ * const createPost = createAction<{ title: string }>()
+ *   .with(authenticate)
+ *   .with(connectDb)
+ *   .do(({ input, ctx }) => ctx.db.posts.create({ ...input, authorId: ctx.user.id }));
+ *
+ * const { run, calls } = testAction(createPost, {
+ *   skip: [authenticate],
+ *   mock: [[connectDb, () => next({ db: fakeDb })]],
+ *   ctx: { user: fakeUser },
+ * });
+ *
+ * await run({ title: 'Hello' });
+ *
+ * expect(calls).toEqual([
+ *   { type: 'middleware', index: 0, name: 'authenticate', outcome: 'skipped' },
+ *   { type: 'middleware', index: 1, name: 'connectDb', outcome: 'next' },
+ *   { type: 'action', outcome: 'returned' },
+ * ]);
+ * ```
+ */
+export function testAction<A extends Fn, const Refs extends MiddlewareRef[] = []>(
+  action: A,
+  { ctx, skip = [], mock }: TestActionOptions<A, Refs> = {},
+) {
+  const definition = getActionDefinition(action);
+
+  if (!definition) throw new TypeError('The function is not an action created with createAction or createSafeAction');
+
+  const calls: TestActionCall[] = [];
+  const matches = (ref: MiddlewareRef, middleware: Middleware<unknown, unknown, Ctx>, index: number) =>
+    ref === index || ref === middleware || (isAroundMiddleware(middleware) && ref === middleware.fn);
+
+  const fns = definition.fns.map((middleware, index): Middleware<unknown, unknown, Ctx> => {
+    const name = (isAroundMiddleware(middleware) ? middleware.fn : middleware).name;
+    const skipped = skip.some((ref) => matches(ref, middleware, index));
+    const replacement = ((mock ?? []) as MiddlewareMock[]).find(([ref]) => matches(ref, middleware, index))?.[1];
+
+    if (isAroundMiddleware(middleware)) {
+      const fn = (skipped ? ({ proceed }) => proceed() : (replacement ?? middleware.fn)) as AroundFn<
+        unknown,
+        unknown,
+        Ctx
+      >;
+      return {
+        type: 'around',
+        fn: ((opts: Parameters<typeof fn>[0]) => {
+          const call = record(calls, { type: 'around', index, name, outcome: skipped ? 'skipped' : 'proceeded' });
+          return track(call, () => fn(opts));
+        }) as typeof fn,
+      };
+    }
+
+    const fn = (replacement ?? middleware) as MiddlewareFn<unknown, unknown, Ctx>;
+    return (opts) => {
+      if (skipped) {
+        record(calls, { type: 'middleware', index, name, outcome: 'skipped' });
+        return next();
+      }
+
+      const call = record(calls, { type: 'middleware', index, name, outcome: 'next' });
+      return track(
+        call,
+        () => fn(opts),
+        (value) => (isCtx(value) ? 'next' : 'short-circuit'),
+      );
+    };
+  });
+
+  const actionFn: typeof definition.actionFn = (opts) => {
+    const call = record(calls, { type: 'action', outcome: 'returned' });
+    return track(call, () => definition.actionFn(opts));
+  };
+
+  const run = createActionExecutor(fns, definition.handleException, actionFn, {
+    ...definition.config,
+    initialCtx: ctx,
+  }) as unknown as A;
+
+  return { run, calls };
+}
+
+/**
+ * Creates a tracer adapter that keeps all spans in memory, so the tracing of actions can be asserted in tests.
+ *
+ * @returns The tracer with the list of recorded spans (in the order they were started)
+ *
+ * @example
+ * ```typescript
+ * const tracer = createInMemoryTracer();
+ * const getUser = createAction<string>({ name: 'user.get', tracer })
+ *   .with(authenticate)
+ *   .do(({ input }) => db.users.find(input));
+ *
+ * await getUser('1');
+ *
+ * expect(tracer.spans).toMatchObject([
+ *   { name: 'action user.get', parent: undefined, status: 'ok' },
+ *   { name: 'middleware authenticate', parent: { name: 'action user.get' }, status: 'ok' },
+ * ]);
+ * ```
+ */
+export function createInMemoryTracer(): ActionTracer & { spans: RecordedSpan[] } {
+  const spans: RecordedSpan[] = [];
+
+  return {
+    spans,
+    startSpan: (name, { startTime, parent, attributes }) => {
+      const span: RecordedSpan = {
+        name,
+        parent: spans.find((recorded) => recorded.span === parent),
+        attributes,
+        startTime,
+        endTime: undefined,
+        status: undefined,
+        statusMessage: undefined,
+        exceptions: [],
+        span: {
+          recordException: (error) => span.exceptions.push(error),
+          setStatus: (status, message) => {
+            span.status = status;
+            span.statusMessage = message;
+          },
+          end: (endTime) => {
+            span.endTime = endTime;
+          },
+        },
+      };
+
+      spans.push(span);
+      return span.span;
+    },
+  };
+}
+
+function record<C extends TestActionCall>(calls: TestActionCall[], call: C): C {
+  calls.push(call);
+  return call;
+}
+
+function track(
+  call: { outcome: string },
+  fn: () => unknown,
+  getOutcome: (value: unknown) => string = () => call.outcome,
+): unknown {
+  const onValue = (value: unknown) => {
+    call.outcome = getOutcome(value);
+    return value;
+  };
+  const onError = (ex: unknown) => {
+    call.outcome = 'threw';
+    throw ex;
+  };
+
+  try {
+    const value = fn();
+    return value instanceof Promise ? value.then(onValue, onError) : onValue(value);
+  } catch (ex) {
+    return onError(ex);
+  }
+}
+
+/**
+ * Span recorded by `createInMemoryTracer`.
+ */
+export type RecordedSpan = {
+  name: string;
+  parent: RecordedSpan | undefined;
+  attributes: Record<string, string | number>;
+  startTime: number;
+  endTime: number | undefined;
+  status: 'ok' | 'error' | undefined;
+  statusMessage: string | undefined;
+  exceptions: unknown[];
+  span: ActionSpan;
+};
+
+/**
+ * Reference to the middleware: the function passed to `.with()` or `.around()`, or its index in the pipeline.
+ */
+export type MiddlewareRef = Fn | number;
+
+export type TestActionOptions<A extends Fn = Fn, Refs extends MiddlewareRef[] = MiddlewareRef[]> = {
+  ctx?: Partial<InferActionContext<A>>;
+  skip?: MiddlewareRef[];
+  mock?: { [K in keyof Refs]: [ref: Refs[K], replacement: NoInfer<MiddlewareReplacement<Refs[K]>>] };
+};
+
+/**
+ * Call recorded by `testAction`.
+ * - `next` - the middleware returned a context and the pipeline continued
+ * - `short-circuit` - the middleware returned a value that ended the pipeline
+ * - `proceeded` - the around middleware was executed
+ * - `skipped` - the middleware was skipped
+ * - `returned` - the action returned a value
+ * - `threw` - the function threw an exception
+ */
+export type TestActionCall =
+  | { type: 'middleware'; index: number; name: string; outcome: 'next' | 'short-circuit' | 'skipped' | 'threw' }
+  | { type: 'around'; index: number; name: string; outcome: 'proceeded' | 'skipped' | 'threw' }
+  | { type: 'action'; outcome: 'returned' | 'threw' };
+
+/**
+ * Infers the context value available at the given point of the action builder,
+ * e.g. to type the context injected with `testAction`.
+ *
+ * @example
+ * ```typescript
+ * const authedAction = createAction().with(authenticate).with(connectDb);
+ *
+ * testAction(createPost, {
+ *   ctx: { user: fakeUser, db: fakeDb } satisfies ActionContext<typeof authedAction>,
+ * });
+ * ```
+ */
+export type ActionContext<Builder> = Builder extends ActionBuilder<any, any, infer Context, any, any, any, any>
+  ? CtxValue<Context>
+  : Builder extends SafeActionBuilder<any, any, any, infer Context, any, any, any, any>
+    ? CtxValue<Context>
+    : never;
+
+type MiddlewareMock = [ref: MiddlewareRef, replacement: Fn];
+
+type MiddlewareReplacement<Ref> = Ref extends number ? Fn : Ref;
@@ -0,0 +1,194 @@
+import type { Err, Result } from '@uni-ts/result';
+import { type } from 'arktype';
+import * as v from 'valibot';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { z } from 'zod';
+import { extend, omit, partial, pick } from './compose.js';
+import { derive } from './derive.js';
+import { ModelValidationError, UnsupportedSchemaVendorError } from './error.js';
+import { createModel, type InferModelInput, type InferModelOutput } from './index.js';
+import { createSafeFirstModel, createSafeModel, createUnsafeFirstModel } from './safe.js';
+
+describe('compose.ts', () => {
+  const userSchema = z.object({
+    name: z.string().trim().min(1),
+    email: z.email(),
+    passwordHash: z.string(),
+  });
+  const extensions = { greet: (user: { name: string }) => `Hello, ${user.name}!` };
+  const user = { name: ' John ', email: 'john@example.com', passwordHash: 'hash' };
+
+  describe('pick', () => {
+    it('returns only the picked properties of the validated value', () => {
+      const User = createModel(userSchema, extensions);
+      const UserSummary = pick(User, ['name', 'email']);
+
+      const summary = UserSummary.from(user);
+
+      expect(summary).toEqual({ name: 'John', email: 'john@example.com' });
+      expect(UserSummary.greet(summary)).toBe('Hello, John!');
+      expect(() => UserSummary.from({ ...user, passwordHash: undefined as never })).toThrow(ModelValidationError);
+
+      expectTypeOf<InferModelInput<typeof UserSummary>>().toEqualTypeOf<InferModelInput<typeof User>>();
+      expectTypeOf<InferModelOutput<typeof UserSummary>>().toEqualTypeOf<{ name: string; email: string }>();
+    });
+  });
+
+  describe('omit', () => {
+    it('removes the omitted properties from the validated value', () => {
+      const User = createModel(userSchema, extensions);
+      const PublicUser = omit(User, ['passwordHash']);
+
+      expect(PublicUser.from(user)).toEqual({ name: 'John', email: 'john@example.com' });
+      expect(PublicUser.is({ name: 'John', email: 'john@example.com' })).toBe(false);
+      expect(PublicUser.greet).toBe(User.greet);
+
+      expectTypeOf<InferModelOutput<typeof PublicUser>>().toEqualTypeOf<{ name: string; email: string }>();
+    });
+  });
+
+  describe('partial', () => {
+    it('accepts values with missing properties', () => {
+      const User = createModel(userSchema, extensions);
+      const UserUpdate = partial(User);
+
+      expect(UserUpdate.from({ email: 'john@example.com' })).toEqual({ email: 'john@example.com' });
+      expect(UserUpdate.from(user)).toEqual({ ...user, name: 'John' });
+      expect(UserUpdate.is({})).toBe(true);
+      expect(UserUpdate.greet({ name: 'John' })).toBe('Hello, John!');
+
+      expectTypeOf<InferModelInput<typeof UserUpdate>>().toEqualTypeOf<Partial<InferModelInput<typeof User>>>();
+      expectTypeOf<InferModelOutput<typeof UserUpdate>>().toEqualTypeOf<Partial<InferModelOutput<typeof User>>>();
+    });
+
+    it('reports issues of the present properties', () => {
+      const UserUpdate = partial(createModel(type({ name: 'string', age: 'number' })));
+
+      expect(() => UserUpdate.from({ age: '30' as never })).toThrow(ModelValidationError);
+      expect(() => UserUpdate.cast('John')).toThrow(ModelValidationError);
+    });
+
+    it('applies the transformations and defaults of the present properties', () => {
+      const User = createModel(
+        z.object({ name: z.string().trim(), role: z.string().default('user'), age: z.number() }),
+      );
+      const UserUpdate = partial(User);
+
+      expect(UserUpdate.from({ name: ' John ' })).toEqual({ name: 'John', role: 'user' });
+      expect(partial(createModel(type({ name: 'string.trim' }))).from({})).toEqual({});
+    });
+
+    it('throws UnsupportedSchemaVendorError for schemas without native support', () => {
+      const User = createModel(v.object({ name: v.string(), age: v.pipe(v.string(), v.transform(Number)) }));
+      const Credentials = createModel(
+        z.object({ password: z.string(), confirm: z.string() }).refine((value) => value.password === value.confirm),
+      );
+
+      expect(() => partial(User)).toThrow(UnsupportedSchemaVendorError);
+      expect(() => partial(User)).toThrow(expect.objectContaining({ vendor: 'valibot' }));
+      expect(() => partial(Credentials)).toThrow(UnsupportedSchemaVendorError);
+      expect(() => partial(pick(createModel(userSchema), ['name']))).toThrow(UnsupportedSchemaVendorError);
+    });
+
+    it('supports async schemas', async () => {
+      const User = createModel(z.object({ name: z.string().refine(async (name) => name !== 'admin') }));
+      const UserUpdate = partial(User);
+
+      await expect(UserUpdate.fromAsync({})).resolves.toEqual({});
+      await expect(UserUpdate.fromAsync({ name: 'admin' })).rejects.toThrow(ModelValidationError);
+    });
+  });
+
+  describe('extend', () => {
+    it('intersects the outputs and keeps the extensions of both models', () => {
+      const Person = createModel(z.object({ name: z.string() }), extensions);
+      const Timestamps = createModel(z.object({ createdAt: z.coerce.date() }), {
+        age: (value: { createdAt: Date }) => Date.now() - value.createdAt.getTime(),
+      });
+
+      const Employee = extend(Person, Timestamps);
+
+      const employee = Employee.from({ name: 'John', createdAt: '2024-01-01' as never });
+
+      expect(employee).toEqual({ name: 'John', createdAt: new Date('2024-01-01') });
+      expect(Employee.greet(employee)).toBe('Hello, John!');
+      expect(Employee.age).toBe(Timestamps.age);
+      expect(derive(Employee)).toEqual({ greet: Person.greet, age: Timestamps.age });
+
+      expectTypeOf<InferModelOutput<typeof Employee>>().toEqualTypeOf<{ name: string } & { createdAt: Date }>();
+    });
+
+    it('supports schemas rejecting unknown keys', () => {
+      const Employee = extend(
+        createModel(z.strictObject({ name: z.string() })),
+        createModel(z.strictObject({ id: z.string() })),
+      );
+      const Customer = extend(
+        createModel(type({ name: 'string', '+': 'reject' })),
+        createModel(type({ id: 'string' })),
+      );
+
+      expect(Employee.from({ name: 'John', id: '1' })).toEqual({ name: 'John', id: '1' });
+      expect(() => Employee.from({ name: 'John', id: '1', role: 'admin' } as never)).toThrow(ModelValidationError);
+      expect(Customer.from({ name: 'John', id: '1' })).toEqual({ name: 'John', id: '1' });
+    });
+
+    it('merges outputs of models using different vendors', () => {
+      const Name = extend(createModel(v.pipe(v.string(), v.minLength(1))), createModel(type('string')));
+      const Tags = extend(createModel(v.object({ tags: v.array(v.string()) })), createModel(type({ id: 'string' })));
+
+      expect(Name.from('John')).toBe('John');
+      expect(() => extend(Name, createModel(type('string.lower'))).from('John')).toThrow(
+        'Outputs of the extended models cannot be merged',
+      );
+      expect(Tags.from({ tags: ['a'], id: '1' })).toEqual({ tags: ['a'], id: '1' });
+    });
+
+    it('reports the issues of both models', () => {
+      const Named = createUnsafeFirstModel(z.object({ name: z.string() }));
+      const Identified = createModel(type({ id: 'string' }));
+      const Employee = extend(Named, Identified);
+
+      const result = Employee.safeCast({});
+
+      expect((result as Err<ModelValidationError>).error.flatten().fieldErrors).toEqual({
+        name: [expect.any(String)],
+        id: [expect.any(String)],
+      });
+    });
+  });
+
+  describe.for([
+    { makeModel: createSafeModel, name: 'createSafeModel', unsafeMethod: undefined, safeMethod: 'from' },
+    { makeModel: createSafeFirstModel, name: 'createSafeFirstModel', unsafeMethod: 'unsafeFrom', safeMethod: 'from' },
+    { makeModel: createUnsafeFirstModel, name: 'createUnsafeFirstModel', unsafeMethod: 'from', safeMethod: 'safeFrom' },
+  ] as const)('$name', ({ makeModel, safeMethod, unsafeMethod }) => {
+    it('creates models of the same kind', () => {
+      const User = makeModel(userSchema, extensions);
+      const PublicUser = omit(User, ['passwordHash']);
+
+      const model = PublicUser as unknown as Record<string, (value: unknown) => unknown>;
+
+      expect(model[safeMethod]?.(user)).toEqual({ success: true, data: { name: 'John', email: 'john@example.com' } });
+      expect((model[safeMethod]?.({}) as Err<unknown>).error).toBeInstanceOf(ModelValidationError);
+      if (unsafeMethod) expect(() => model[unsafeMethod]?.({})).toThrow(ModelValidationError);
+      expect(PublicUser.greet({ name: 'John' })).toBe('Hello, John!');
+    });
+  });
+
+  it('types composed safe models like the source models', () => {
+    const User = createSafeFirstModel(userSchema);
+    const UserUpdate = partial(User);
+
+    expectTypeOf(UserUpdate.from).returns.toEqualTypeOf<
+      Result<Partial<InferModelOutput<typeof User>>, ModelValidationError>
+    >();
+    expectTypeOf(UserUpdate.unsafeFrom).returns.toEqualTypeOf<Partial<InferModelOutput<typeof User>>>();
+  });
+
+  it('throws for objects not created with the model factories', () => {
+    const User = createModel(userSchema);
+
+    expect(() => partial({ ...User })).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,371 @@
+import type { Result } from '@uni-ts/result';
+import { derive, type ModelExtensions } from './derive.js';
+import { UnsupportedSchemaVendorError } from './error.js';
+import { getFactory, type Merge, merge } from './helpers.js';
+import type { JSONSchema } from './json-schema.js';
+import type { StandardSchemaV1 } from './standard-schema.js';
+import type { InferModelInput, InferModelOutput, Model, SafeFirstModel, SafeModel, UnsafeFirstModel } from './types.js';
+
+/**
+ * Creates a model with only the selected properties of the model output.
+ *
+ * The value is validated with the schema of the source model and the properties are picked afterwards,
+ * so the new model accepts the same input. The new model is created with the same factory as the source model
+ * and keeps all its extensions.
+ *
+ * @template M - Type of the source model
+ * @template K - Type of the picked property keys
+ * @param model - The source model created with any of the model factories
+ * @param keys - The properties of the model output to keep
+ * @returns A new model returning only the picked properties
+ *
+ * @example
+ * ```typescript
+ * const User = createModel(z.object({ id: z.string(), name: z.string(), passwordHash: z.string() }), {
+ *   greet: (user: { name: string }) => `Hello, ${user.name}!`,
+ * });
+ *
+ * const UserSummary = pick(User, ['id', 'name']);
+ *
+ * const summary = UserSummary.from({ id: '1', name: 'John', passwordHash: '...' }); // { id: '1', name: 'John' }
+ * UserSummary.greet(summary); // "Hello, John!"
+ * ```
+ */
+export function pick<M extends Model<any> | SafeModel<any>, const K extends keyof InferModelOutput<M>>(
+  model: M,
+  keys: K[],
+): ComposedModel<M, InferModelInput<M>, Pick<InferModelOutput<M>, K>> {
+  const schema = createSchema<InferModelInput<M>, Pick<InferModelOutput<M>, K>>(
+    (value) =>
+      mapResult(model.schema['~standard'].validate(value), (result) => {
+        if (result.issues) return result;
+
+        const output = result.value as Record<PropertyKey, unknown>;
+        const picked: Record<PropertyKey, unknown> = {};
+
+        for (const key of keys) {
+          if (key in output) picked[key] = output[key];
+        }
+
+        return { value: picked as Pick<InferModelOutput<M>, K> };
+      }),
+    (convert) => filterProperties(convert(model.schema), (key) => keys.some((picked) => String(picked) === key)),
+  );
+
+  return compose(model, derive(model) as ModelExtensions<M>, schema);
+}
+
+/**
+ * Creates a model without the selected properties of the model output.
+ *
+ * The value is validated with the schema of the source model and the properties are omitted afterwards,
+ * so the new model accepts the same input. The new model is created with the same factory as the source model
+ * and keeps all its extensions.
+ *
+ * @template M - Type of the source model
+ * @template K - Type of the omitted property keys
+ * @param model - The source model created with any of the model factories
+ * @param keys - The properties of the model output to remove
+ * @returns A new model returning the output without the omitted properties
+ *
+ * @example
+ * ```typescript
+ * const User = createModel(z.object({ id: z.string(), name: z.string(), passwordHash: z.string() }));
+ *
+ * const PublicUser = omit(User, ['passwordHash']);
+ *
+ * PublicUser.from({ id: '1', name: 'John', passwordHash: '...' }); // { id: '1', name: 'John' }
+ * ```
+ */
+export function omit<M extends Model<any> | SafeModel<any>, const K extends keyof InferModelOutput<M>>(
+  model: M,
+  keys: K[],
+): ComposedModel<M, InferModelInput<M>, Omit<InferModelOutput<M>, K>> {
+  const schema = createSchema<InferModelInput<M>, Omit<InferModelOutput<M>, K>>(
+    (value) =>
+      mapResult(model.schema['~standard'].validate(value), (result) => {
+        if (result.issues) return result;
+
+        const output = { ...(result.value as Record<PropertyKey, unknown>) };
+
+        for (const key of keys) delete output[key];
+
+        return { value: output as Omit<InferModelOutput<M>, K> };
+      }),
+    (convert) => filterProperties(convert(model.schema), (key) => !keys.some((omitted) => String(omitted) === key)),
+  );
+
+  return compose(model, derive(model) as ModelExtensions<M>, schema);
+}
+
+/**
+ * Creates a model where all properties of the object are optional.
+ *
+ * Zod objects and ArkType schemas are made partial with their own `partial()` method, so the output keeps
+ * the transformations and defaults of the present properties. Other schemas (including Zod objects with refinements
+ * and models created with `pick`, `omit` or `extend`) can't validate partial values, so they're rejected.
+ * The new model is created with the same factory as the source model and keeps all its extensions.
+ *
+ * @template M - Type of the source model
+ * @param model - The source model created with any of the model factories
+ * @returns A new model accepting objects with any subset of the properties
+ * @throws {UnsupportedSchemaVendorError} When the schema of the model can't be made partial natively
+ *
+ * @example
+ * ```typescript
+ * const User = createModel(z.object({ name: z.string().min(1), email: z.email() }));
+ *
+ * const UserUpdate = partial(User);
+ *
+ * UserUpdate.from({ email: 'john@example.com' }); // { email: 'john@example.com' }
+ * UserUpdate.from({ name: '' }); // throws ModelValidationError
+ *
+ * partial(createModel(v.object({ name: v.string() }))); // throws UnsupportedSchemaVendorError
+ * ```
+ */
+export function partial<M extends Model<any> | SafeModel<any>>(
+  model: M,
+): ComposedModel<M, Partial<InferModelInput<M>>, Partial<InferModelOutput<M>>> {
+  const { vendor } = model.schema['~standard'];
+  const schema = composeNative('partial', model.schema);
+
+  if (!schema) {
+    throw new UnsupportedSchemaVendorError(
+      vendor,
+      `Schemas of the "${vendor}" vendor can't be made partial (only Zod objects without refinements and ArkType schemas)`,
+    );
+  }
+
+  return compose(
+    model,
+    derive(model) as ModelExtensions<M>,
+    schema as StandardSchemaV1<Partial<InferModelInput<M>>, Partial<InferModelOutput<M>>>,
+  );
+}
+
+/**
+ * Creates a model combining two models, whose output is the intersection of their outputs.
+ *
+ * Zod objects are combined with `extend()` and ArkType schemas with `merge()`, which keeps their handling
+ * of unknown keys. Other schemas (or models using different vendors) validate the value with the schemas of both models,
+ * report the issues of both together and merge the outputs (reporting an issue when they can't be merged).
+ * Such models can't use schemas rejecting unknown keys, since each schema receives the properties of the other one.
+ * The new model is created with the same factory as the first model and keeps the extensions of both models
+ * (the ones of the second model take precedence).
+ *
+ * @template M - Type of the first model
+ * @template N - Type of the second model
+ * @param model - The model to extend
+ * @param other - The model with additional properties
+ * @returns A new model returning the merged outputs of both models
+ *
+ * @example
+ * ```typescript
+ * const Person = createModel(z.object({ name: z.string() }), {
+ *   greet: (person: { name: string }) => `Hello, ${person.name}!`,
+ * });
+ * const Timestamps = createModel(z.object({ createdAt: z.coerce.date() }));
+ *
+ * const Employee = extend(Person, Timestamps);
+ *
+ * const employee = Employee.from({ name: 'John', createdAt: '2024-01-01' }); // { name: 'John', createdAt: Date }
+ * Employee.greet(employee); // "Hello, John!"
+ * ```
+ */
+export function extend<M extends Model<any> | SafeModel<any>, N extends Model<any> | SafeModel<any>>(
+  model: M,
+  other: N,
+): ComposedModel<
+  M,
+  InferModelInput<M> & InferModelInput<N>,
+  InferModelOutput<M> & InferModelOutput<N>,
+  Merge<ModelExtensions<M>, ModelExtensions<N>>
+> {
+  const combine = (results: StandardSchemaV1.Result<unknown>[]): StandardSchemaV1.Result<unknown> => {
+    const issues = results.flatMap((result) => result.issues ?? []);
+
+    if (issues.length) return { issues };
+
+    const [output, otherOutput] = results.map((result) => (result as StandardSchemaV1.SuccessResult<unknown>).value);
+    const merged = mergeOutputs(output, otherOutput);
+
+    return merged ?? { issues: [{ message: 'Outputs of the extended models cannot be merged' }] };
+  };
+
+  const schema =
+    composeNative('extend', model.schema, other.schema) ??
+    createSchema(
+      (value) => {
+        const results = [model.schema['~standard'].validate(value), other.schema['~standard'].validate(value)];
+
+        return results.some((result) => result instanceof Promise)
+          ? Promise.all(results).then(combine)
+          : combine(results as StandardSchemaV1.Result<unknown>[]);
+      },
+      (convert) => mergeJSONSchemas(convert(model.schema), convert(other.schema)),
+    );
+
+  return compose(
+    model,
+    merge(derive(model) as ModelExtensions<M>, derive(other) as ModelExtensions<N>),
+    schema as StandardSchemaV1<InferModelInput<M> & InferModelInput<N>, InferModelOutput<M> & InferModelOutput<N>>,
+  );
+}
+
+const composedSchemas = new WeakMap<
+  StandardSchemaV1,
+  (convert: (schema: StandardSchemaV1) => JSONSchema) => JSONSchema
+>();
+
+/**
+ * Converts the schema of a model created with `pick`, `omit` or `extend` into a JSON Schema
+ * by adjusting the JSON Schemas of the source models.
+ *
+ * @param schema - The schema to convert
+ * @param convert - Converts the schemas of the source models
+ * @returns The JSON Schema or undefined if the schema wasn't created by composing models
+ */
+export function convertComposedSchema(
+  schema: StandardSchemaV1,
+  convert: (schema: StandardSchemaV1) => JSONSchema,
+): JSONSchema | undefined {
+  return composedSchemas.get(schema)?.(convert);
+}
+
+/**
+ * Operations of the vendors whose schemas can be composed natively, keeping their transformations, defaults
+ * and handling of unknown keys. Zod objects with refinements are skipped, since Zod drops the refinements.
+ */
+const nativeComposers: Record<string, NativeComposer> = {
+  zod: {
+    supports: (schema) => schema.def?.type === 'object' && !schema.def.checks?.length,
+    partial: (schema) => schema.partial(),
+    extend: (schema, other) => schema.extend(other.shape),
+  },
+  arktype: {
+    supports: (schema) => typeof schema.merge === 'function',
+    partial: (schema) => schema.partial(),
+    extend: (schema, other) => schema.merge(other),
+  },
+};
+
+function composeNative(
+  operation: 'partial' | 'extend',
+  schema: StandardSchemaV1,
+  other?: StandardSchemaV1,
+): StandardSchemaV1 | undefined {
+  const { vendor } = schema['~standard'];
+  const composer = nativeComposers[vendor];
+  const schemas = other ? [schema, other] : [schema];
+
+  if (!composer || !schemas.every((s) => s['~standard'].vendor === vendor && composer.supports(s))) return undefined;
+
+  try {
+    return composer[operation](schema, other);
+  } catch {
+    return undefined;
+  }
+}
+
+function createSchema<Input, Output>(
+  validate: (value: unknown) => StandardSchemaV1.Result<Output> | Promise<StandardSchemaV1.Result<Output>>,
+  toJSONSchema: (convert: (schema: StandardSchemaV1) => JSONSchema) => JSONSchema,
+): StandardSchemaV1<Input, Output> {
+  const schema: StandardSchemaV1<Input, Output> = { '~standard': { version: 1, vendor: 'uni-ts', validate } };
+
+  composedSchemas.set(schema, toJSONSchema);
+
+  return schema;
+}
+
+function compose<M extends object, Input, Output, E>(
+  model: M,
+  extensions: E,
+  schema: StandardSchemaV1<Input, Output>,
+): ComposedModel<M, Input, Output, E> {
+  return getFactory(model)(schema, extensions as Record<PropertyKey, unknown>) as ComposedModel<M, Input, Output, E>;
+}
+
+function mapResult<T, R>(result: T | Promise<T>, fn: (result: T) => R): R | Promise<R> {
+  return result instanceof Promise ? result.then(fn) : fn(result);
+}
+
+function mergeOutputs(output: unknown, other: unknown): { value: unknown } | undefined {
+  if (Object.is(output, other)) return { value: output };
+
+  if (output instanceof Date && other instanceof Date) {
+    return output.getTime() === other.getTime() ? { value: output } : undefined;
+  }
+
+  if (Array.isArray(output) && Array.isArray(other)) {
+    if (output.length !== other.length) return undefined;
+
+    const merged: unknown[] = [];
+
+    for (const [index, item] of output.entries()) {
+      const result = mergeOutputs(item, other[index]);
+      if (!result) return undefined;
+      merged.push(result.value);
+    }
+
+    return { value: merged };
+  }
+
+  if (isPlainObject(output) && isPlainObject(other)) {
+    const merged = { ...output, ...other };
+
+    for (const key of Object.keys(output)) {
+      if (!(key in other)) continue;
+
+      const result = mergeOutputs(output[key], other[key]);
+      if (!result) return undefined;
+      merged[key] = result.value;
+    }
+
+    return { value: merged };
+  }
+
+  return undefined;
+}
+
+function filterProperties(schema: JSONSchema, keep: (key: string) => boolean): JSONSchema {
+  if (!isObject(schema.properties)) return schema;
+
+  const properties = Object.fromEntries(Object.entries(schema.properties).filter(([key]) => keep(key)));
+
+  return Array.isArray(schema.required)
+    ? { ...schema, properties, required: schema.required.filter(keep) }
+    : { ...schema, properties };
+}
+
+function mergeJSONSchemas(schema: JSONSchema, other: JSONSchema): JSONSchema {
+  if (!isObject(schema.properties) || !isObject(other.properties)) return { allOf: [schema, other] };
+
+  const required = [...new Set([schema.required, other.required].flatMap((keys) => (Array.isArray(keys) ? keys : [])))];
+
+  return { ...schema, ...other, properties: { ...schema.properties, ...other.properties }, required };
+}
+
+function isObject(value: unknown): value is Record<PropertyKey, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function isPlainObject(value: unknown): value is Record<PropertyKey, unknown> {
+  return isObject(value) && [Object.prototype, null].includes(Object.getPrototypeOf(value));
+}
+
+type NativeComposer = {
+  supports: (schema: any) => boolean;
+  partial: (schema: any) => StandardSchemaV1;
+  extend: (schema: any, other: any) => StandardSchemaV1;
+};
+
+type ComposedModel<M, Input, Output, E = ModelExtensions<M>> = Merge<ModelKind<M, StandardSchemaV1<Input, Output>>, E>;
+
+type ModelKind<M, S extends StandardSchemaV1> = M extends { unsafeFrom: unknown }
+  ? SafeFirstModel<S>
+  : M extends { safeFrom: unknown }
+    ? UnsafeFirstModel<S>
+    : M extends { from: (value: any) => Result<any, any> }
+      ? SafeModel<S>
+      : Model<S>;
@@ -1,7 +1,38 @@
 import type { Model, SafeModel } from './types.js';
 
-type BaseProp = 'schema' | 'is' | 'from' | 'cast' | 'safeFrom' | 'safeCast' | 'unsafeFrom' | 'unsafeCast';
-const baseProps = new Set(['schema', 'is', 'from', 'cast', 'safeFrom', 'safeCast', 'unsafeFrom', 'unsafeCast']);
+type BaseProp =
+  | 'schema'
+  | 'is'
+  | 'from'
+  | 'cast'
+  | 'safeFrom'
+  | 'safeCast'
+  | 'unsafeFrom'
+  | 'unsafeCast'
+  | 'isAsync'
+  | 'fromAsync'
+  | 'castAsync'
+  | 'safeFromAsync'
+  | 'safeCastAsync'
+  | 'unsafeFromAsync'
+  | 'unsafeCastAsync';
+const baseProps = new Set<string>([
+  'schema',
+  'is',
+  'from',
+  'cast',
+  'safeFrom',
+  'safeCast',
+  'unsafeFrom',
+  'unsafeCast',
+  'isAsync',
+  'fromAsync',
+  'castAsync',
+  'safeFromAsync',
+  'safeCastAsync',
+  'unsafeFromAsync',
+  'unsafeCastAsync',
+]);
 
 /**
  * Derives extensions from a given model.
@@ -46,3 +77,5 @@ export function derive<
     {} as Pick<M, K>,
   );
 }
+
+export type ModelExtensions<M> = Pick<M, Exclude<keyof M, BaseProp>>;
@@ -1,5 +1,8 @@
+import { createErrorCodecRegistry, deserializeResult, err, serializeResult } from '@uni-ts/result';
+import { type } from 'arktype';
 import { describe, expect, it } from 'vitest';
-import { ModelValidationError, prettifyError } from './error.js';
+import { ModelValidationError, modelValidationErrorCodec, prettifyError } from './error.js';
+import { createSafeModel } from './safe.js';
 import type { StandardSchemaV1 } from './standard-schema.js';
 
 describe('error.ts', () => {
@@ -77,6 +80,110 @@ describe('error.ts', () => {
     });
   });
 
+  describe('flatten', () => {
+    it('groups messages by the dot path of the field', () => {
+      const error = new ModelValidationError([
+        { message: 'Passwords do not match' },
+        { message: 'Invalid email', path: ['email'] },
+        { message: 'Email taken', path: [{ key: 'email' }] },
+        { message: 'Too short', path: ['tags', 0] },
+        { message: 'Required', path: ['address', 'city'] },
+      ]);
+
+      expect(error.flatten()).toEqual({
+        formErrors: ['Passwords do not match'],
+        fieldErrors: {
+          email: ['Invalid email', 'Email taken'],
+          'tags[0]': ['Too short'],
+          'address.city': ['Required'],
+        },
+      });
+    });
+
+    it('treats issues with an empty path as form errors', () => {
+      const error = new ModelValidationError([{ message: 'Invalid value', path: [] }]);
+
+      expect(error.flatten()).toEqual({ formErrors: ['Invalid value'], fieldErrors: {} });
+    });
+
+    it('uses stable keys for symbol and special path segments', () => {
+      const error = new ModelValidationError([
+        { message: 'Invalid id', path: [Symbol('id')] },
+        { message: 'Invalid header', path: ['headers', 'content-type'] },
+        { message: 'Invalid key', path: ['0'] },
+      ]);
+
+      expect(error.flatten().fieldErrors).toEqual({
+        '["Symbol(id)"]': ['Invalid id'],
+        'headers["content-type"]': ['Invalid header'],
+        '0': ['Invalid key'],
+      });
+    });
+  });
+
+  describe('untrusted keys', () => {
+    const Scores = createSafeModel(type({ '[string]': 'number' }));
+    const result = Scores.from(JSON.parse('{"__proto__":"x","constructor":"y"}'));
+    const error = result.success ? undefined : result.error;
+
+    it('groups messages of keys of Object.prototype', () => {
+      const { fieldErrors } = error?.flatten() ?? {};
+
+      expect(Object.entries(fieldErrors ?? {})).toEqual([
+        ['__proto__', [expect.any(String)]],
+        ['constructor', [expect.any(String)]],
+      ]);
+    });
+
+    it('builds a tree with keys of Object.prototype', () => {
+      const properties = error?.tree().properties;
+
+      expect(Object.entries(properties ?? {})).toEqual([
+        ['__proto__', { errors: [expect.any(String)] }],
+        ['constructor', { errors: [expect.any(String)] }],
+      ]);
+    });
+  });
+
+  describe('tree', () => {
+    it('builds a tree mirroring the shape of the value', () => {
+      const error = new ModelValidationError([
+        { message: 'Passwords do not match' },
+        { message: 'Invalid email', path: ['email'] },
+        { message: 'Too short', path: ['tags', 1] },
+        { message: 'Required', path: [{ key: 'address' }, { key: 'city' }] },
+        { message: 'Invalid', path: ['address', 'city'] },
+      ]);
+
+      expect(error.tree()).toEqual({
+        errors: ['Passwords do not match'],
+        properties: {
+          email: { errors: ['Invalid email'] },
+          tags: { errors: [], items: [undefined, { errors: ['Too short'] }] },
+          address: { errors: [], properties: { city: { errors: ['Required', 'Invalid'] } } },
+        },
+      });
+    });
+
+    it('keeps numeric and string keys apart', () => {
+      const error = new ModelValidationError([
+        { message: 'Invalid item', path: [0] },
+        { message: 'Invalid key', path: ['0'] },
+        { message: 'Invalid id', path: [Symbol('id')] },
+      ]);
+
+      expect(error.tree()).toEqual({
+        errors: [],
+        items: [{ errors: ['Invalid item'] }],
+        properties: { '0': { errors: ['Invalid key'] }, 'Symbol(id)': { errors: ['Invalid id'] } },
+      });
+    });
+
+    it('returns an empty root for no issues', () => {
+      expect(new ModelValidationError([]).tree()).toEqual({ errors: [] });
+    });
+  });
+
   describe('prettifyError', () => {
     it('formats single error without path', () => {
       const issues: StandardSchemaV1.Issue[] = [{ message: 'Root validation failed' }];
@@ -164,4 +271,25 @@ describe('error.ts', () => {
       expect(result).toBe('✖ Invalid value\n  → at parent.dynamicKey.child');
     });
   });
+
+  describe('modelValidationErrorCodec', () => {
+    it('allows ModelValidationError to round-trip through serialization', () => {
+      const registry = createErrorCodecRegistry([modelValidationErrorCodec]);
+      const error = new ModelValidationError([
+        { message: 'Invalid email', path: ['user', { key: 'emails' }, 0] },
+        { message: 'Required' },
+      ]);
+
+      const serialized = JSON.parse(JSON.stringify(serializeResult(err(error), registry)));
+      const result = deserializeResult(serialized, registry);
+      const restored = (result as { error: ModelValidationError }).error;
+
+      expect(restored).toBeInstanceOf(ModelValidationError);
+      expect(restored.issues).toEqual([
+        { message: 'Invalid email', path: ['user', 'emails', 0] },
+        { message: 'Required' },
+      ]);
+      expect(restored.message).toBe(error.message);
+    });
+  });
 });
@@ -1,3 +1,7 @@
+import type { ErrorCodec } from '@uni-ts/result';
+import type { ErrorFormatter } from './format.js';
+import { getDefaultErrorFormatter } from './format.js';
+import { expandIssues, toPropertyKey } from './helpers.js';
 import type { StandardSchemaV1 } from './standard-schema.js';
 
 /**
@@ -41,11 +45,16 @@ export class ModelValidationError extends Error {
    * Creates a new ModelValidationError with the provided validation issues.
    *
    * @param issues - Array of validation issues from the schema validation
+   * @param options - Configuration options for the error
+   * @param options.formatter - Optional formatter translating the issue messages (defaults to the one set with `setDefaultErrorFormatter`)
    */
-  constructor(issues: StandardSchemaV1.FailureResult['issues']) {
+  constructor(
+    issues: StandardSchemaV1.FailureResult['issues'],
+    { formatter = getDefaultErrorFormatter() }: { formatter?: ErrorFormatter } = {},
+  ) {
     super(
       JSON.stringify(
-        expandIssues(issues).map(({ message, dotPath }) => ({ message, path: dotPath })),
+        expandIssues(issues).map(({ issue, dotPath }) => ({ message: formatter.message(issue), path: dotPath })),
         null,
         2,
       ),
@@ -53,47 +62,220 @@ export class ModelValidationError extends Error {
     this.name = ModelValidationError.name;
     this.issues = issues;
   }
-}
 
-export function prettifyError(error: ModelValidationError): string {
-  const issues = expandIssues(error.issues);
+  /**
+   * Groups issue messages by the path of the invalid field, e.g. to display them next to form inputs.
+   * Issues without a path (concerning the whole value) are returned as `formErrors`.
+   *
+   * @param formatter - Optional formatter translating the issue messages (defaults to the one set with `setDefaultErrorFormatter`)
+   * @returns Messages of issues without a path and messages of the remaining issues grouped by their dot path
+   *
+   * @example
+   * ```typescript
+   * const error = new ModelValidationError([
+   *   { message: 'Passwords do not match' },
+   *   { message: 'Invalid email', path: ['email'] },
+   *   { message: 'Too short', path: ['tags', 0] },
+   * ]);
+   *
+   * error.flatten();
+   * // {
+   * //   formErrors: ['Passwords do not match'],
+   * //   fieldErrors: { email: ['Invalid email'], 'tags[0]': ['Too short'] },
+   * // }
+   * ```
+   */
+  flatten(formatter = getDefaultErrorFormatter()): FlattenedModelValidationError {
+    const formErrors: string[] = [];
+    const fieldErrors: Record<string, string[]> = Object.create(null);
+
+    for (const { issue, dotPath } of expandIssues(this.issues)) {
+      const message = formatter.message(issue);
 
-  const lines: string[] = [];
+      if (!dotPath) formErrors.push(message);
+      else if (Object.hasOwn(fieldErrors, dotPath)) fieldErrors[dotPath]?.push(message);
+      else fieldErrors[dotPath] = [message];
+    }
 
-  for (const { issue, dotPath } of issues) {
-    lines.push(`✖ ${issue.message}`);
-    if (dotPath) lines.push(`  → at ${dotPath}`);
+    return { formErrors, fieldErrors };
   }
 
-  return lines.join('\n');
-}
+  /**
+   * Builds a tree of issue messages mirroring the shape of the validated value.
+   * Object keys (including symbols converted to strings) are placed in `properties`
+   * and array indexes (numeric path segments) in `items`.
+   *
+   * @param formatter - Optional formatter translating the issue messages (defaults to the one set with `setDefaultErrorFormatter`)
+   * @returns The root node of the tree with messages of issues without a path in `errors`
+   *
+   * @example
+   * ```typescript
+   * const error = new ModelValidationError([
+   *   { message: 'Invalid email', path: ['email'] },
+   *   { message: 'Too short', path: ['tags', 1] },
+   * ]);
+   *
+   * error.tree();
+   * // {
+   * //   errors: [],
+   * //   properties: {
+   * //     email: { errors: ['Invalid email'] },
+   * //     tags: { errors: [], items: [undefined, { errors: ['Too short'] }] },
+   * //   },
+   * // }
+   * ```
+   */
+  tree(formatter = getDefaultErrorFormatter()): ModelValidationErrorTree {
+    const root: ModelValidationErrorTree = { errors: [] };
 
-function expandIssues(issues: StandardSchemaV1.FailureResult['issues']) {
-  return [...issues].map((issue) => {
-    const path = issue.path || [];
-    const message = issue.message;
-    const pathSegments = path.map(toPropertyKey);
-    const dotPath = toDotPath(pathSegments);
-    return { message, issue, path, pathSegments, dotPath };
-  });
-}
+    for (const { issue, pathSegments } of expandIssues(this.issues)) {
+      let node = root;
 
-function toDotPath(path: PropertyKey[]) {
-  const segments: string[] = [];
+      for (const segment of pathSegments) {
+        node = getTreeNode(node, segment);
+      }
 
-  for (const seg of path) {
-    if (typeof seg === 'number') segments.push(`[${seg}]`);
-    else if (typeof seg === 'symbol') segments.push(`[${JSON.stringify(String(seg))}]`);
-    else if (/[^\w$]/.test(seg)) segments.push(`[${JSON.stringify(seg)}]`);
-    else {
-      if (segments.length) segments.push('.');
-      segments.push(seg);
+      node.errors.push(formatter.message(issue));
     }
+
+    return root;
   }
+}
+
+/**
+ * Error thrown when the vendor of the model's schema isn't supported: by `toJSONSchema` when no converter
+ * is registered for the vendor, and by `partial` when the schema can't be made partial natively.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   toJSONSchema(User);
+ * } catch (ex) {
+ *   if (ex instanceof UnsupportedSchemaVendorError) {
+ *     console.error(`Register a JSON Schema converter for ${ex.vendor}`);
+ *   }
+ * }
+ * ```
+ */
+export class UnsupportedSchemaVendorError extends Error {
+  /**
+   * Used to distinguish this error from others with the same shape.
+   */
+  readonly type = 'UnsupportedSchemaVendorError';
+
+  /**
+   * Vendor of the schema (the `~standard.vendor` property) that isn't supported.
+   */
+  readonly vendor: string;
 
-  return segments.join('');
+  /**
+   * Creates a new UnsupportedSchemaVendorError for the given vendor.
+   *
+   * @param vendor - Vendor of the schema that isn't supported
+   * @param message - Message of the error (defaults to the missing JSON Schema converter)
+   */
+  constructor(vendor: string, message = `No JSON Schema converter registered for the "${vendor}" vendor`) {
+    super(message);
+    this.name = UnsupportedSchemaVendorError.name;
+    this.vendor = vendor;
+  }
 }
 
-function toPropertyKey(segment: StandardSchemaV1.PathSegment | PropertyKey): PropertyKey {
-  return typeof segment === 'object' ? segment.key : segment;
+/**
+ * Error codec that allows ModelValidationError to be sent across process and network boundaries
+ * with `serializeResult` and `deserializeResult` from `@uni-ts/result`.
+ *
+ * Issue messages and paths are preserved (symbol path keys are converted to strings).
+ *
+ * @example
+ * ```typescript
+ * import { createErrorCodecRegistry, deserializeResult, serializeResult } from '@uni-ts/result';
+ *
+ * const registry = createErrorCodecRegistry([modelValidationErrorCodec]);
+ *
+ * const serialized = serializeResult(Email.from('invalid'), registry);
+ * const result = deserializeResult(serialized, registry); // Err<ModelValidationError>
+ * ```
+ */
+export const modelValidationErrorCodec: ErrorCodec<
+  ModelValidationError,
+  { issues: { message: string; path?: (string | number)[] }[] }
+> = {
+  type: 'ModelValidationError',
+  is: (error) => error instanceof ModelValidationError,
+  encode: (error) => ({
+    issues: error.issues.map(({ message, path }) =>
+      path
+        ? { message, path: path.map(toPropertyKey).map((key) => (typeof key === 'symbol' ? String(key) : key)) }
+        : { message },
+    ),
+  }),
+  decode: ({ issues }) => new ModelValidationError(issues),
+};
+
+/**
+ * Renders the issues of the error as human-readable text, e.g. to log them or show them in a CLI.
+ *
+ * @param error - The error to render
+ * @param formatter - Optional formatter translating the messages and choosing the output format (plain text, Markdown or ANSI)
+ * @returns The rendered issues
+ *
+ * @example
+ * ```typescript
+ * prettifyError(new ModelValidationError([{ message: 'Invalid email', path: ['email'] }]));
+ * // ✖ Invalid email
+ * //   → at email
+ * ```
+ */
+export function prettifyError(error: ModelValidationError, formatter = getDefaultErrorFormatter()): string {
+  return formatter.format(error);
 }
+
+function getTreeNode(parent: ModelValidationErrorTree, segment: PropertyKey): ModelValidationErrorTree {
+  if (typeof segment === 'number') {
+    const items = parent.items ?? [];
+    const node = items[segment] ?? { errors: [] };
+    items[segment] = node;
+    parent.items = items;
+    return node;
+  }
+
+  const key = String(segment);
+  const properties: Record<string, ModelValidationErrorTree> = parent.properties ?? Object.create(null);
+  const node = Object.hasOwn(properties, key) ? (properties[key] as ModelValidationErrorTree) : { errors: [] };
+  properties[key] = node;
+  parent.properties = properties;
+  return node;
+}
+
+/**
+ * Issue messages returned by `ModelValidationError.flatten()`.
+ */
+export type FlattenedModelValidationError = {
+  /**
+   * Messages of issues concerning the whole value (without a path).
+   */
+  formErrors: string[];
+  /**
+   * Messages of the remaining issues grouped by their dot path (e.g. `address.city` or `tags[0]`).
+   */
+  fieldErrors: Record<string, string[]>;
+};
+
+/**
+ * Node of the tree returned by `ModelValidationError.tree()`.
+ */
+export type ModelValidationErrorTree = {
+  /**
+   * Messages of issues concerning the value at this node.
+   */
+  errors: string[];
+  /**
+   * Nodes of the object properties with issues.
+   */
+  properties?: Record<string, ModelValidationErrorTree>;
+  /**
+   * Nodes of the array items with issues (items without issues are left empty).
+   */
+  items?: (ModelValidationErrorTree | undefined)[];
+};
@@ -0,0 +1,164 @@
+import type { Err } from '@uni-ts/result';
+import { afterEach, describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { ModelValidationError, prettifyError } from './error.js';
+import { createErrorFormatter, getDefaultErrorFormatter, setDefaultErrorFormatter } from './format.js';
+import { createSafeModel } from './safe.js';
+
+describe('format.ts', () => {
+  const messages = {
+    de: {
+      at: 'bei',
+      codes: { too_small: 'Muss mindestens {minimum} Zeichen lang sein' },
+      paths: { email: 'Bitte gib eine gültige E-Mail-Adresse ein' },
+    },
+  };
+
+  const error = new ModelValidationError([
+    { message: 'Too short', path: ['name'], code: 'too_small', minimum: 2 } as never,
+    { message: 'Invalid email', path: ['email'] },
+    { message: 'Invalid input' },
+  ]);
+
+  describe('createErrorFormatter', () => {
+    it('translates messages by path first and by code second', () => {
+      const formatter = createErrorFormatter({ locale: 'de', messages });
+
+      expect(formatter.locale).toBe('de');
+      expect(prettifyError(error, formatter)).toBe(
+        [
+          '✖ Muss mindestens 2 Zeichen lang sein',
+          '  → bei name',
+          '✖ Bitte gib eine gültige E-Mail-Adresse ein',
+          '  → bei email',
+          '✖ Invalid input',
+        ].join('\n'),
+      );
+    });
+
+    it('uses the messages of the language for regional locales', () => {
+      const formatter = createErrorFormatter({ locale: 'de-AT', messages });
+
+      expect(formatter.message({ message: 'Invalid email', path: ['email'] })).toBe(
+        'Bitte gib eine gültige E-Mail-Adresse ein',
+      );
+    });
+
+    it('falls back to the message of the issue', () => {
+      const formatter = createErrorFormatter({ locale: 'fr', messages });
+
+      expect(prettifyError(error, formatter)).toBe(prettifyError(error));
+    });
+
+    it('supports template functions and keeps unknown placeholders', () => {
+      const formatter = createErrorFormatter({
+        messages: {
+          en: {
+            codes: { too_small: ({ path, minimum }) => `${path} needs ${minimum}+ characters` },
+            paths: { email: '{message} ({unknown})' },
+          },
+        },
+      });
+
+      expect(error.flatten(formatter).fieldErrors).toEqual({
+        name: ['name needs 2+ characters'],
+        email: ['Invalid email ({unknown})'],
+      });
+    });
+
+    it('falls back to the message of the issue when a template function throws', () => {
+      const formatter = createErrorFormatter({
+        messages: {
+          en: {
+            paths: {
+              email: () => {
+                throw new Error('Broken template');
+              },
+            },
+          },
+        },
+      });
+
+      expect(formatter.message({ message: 'Invalid email', path: ['email'] })).toBe('Invalid email');
+    });
+
+    it('reads codes of issues returned by the schema', () => {
+      const User = createSafeModel(z.object({ name: z.string().min(2) }));
+      const formatter = createErrorFormatter({ locale: 'de', messages });
+
+      const result = User.from({ name: 'J' });
+
+      expect((result as Err<ModelValidationError>).error.tree(formatter)).toEqual({
+        errors: [],
+        properties: { name: { errors: ['Muss mindestens 2 Zeichen lang sein'] } },
+      });
+    });
+
+    it('renders issues as Markdown', () => {
+      const formatter = createErrorFormatter({ locale: 'de', messages, output: 'markdown' });
+
+      expect(prettifyError(error, formatter)).toBe(
+        [
+          '- Muss mindestens 2 Zeichen lang sein _(bei `name`)_',
+          '- Bitte gib eine gültige E-Mail-Adresse ein _(bei `email`)_',
+          '- Invalid input',
+        ].join('\n'),
+      );
+    });
+
+    it('renders issues with ANSI colors', () => {
+      const formatter = createErrorFormatter({ output: 'ansi' });
+
+      expect(prettifyError(new ModelValidationError([{ message: 'Required', path: ['a', 0] }]), formatter)).toBe(
+        '\x1b[31m✖\x1b[0m Required\n  \x1b[2m→ at\x1b[0m \x1b[36ma[0]\x1b[0m',
+      );
+    });
+  });
+
+  describe('setDefaultErrorFormatter', () => {
+    afterEach(() => {
+      setDefaultErrorFormatter(createErrorFormatter());
+    });
+
+    it('replaces the formatter returned by getDefaultErrorFormatter', () => {
+      const formatter = createErrorFormatter({ locale: 'de', messages });
+
+      setDefaultErrorFormatter(formatter);
+
+      expect(getDefaultErrorFormatter()).toBe(formatter);
+    });
+
+    it('translates messages of errors created afterwards', () => {
+      setDefaultErrorFormatter(createErrorFormatter({ locale: 'de', messages }));
+
+      const translated = new ModelValidationError([{ message: 'Invalid email', path: ['email'] }]);
+
+      expect(JSON.parse(translated.message)).toEqual([
+        { message: 'Bitte gib eine gültige E-Mail-Adresse ein', path: 'email' },
+      ]);
+      expect(translated.issues[0]?.message).toBe('Invalid email');
+      expect(prettifyError(translated)).toBe('✖ Bitte gib eine gültige E-Mail-Adresse ein\n  → bei email');
+    });
+
+    it('creates errors with throwing templates of the default formatter', () => {
+      setDefaultErrorFormatter(
+        createErrorFormatter({
+          messages: {
+            en: {
+              codes: {
+                custom: () => {
+                  throw new Error('Broken template');
+                },
+              },
+            },
+          },
+        }),
+      );
+
+      const created = new ModelValidationError([{ message: 'Invalid input', code: 'custom' } as never]);
+
+      expect(JSON.parse(created.message)).toEqual([{ message: 'Invalid input', path: '' }]);
+      expect(getDefaultErrorFormatter().message(created.issues[0] as never)).toBe('Invalid input');
+    });
+  });
+});
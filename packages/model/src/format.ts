@@ -0,0 +1,218 @@
+import type { ModelValidationError } from './error.js';
+import { expandIssues, toDotPath, toPropertyKey } from './helpers.js';
+import type { StandardSchemaV1 } from './standard-schema.js';
+
+const ansi = { red: '\x1b[31m', cyan: '\x1b[36m', dim: '\x1b[2m', reset: '\x1b[0m' };
+
+/**
+ * Creates a formatter translating validation issues into messages of the given locale
+ * and rendering them as plain text, Markdown or ANSI-colored terminal output.
+ *
+ * Messages are looked up by the dot path of the issue first and by its code second (the `code` property
+ * set by Zod and ArkType or the `type` property set by Valibot), falling back to the message from the schema.
+ * Templates can reference `{message}`, `{path}`, `{code}` and any primitive property of the issue (e.g. `{minimum}`).
+ * When there are no messages for a regional locale (e.g. `de-AT`), the ones for its language (`de`) are used.
+ *
+ * @param options - Configuration options for the formatter
+ * @param options.locale - Optional locale of the messages (defaults to `en`)
+ * @param options.messages - Optional message templates grouped by locale
+ * @param options.output - Optional output format of `format` (defaults to `plain`)
+ * @returns An error formatter that can be passed to `prettifyError` or set as the default one
+ *
+ * @example
+ * ```typescript
+ * const formatter = createErrorFormatter({
+ *   locale: 'de',
+ *   output: 'markdown',
+ *   messages: {
+ *     de: {
+ *       at: 'bei',
+ *       codes: { too_small: 'Muss mindestens {minimum} Zeichen lang sein' },
+ *       paths: { email: 'Bitte gib eine gültige E-Mail-Adresse ein' },
+ *     },
+ *   },
+ * });
+ *
+ * const result = User.safeFrom({ name: 'J', email: 'invalid' });
+ *
+ * if (isErr(result)) {
+ *   prettifyError(result.error, formatter);
+ *   // - Muss mindestens 2 Zeichen lang sein _(bei `name`)_
+ *   // - Bitte gib eine gültige E-Mail-Adresse ein _(bei `email`)_
+ * }
+ * ```
+ */
+export function createErrorFormatter({
+  locale = 'en',
+  messages = {},
+  output = 'plain',
+}: ErrorFormatterOptions = {}): ErrorFormatter {
+  const localeMessages = messages[locale] ?? messages[locale.split('-')[0] ?? locale] ?? {};
+  const at = localeMessages.at ?? 'at';
+
+  const translate = (issue: StandardSchemaV1.Issue, dotPath: string) => {
+    const code = getIssueCode(issue);
+    const template = (dotPath && localeMessages.paths?.[dotPath]) || (code && localeMessages.codes?.[code]);
+
+    if (!template) return issue.message;
+
+    const params: Record<string, unknown> & { message: string; path: string; code: string | undefined } = {
+      ...issue,
+      message: issue.message,
+      path: dotPath,
+      code,
+    };
+    if (typeof template === 'string') {
+      return template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+        const value = params[key];
+        return isPrimitive(value) ? String(value) : placeholder;
+      });
+    }
+
+    try {
+      return template(params);
+    } catch {
+      // A broken template must not prevent reporting the validation error itself
+      return issue.message;
+    }
+  };
+
+  const render = ({ message, dotPath }: { message: string; dotPath: string }) => {
+    switch (output) {
+      case 'markdown':
+        return dotPath ? `- ${message} _(${at} \`${dotPath}\`)_` : `- ${message}`;
+      case 'ansi':
+        return dotPath
+          ? `${ansi.red}✖${ansi.reset} ${message}\n  ${ansi.dim}→ ${at}${ansi.reset} ${ansi.cyan}${dotPath}${ansi.reset}`
+          : `${ansi.red}✖${ansi.reset} ${message}`;
+      default:
+        return dotPath ? `✖ ${message}\n  → ${at} ${dotPath}` : `✖ ${message}`;
+    }
+  };
+
+  return {
+    locale,
+    message: (issue) => translate(issue, toDotPath((issue.path ?? []).map(toPropertyKey))),
+    format: (error) =>
+      expandIssues(error.issues)
+        .map(({ issue, dotPath }) => render({ message: translate(issue, dotPath), dotPath }))
+        .join('\n'),
+  };
+}
+
+let defaultFormatter = createErrorFormatter();
+
+/**
+ * Sets the formatter used for messages of `ModelValidationError` created from now on
+ * and by `prettifyError`, `flatten()` and `tree()` when no formatter is passed.
+ *
+ * @param formatter - The formatter created with `createErrorFormatter`
+ *
+ * @example
+ * ```typescript
+ * setDefaultErrorFormatter(createErrorFormatter({ locale: 'de', messages }));
+ *
+ * User.from({ name: '' }); // throws ModelValidationError with German messages
+ * ```
+ */
+export function setDefaultErrorFormatter(formatter: ErrorFormatter): void {
+  defaultFormatter = formatter;
+}
+
+/**
+ * Returns the formatter used when no formatter is passed explicitly, i.e. the one set with `setDefaultErrorFormatter`
+ * or a plain text formatter using the messages from the schema when no formatter was set.
+ *
+ * @returns The current default formatter
+ *
+ * @example
+ * ```typescript
+ * const formatter = getDefaultErrorFormatter();
+ *
+ * formatter.locale; // 'en'
+ * formatter.format(error); // same as prettifyError(error)
+ * ```
+ */
+export function getDefaultErrorFormatter(): ErrorFormatter {
+  return defaultFormatter;
+}
+
+function getIssueCode(issue: StandardSchemaV1.Issue): string | undefined {
+  const { code, type } = issue as { code?: unknown; type?: unknown };
+
+  if (typeof code === 'string') return code;
+  if (typeof type === 'string') return type;
+
+  return undefined;
+}
+
+function isPrimitive(value: unknown): value is string | number | boolean | bigint {
+  return ['string', 'number', 'boolean', 'bigint'].includes(typeof value);
+}
+
+/**
+ * Output format of `ErrorFormatter.format`:
+ * - `plain` - text with `✖` before every message and `→ at` before its path
+ * - `markdown` - list with a single item for every issue
+ * - `ansi` - the plain text colored with ANSI escape codes for terminals
+ */
+export type ErrorOutputFormat = 'plain' | 'markdown' | 'ansi';
+
+/**
+ * Message template: a string with `{placeholders}` or a function returning the message.
+ * Functions receive the issue with its dot path, code and any vendor-specific properties (e.g. `minimum`).
+ * When a function throws, the message of the issue is used instead.
+ */
+export type ErrorMessageTemplate =
+  | string
+  | ((
+      issue: Omit<StandardSchemaV1.Issue, 'path'> & { path: string; code: string | undefined; [key: string]: unknown },
+    ) => string);
+
+/**
+ * Messages of a single locale.
+ */
+export type ErrorMessages = {
+  /**
+   * Label placed before the path of the issue (`at` by default).
+   */
+  at?: string;
+  /**
+   * Templates used for issues with the given code (e.g. `too_small`).
+   */
+  codes?: Record<string, ErrorMessageTemplate>;
+  /**
+   * Templates used for issues at the given dot path (e.g. `address.city` or `tags[0]`). They take precedence over codes.
+   */
+  paths?: Record<string, ErrorMessageTemplate>;
+};
+
+export type ErrorFormatterOptions = {
+  locale?: string;
+  messages?: Record<string, ErrorMessages>;
+  output?: ErrorOutputFormat;
+};
+
+/**
+ * Formatter created with `createErrorFormatter`.
+ */
+export interface ErrorFormatter {
+  /**
+   * Locale of the messages.
+   */
+  readonly locale: string;
+  /**
+   * Returns the translated message of the issue.
+   *
+   * @param issue - The validation issue
+   * @returns The message from the matching template or the message of the issue
+   */
+  message(issue: StandardSchemaV1.Issue): string;
+  /**
+   * Renders all issues of the error in the output format of the formatter.
+   *
+   * @param error - The error to render
+   * @returns The rendered issues, one per line (or two for issues with a path in plain and ANSI formats)
+   */
+  format(error: ModelValidationError): string;
+}
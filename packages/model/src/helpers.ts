@@ -7,12 +7,21 @@ export function getSyncValidationResult<S extends StandardSchemaV1, V>(
   const result = schema['~standard'].validate(value);
 
   if (result instanceof Promise) {
-    throw new TypeError('Schema validation must be synchronous');
+    throw new TypeError(
+      'Schema validation must be synchronous (use isAsync, fromAsync or castAsync for async schemas)',
+    );
   }
 
   return result;
 }
 
+export async function getAsyncValidationResult<S extends StandardSchemaV1, V>(
+  schema: S,
+  value: V,
+): Promise<StandardSchemaV1.Result<StandardSchemaV1.InferOutput<S>>> {
+  return schema['~standard'].validate(value);
+}
+
 export function oneOf<const T extends unknown[]>(...values: T): T[number] {
   return values[Math.floor(Math.random() * values.length)];
 }
@@ -21,6 +30,57 @@ export function merge<const T, const E>(model: T, extend: E): Merge<T, E> {
   return { ...model, ...extend } as Merge<T, E>;
 }
 
+const modelFactories = new WeakMap<object, ModelFactory>();
+
+export function withFactory<const M extends object>(model: M, factory: ModelFactory): M {
+  modelFactories.set(model, factory);
+  return model;
+}
+
+export function getFactory(model: object): ModelFactory {
+  const factory = modelFactories.get(model);
+
+  if (!factory) {
+    throw new TypeError(
+      'Model must be created with createModel, createSafeModel, createSafeFirstModel or createUnsafeFirstModel',
+    );
+  }
+
+  return factory;
+}
+
+export function expandIssues(issues: StandardSchemaV1.FailureResult['issues']) {
+  return [...issues].map((issue) => {
+    const path = issue.path || [];
+    const message = issue.message;
+    const pathSegments = path.map(toPropertyKey);
+    const dotPath = toDotPath(pathSegments);
+    return { message, issue, path, pathSegments, dotPath };
+  });
+}
+
+export function toDotPath(path: PropertyKey[]) {
+  const segments: string[] = [];
+
+  for (const seg of path) {
+    if (typeof seg === 'number') segments.push(`[${seg}]`);
+    else if (typeof seg === 'symbol') segments.push(`[${JSON.stringify(String(seg))}]`);
+    else if (/[^\w$]/.test(seg)) segments.push(`[${JSON.stringify(seg)}]`);
+    else {
+      if (segments.length) segments.push('.');
+      segments.push(seg);
+    }
+  }
+
+  return segments.join('');
+}
+
+export function toPropertyKey(segment: StandardSchemaV1.PathSegment | PropertyKey): PropertyKey {
+  return typeof segment === 'object' ? segment.key : segment;
+}
+
+type ModelFactory = (schema: StandardSchemaV1, extend?: Record<PropertyKey, unknown>) => object;
+
 type Simplify<T> = { [KeyType in keyof T]: T[KeyType] } & {};
 
 export type Merge<Destination, Source> = Simplify<
@@ -223,6 +223,45 @@ describe('index.ts', () => {
       });
     });
 
+    describe('async', () => {
+      const Username = createModel(
+        oneOf(
+          z.string().refine(async (name) => name !== 'taken'),
+          v.pipeAsync(
+            v.string(),
+            v.checkAsync(async (name) => name !== 'taken'),
+          ),
+        ),
+      );
+
+      it('checks values against async schemas with isAsync', async () => {
+        expect(await Username.isAsync('john')).toBe(true);
+        expect(await Username.isAsync('taken')).toBe(false);
+        expect(await Username.isAsync(123)).toBe(false);
+        expect(await Email.isAsync('correct@email.com')).toBe(true);
+      });
+
+      it('validates values against async schemas with fromAsync', async () => {
+        const username = Username.fromAsync('john');
+        expect(await username).toBe('john');
+        expectTypeOf(username).toEqualTypeOf<Promise<string>>();
+
+        await expect(Username.fromAsync('taken')).rejects.toThrow(ModelValidationError);
+      });
+
+      it('validates unknown values against async schemas with castAsync', async () => {
+        expect(await Username.castAsync('john')).toBe('john');
+        await expect(Username.castAsync(123)).rejects.toThrow(ModelValidationError);
+      });
+
+      it('supports sync schemas', async () => {
+        const email = Email.fromAsync('correct@email.com');
+        expect(await email).toBe('correct@email.com');
+        expectTypeOf(email).toEqualTypeOf<Promise<Email>>();
+        await expect(Email.castAsync('incorrect-email')).rejects.toThrow(ModelValidationError);
+      });
+    });
+
     describe('extend', () => {
       it('extends the model with additional properties', () => {
         const baseModel = createModel(nonEmptyStringSchema);
@@ -1,5 +1,5 @@
 import { ModelValidationError } from './error.js';
-import { getSyncValidationResult, type Merge, merge } from './helpers.js';
+import { getAsyncValidationResult, getSyncValidationResult, type Merge, merge, withFactory } from './helpers.js';
 import type { StandardSchemaV1 } from './standard-schema.js';
 import type { Model } from './types.js';
 
@@ -28,6 +28,17 @@ import type { Model } from './types.js';
  * ```typescript
  * import { z } from 'zod';
  *
+ * const NewUser = createModel(z.object({
+ *   email: z.string().email().refine(async (email) => !(await db.users.exists(email)), 'Email taken'),
+ * }));
+ *
+ * const user = await NewUser.fromAsync({ email: 'john@example.com' }); // Promise<NewUser>
+ * ```
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ *
  * type Email = InferModelOutput<typeof Email>; // string & z.$brand<'Email'>
  * const Email = createModel(z.string().email().brand('Email'));
  *
@@ -40,14 +51,21 @@ export function createModel<S extends StandardSchemaV1, const E extends Record<P
   schema: S,
   extend?: E,
 ): Merge<Model<S>, E> {
-  return merge(
-    {
-      schema,
-      is: (value: unknown): value is StandardSchemaV1.InferOutput<S> => !getSyncValidationResult(schema, value).issues,
-      from: (value: StandardSchemaV1.InferInput<S>) => validate(schema, value),
-      cast: (value: unknown) => validate(schema, value),
-    },
-    extend,
+  return withFactory(
+    merge(
+      {
+        schema,
+        is: (value: unknown): value is StandardSchemaV1.InferOutput<S> =>
+          !getSyncValidationResult(schema, value).issues,
+        from: (value: StandardSchemaV1.InferInput<S>) => validate(schema, value),
+        cast: (value: unknown) => validate(schema, value),
+        isAsync: async (value: unknown) => !(await getAsyncValidationResult(schema, value)).issues,
+        fromAsync: (value: StandardSchemaV1.InferInput<S>) => validateAsync(schema, value),
+        castAsync: (value: unknown) => validateAsync(schema, value),
+      },
+      extend,
+    ),
+    createModel,
   );
 }
 
@@ -61,6 +79,42 @@ export function validate<S extends StandardSchemaV1>(schema: S, value: unknown):
   return result.value;
 }
 
+export async function validateAsync<S extends StandardSchemaV1>(
+  schema: S,
+  value: unknown,
+): Promise<StandardSchemaV1.InferOutput<S>> {
+  const result = await getAsyncValidationResult(schema, value);
+
+  if (result.issues) {
+    throw new ModelValidationError(result.issues);
+  }
+
+  return result.value;
+}
+
+export { extend, omit, partial, pick } from './compose.js';
 export { derive } from './derive.js';
-export { ModelValidationError, prettifyError } from './error.js';
+export type { FlattenedModelValidationError, ModelValidationErrorTree } from './error.js';
+export {
+  ModelValidationError,
+  modelValidationErrorCodec,
+  prettifyError,
+  UnsupportedSchemaVendorError,
+} from './error.js';
+export type {
+  ErrorFormatter,
+  ErrorFormatterOptions,
+  ErrorMessages,
+  ErrorMessageTemplate,
+  ErrorOutputFormat,
+} from './format.js';
+export { createErrorFormatter, getDefaultErrorFormatter, setDefaultErrorFormatter } from './format.js';
+export type { JSONSchema, JSONSchemaConverter, JSONSchemaRegistry } from './json-schema.js';
+export {
+  arktypeJSONSchemaConverter,
+  createJSONSchemaRegistry,
+  toJSONSchema,
+  valibotJSONSchemaConverter,
+  zodJSONSchemaConverter,
+} from './json-schema.js';
 export type { InferModelInput, InferModelOutput, Model } from './types.js';
@@ -0,0 +1,130 @@
+import { type } from 'arktype';
+import * as v from 'valibot';
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { extend, omit, partial, pick } from './compose.js';
+import { UnsupportedSchemaVendorError } from './error.js';
+import { createModel } from './index.js';
+import {
+  createJSONSchemaRegistry,
+  toJSONSchema,
+  valibotJSONSchemaConverter,
+  zodJSONSchemaConverter,
+} from './json-schema.js';
+import { createSafeModel } from './safe.js';
+
+describe('json-schema.ts', () => {
+  const userJSONSchema = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    type: 'object',
+    properties: { name: { type: 'string' } },
+    required: ['name'],
+  };
+
+  describe('toJSONSchema', () => {
+    it('converts ArkType models out of the box', () => {
+      const User = createModel(type({ name: 'string' }));
+
+      expect(toJSONSchema(User)).toEqual(userJSONSchema);
+    });
+
+    it('converts Zod models with the Zod converter', () => {
+      const registry = createJSONSchemaRegistry([zodJSONSchemaConverter(z.toJSONSchema)]);
+      const User = createSafeModel(z.object({ name: z.string() }));
+
+      expect(toJSONSchema(User, { registry })).toEqual({ ...userJSONSchema, additionalProperties: false });
+    });
+
+    it('converts Valibot models with the Valibot converter', () => {
+      const toJsonSchema = vi.fn((_schema: unknown, _config?: { target?: 'draft-2020-12' }) => ({ type: 'string' }));
+      const registry = createJSONSchemaRegistry([valibotJSONSchemaConverter(toJsonSchema)]);
+      const schema = v.string();
+      const Name = createModel(schema);
+
+      expect(toJSONSchema(Name, { registry })).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'string',
+      });
+      expect(toJsonSchema).toHaveBeenCalledWith(schema, { target: 'draft-2020-12' });
+    });
+
+    it('accepts schemas directly', () => {
+      expect(toJSONSchema(type({ name: 'string' }))).toEqual(userJSONSchema);
+    });
+
+    it('converts composed models with the JSON Schemas of their source models', () => {
+      const registry = createJSONSchemaRegistry([zodJSONSchemaConverter(z.toJSONSchema)]);
+      const User = createModel(z.object({ name: z.string(), email: z.string() }));
+      const Timestamps = createModel(type({ createdAt: 'string' }));
+
+      expect(toJSONSchema(pick(User, ['name']), { registry })).toEqual({
+        ...userJSONSchema,
+        additionalProperties: false,
+      });
+      expect(toJSONSchema(omit(User, ['email']), { registry })).toEqual({
+        ...userJSONSchema,
+        additionalProperties: false,
+      });
+      expect(toJSONSchema(pick(partial(User), ['name']), { registry })).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: { name: { type: 'string' } },
+        additionalProperties: false,
+      });
+      expect(toJSONSchema(extend(User, Timestamps), { registry })).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        properties: { name: { type: 'string' }, email: { type: 'string' }, createdAt: { type: 'string' } },
+        required: ['name', 'email', 'createdAt'],
+        additionalProperties: false,
+      });
+    });
+
+    it('throws UnsupportedSchemaVendorError for vendors without a converter', () => {
+      const User = createModel(z.object({ name: z.string() }));
+
+      expect(() => toJSONSchema(User)).toThrow(UnsupportedSchemaVendorError);
+      expect(() => toJSONSchema(User)).toThrow('No JSON Schema converter registered for the "zod" vendor');
+      expect(() => toJSONSchema(v.string())).toThrow(expect.objectContaining({ vendor: 'valibot' }));
+    });
+  });
+
+  describe('createJSONSchemaRegistry', () => {
+    it('allows to register converters for custom vendors', () => {
+      const schema = {
+        '~standard': { version: 1, vendor: 'custom', validate: (value: unknown) => ({ value }) },
+        describe: () => ({ type: 'number' }),
+      } as const;
+      const registry = createJSONSchemaRegistry().register({
+        vendor: 'custom',
+        convert: (s: typeof schema) => s.describe(),
+      });
+
+      const Amount = createModel(schema);
+
+      expect(registry.has('custom')).toBe(true);
+      expect(toJSONSchema(Amount, { registry })).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'number',
+      });
+    });
+
+    it('replaces converters registered for the same vendor', () => {
+      const registry = createJSONSchemaRegistry().register({ vendor: 'arktype', convert: () => ({ type: 'null' }) });
+
+      expect(registry.convert(type('null'))).toEqual({
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'null',
+      });
+    });
+
+    it('keeps the $schema returned by the converter', () => {
+      const registry = createJSONSchemaRegistry([
+        { vendor: 'zod', convert: () => ({ $schema: 'http://json-schema.org/draft-07/schema#' }) },
+      ]);
+
+      expect(registry.convert(z.string())).toEqual({ $schema: 'http://json-schema.org/draft-07/schema#' });
+      expect(registry.has('valibot')).toBe(false);
+    });
+  });
+});
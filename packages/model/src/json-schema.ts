@@ -0,0 +1,223 @@
+import { convertComposedSchema } from './compose.js';
+import { UnsupportedSchemaVendorError } from './error.js';
+import type { StandardSchemaV1 } from './standard-schema.js';
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * JSON Schema converter for ArkType schemas, which use their built-in `toJsonSchema` method.
+ * It's included in every registry created with `createJSONSchemaRegistry`.
+ */
+export const arktypeJSONSchemaConverter: JSONSchemaConverter<{ toJsonSchema: () => object }> = {
+  vendor: 'arktype',
+  convert: (schema) => schema.toJsonSchema(),
+};
+
+/**
+ * Creates a JSON Schema converter for Zod schemas.
+ * Zod isn't a dependency of this package, so its `toJSONSchema` function has to be passed explicitly.
+ *
+ * @param toJSONSchema - The `z.toJSONSchema` function from Zod 4
+ * @returns A converter that can be added to the registry created with `createJSONSchemaRegistry`
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ *
+ * const registry = createJSONSchemaRegistry([zodJSONSchemaConverter(z.toJSONSchema)]);
+ * ```
+ */
+export function zodJSONSchemaConverter(
+  toJSONSchema: (schema: any, params?: { target?: 'draft-2020-12' }) => object,
+): JSONSchemaConverter {
+  return {
+    vendor: 'zod',
+    convert: (schema) => toJSONSchema(schema, { target: 'draft-2020-12' }),
+  };
+}
+
+/**
+ * Creates a JSON Schema converter for Valibot schemas.
+ * Valibot converts schemas with a separate package, so its `toJsonSchema` function has to be passed explicitly
+ * (use a version of `@valibot/to-json-schema` that supports the `draft-2020-12` target).
+ *
+ * @param toJsonSchema - The `toJsonSchema` function from `@valibot/to-json-schema`
+ * @returns A converter that can be added to the registry created with `createJSONSchemaRegistry`
+ *
+ * @example
+ * ```typescript
+ * import { toJsonSchema } from '@valibot/to-json-schema';
+ *
+ * const registry = createJSONSchemaRegistry([valibotJSONSchemaConverter(toJsonSchema)]);
+ * ```
+ */
+export function valibotJSONSchemaConverter(
+  toJsonSchema: (schema: any, config?: { target?: 'draft-2020-12' }) => object,
+): JSONSchemaConverter {
+  return {
+    vendor: 'valibot',
+    convert: (schema) => toJsonSchema(schema, { target: 'draft-2020-12' }),
+  };
+}
+
+/**
+ * Creates a registry of converters used by `toJSONSchema` to convert schemas of different vendors.
+ * Converters are matched by the `~standard.vendor` property of the schema. The ArkType converter is always included,
+ * and converters registered later replace the earlier ones for the same vendor.
+ *
+ * @param converters - Initial converters
+ * @returns A registry that can be extended with additional converters
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ *
+ * const registry = createJSONSchemaRegistry([zodJSONSchemaConverter(z.toJSONSchema)]).register({
+ *   vendor: 'my-validator',
+ *   convert: (schema) => schema.describe(),
+ * });
+ *
+ * toJSONSchema(User, { registry });
+ * ```
+ */
+export function createJSONSchemaRegistry(converters: JSONSchemaConverter[] = []): JSONSchemaRegistry {
+  const registered = new Map<string, JSONSchemaConverter>([
+    [arktypeJSONSchemaConverter.vendor, arktypeJSONSchemaConverter],
+  ]);
+
+  const registry: JSONSchemaRegistry = {
+    register(converter) {
+      registered.set(converter.vendor, converter);
+      return registry;
+    },
+    has(vendor) {
+      return registered.has(vendor);
+    },
+    convert(schema) {
+      const composed = convertComposedSchema(schema, (source) => {
+        const converted = { ...registry.convert(source) };
+        delete converted.$schema;
+        return converted;
+      });
+
+      if (composed) return { $schema: JSON_SCHEMA_DIALECT, ...composed };
+
+      const { vendor } = schema['~standard'];
+      const converter = registered.get(vendor);
+
+      if (!converter) throw new UnsupportedSchemaVendorError(vendor);
+
+      return { $schema: JSON_SCHEMA_DIALECT, ...converter.convert(schema) };
+    },
+  };
+
+  for (const converter of converters) registry.register(converter);
+
+  return registry;
+}
+
+const defaultRegistry = createJSONSchemaRegistry();
+
+/**
+ * Converts the model (or its schema) into a JSON Schema (draft 2020-12), e.g. to publish OpenAPI documents
+ * or tool definitions for LLMs.
+ *
+ * The conversion is delegated to the converter registered for the vendor of the schema.
+ * ArkType schemas are supported out of the box, while Zod and Valibot require adding their converters
+ * with `zodJSONSchemaConverter` and `valibotJSONSchemaConverter` to a custom registry.
+ * Models created with `pick`, `omit` and `extend` are converted by adjusting the JSON Schemas
+ * of their source models, so the registry has to support the vendors of the source models.
+ *
+ * @param model - The model created with any of the model factories (or a Standard Schema compatible schema)
+ * @param options - Configuration options for the conversion
+ * @param options.registry - Optional registry of converters (defaults to the one supporting ArkType only)
+ * @returns The JSON Schema describing the model
+ * @throws {UnsupportedSchemaVendorError} When no converter is registered for the vendor of the schema
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod';
+ *
+ * const registry = createJSONSchemaRegistry([zodJSONSchemaConverter(z.toJSONSchema)]);
+ *
+ * const User = createModel(z.object({
+ *   name: z.string().min(1),
+ *   email: z.string().email(),
+ * }));
+ *
+ * toJSONSchema(User, { registry });
+ * // {
+ * //   $schema: 'https://json-schema.org/draft/2020-12/schema',
+ * //   type: 'object',
+ * //   properties: { name: { type: 'string', minLength: 1 }, email: { type: 'string', format: 'email', ... } },
+ * //   required: ['name', 'email'],
+ * //   additionalProperties: false,
+ * // }
+ * ```
+ */
+export function toJSONSchema(
+  model: { schema: StandardSchemaV1 } | StandardSchemaV1,
+  { registry = defaultRegistry }: { registry?: JSONSchemaRegistry } = {},
+): JSONSchema {
+  return registry.convert('~standard' in model ? model : model.schema);
+}
+
+/**
+ * JSON Schema object produced by `toJSONSchema`.
+ */
+export type JSONSchema = {
+  $schema?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * Describes how to convert schemas of a specific vendor into JSON Schema.
+ *
+ * @template S - The type of the schemas handled by the converter
+ *
+ * @example
+ * ```typescript
+ * const myValidatorConverter: JSONSchemaConverter<MySchema> = {
+ *   vendor: 'my-validator',
+ *   convert: (schema) => schema.describe(),
+ * };
+ * ```
+ */
+export interface JSONSchemaConverter<S = any> {
+  /**
+   * Vendor of the schemas handled by the converter (matched with the `~standard.vendor` property).
+   */
+  readonly vendor: string;
+  /**
+   * Converts the schema into a JSON Schema (draft 2020-12).
+   */
+  convert(schema: S): object;
+}
+
+/**
+ * Set of converters used by `toJSONSchema`.
+ */
+export interface JSONSchemaRegistry {
+  /**
+   * Adds the converter to the registry, replacing the one registered for the same vendor.
+   *
+   * @param converter - The converter to add
+   * @returns The same registry for chaining
+   */
+  register(converter: JSONSchemaConverter): JSONSchemaRegistry;
+  /**
+   * Checks whether a converter is registered for the given vendor.
+   *
+   * @param vendor - The vendor to check
+   * @returns `true` if a converter is registered, `false` otherwise
+   */
+  has(vendor: string): boolean;
+  /**
+   * Converts the schema with the converter registered for its vendor.
+   *
+   * @param schema - The schema to convert
+   * @returns The JSON Schema
+   * @throws {UnsupportedSchemaVendorError} When no converter is registered for the vendor of the schema
+   */
+  convert(schema: StandardSchemaV1): JSONSchema;
+}
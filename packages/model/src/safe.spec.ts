@@ -1,5 +1,5 @@
 import type { Err, Ok, Result, UnknownResult } from '@uni-ts/result';
-import { isErr, isOk } from '@uni-ts/result';
+import { err, isErr, isOk, matchErr } from '@uni-ts/result';
 import { type } from 'arktype';
 import * as v from 'valibot';
 import { describe, expect, expectTypeOf, it } from 'vitest';
@@ -26,6 +26,15 @@ describe('safe.ts', () => {
     expect((result as Err<unknown>).error).toBeInstanceOf(ModelValidationError);
   }
 
+  const usernameSchema = oneOf(
+    z.string().refine(async (name) => name !== 'taken'),
+    v.pipeAsync(
+      v.string(),
+      v.checkAsync(async (name) => name !== 'taken'),
+    ),
+  );
+  type UsernameResult = Result<string, ModelValidationError>;
+
   describe('createSafeModel', () => {
     const Email = createSafeModel(emailSchema);
 
@@ -53,6 +62,15 @@ describe('safe.ts', () => {
         // @ts-expect-error - incorrect type
         expectToBeErrorResult(Email.from({}));
       });
+
+      it('returns error that can be matched by its type', () => {
+        const email = matchErr(Email.from('incorrect-email'), {
+          ModelValidationError: (error) => err(error.issues.length),
+        });
+
+        expect(email).toEqual(err(1));
+        expectTypeOf(email).toEqualTypeOf<Result<Email, number>>();
+      });
     });
 
     describe('cast', () => {
@@ -75,6 +93,25 @@ describe('safe.ts', () => {
       });
     });
 
+    describe('async', () => {
+      const Username = createSafeModel(usernameSchema);
+
+      it('validates values against async schemas with fromAsync and castAsync', async () => {
+        const username = Username.fromAsync('john');
+        expectToBeOkResult(await username, 'john');
+        expectTypeOf(username).toEqualTypeOf<Promise<UsernameResult>>();
+
+        expectToBeErrorResult(await Username.fromAsync('taken'));
+        expectToBeOkResult(await Username.castAsync('john'), 'john');
+        expectToBeErrorResult(await Username.castAsync(123));
+      });
+
+      it('checks values against async schemas with isAsync', async () => {
+        expect(await Username.isAsync('john')).toBe(true);
+        expect(await Username.isAsync('taken')).toBe(false);
+      });
+    });
+
     describe('extend', () => {
       it('extends the model with additional properties', () => {
         const baseModel = createSafeModel(emailSchema);
@@ -195,6 +232,34 @@ describe('safe.ts', () => {
       });
     });
 
+    describe('async', () => {
+      const Username = createSafeFirstModel(usernameSchema);
+
+      it('validates values against async schemas with fromAsync and castAsync', async () => {
+        const username = Username.fromAsync('john');
+        expectToBeOkResult(await username, 'john');
+        expectTypeOf(username).toEqualTypeOf<Promise<UsernameResult>>();
+
+        expectToBeErrorResult(await Username.fromAsync('taken'));
+        expectToBeOkResult(await Username.castAsync('john'), 'john');
+        expectToBeErrorResult(await Username.castAsync(123));
+      });
+
+      it('checks values against async schemas with isAsync', async () => {
+        expect(await Username.isAsync('john')).toBe(true);
+        expect(await Username.isAsync('taken')).toBe(false);
+      });
+
+      it('validates values against async schemas with unsafeFromAsync and unsafeCastAsync', async () => {
+        const username = Username.unsafeFromAsync('john');
+        expect(await username).toBe('john');
+        expectTypeOf(username).toEqualTypeOf<Promise<string>>();
+
+        await expect(Username.unsafeFromAsync('taken')).rejects.toThrow(ModelValidationError);
+        await expect(Username.unsafeCastAsync(123)).rejects.toThrow(ModelValidationError);
+      });
+    });
+
     describe('extend', () => {
       it('extends the model with additional properties', () => {
         const baseModel = createSafeFirstModel(emailSchema);
@@ -315,6 +380,28 @@ describe('safe.ts', () => {
       });
     });
 
+    describe('async', () => {
+      const Username = createUnsafeFirstModel(usernameSchema);
+
+      it('validates values against async schemas with fromAsync and castAsync', async () => {
+        const username = Username.fromAsync('john');
+        expect(await username).toBe('john');
+        expectTypeOf(username).toEqualTypeOf<Promise<string>>();
+
+        await expect(Username.fromAsync('taken')).rejects.toThrow(ModelValidationError);
+        await expect(Username.castAsync(123)).rejects.toThrow(ModelValidationError);
+      });
+
+      it('validates values against async schemas with safeFromAsync and safeCastAsync', async () => {
+        const username = Username.safeFromAsync('john');
+        expectToBeOkResult(await username, 'john');
+        expectTypeOf(username).toEqualTypeOf<Promise<UsernameResult>>();
+
+        expectToBeErrorResult(await Username.safeFromAsync('taken'));
+        expectToBeErrorResult(await Username.safeCastAsync(123));
+      });
+    });
+
     describe('extend', () => {
       it('extends the model with additional properties', () => {
         const baseModel = createUnsafeFirstModel(emailSchema);
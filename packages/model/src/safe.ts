@@ -1,8 +1,8 @@
 import type { Result } from '@uni-ts/result';
 import { err, ok } from '@uni-ts/result';
 import { ModelValidationError } from './error.js';
-import { getSyncValidationResult, type Merge, merge } from './helpers.js';
-import { createModel, validate } from './index.js';
+import { getAsyncValidationResult, getSyncValidationResult, type Merge, merge, withFactory } from './helpers.js';
+import { createModel, validate, validateAsync } from './index.js';
 import type { StandardSchemaV1 } from './standard-schema.js';
 import type { SafeFirstModel, SafeModel, UnsafeFirstModel } from './types.js';
 
@@ -38,12 +38,17 @@ export function createSafeModel<S extends StandardSchemaV1, const E extends Reco
   schema: S,
   extend?: E,
 ): Merge<SafeModel<S>, E> {
-  return merge(
-    createModel(schema, {
-      from: (value: StandardSchemaV1.InferInput<S>) => safeValidate(schema, value),
-      cast: (value: unknown) => safeValidate(schema, value),
-    }),
-    extend,
+  return withFactory(
+    merge(
+      createModel(schema, {
+        from: (value: StandardSchemaV1.InferInput<S>) => safeValidate(schema, value),
+        cast: (value: unknown) => safeValidate(schema, value),
+        fromAsync: (value: StandardSchemaV1.InferInput<S>) => safeValidateAsync(schema, value),
+        castAsync: (value: unknown) => safeValidateAsync(schema, value),
+      }),
+      extend,
+    ),
+    createSafeModel,
   );
 }
 
@@ -75,12 +80,17 @@ export function createSafeFirstModel<S extends StandardSchemaV1, const E extends
   schema: S,
   extend?: E,
 ): Merge<SafeFirstModel<S>, E> {
-  return merge(
-    createSafeModel(schema, {
-      unsafeFrom: (value: StandardSchemaV1.InferInput<S>) => validate(schema, value),
-      unsafeCast: (value: unknown) => validate(schema, value),
-    }),
-    extend,
+  return withFactory(
+    merge(
+      createSafeModel(schema, {
+        unsafeFrom: (value: StandardSchemaV1.InferInput<S>) => validate(schema, value),
+        unsafeCast: (value: unknown) => validate(schema, value),
+        unsafeFromAsync: (value: StandardSchemaV1.InferInput<S>) => validateAsync(schema, value),
+        unsafeCastAsync: (value: unknown) => validateAsync(schema, value),
+      }),
+      extend,
+    ),
+    createSafeFirstModel,
   );
 }
 
@@ -112,12 +122,17 @@ export function createUnsafeFirstModel<S extends StandardSchemaV1, const E exten
   schema: S,
   extend?: E,
 ): Merge<UnsafeFirstModel<S>, E> {
-  return merge(
-    createModel(schema, {
-      safeFrom: (value: StandardSchemaV1.InferInput<S>) => safeValidate(schema, value),
-      safeCast: (value: unknown) => safeValidate(schema, value),
-    }),
-    extend,
+  return withFactory(
+    merge(
+      createModel(schema, {
+        safeFrom: (value: StandardSchemaV1.InferInput<S>) => safeValidate(schema, value),
+        safeCast: (value: unknown) => safeValidate(schema, value),
+        safeFromAsync: (value: StandardSchemaV1.InferInput<S>) => safeValidateAsync(schema, value),
+        safeCastAsync: (value: unknown) => safeValidateAsync(schema, value),
+      }),
+      extend,
+    ),
+    createUnsafeFirstModel,
   );
 }
 
@@ -130,7 +145,39 @@ function safeValidate<S extends StandardSchemaV1>(
   return result.issues ? err(new ModelValidationError(result.issues)) : ok(result.value);
 }
 
+async function safeValidateAsync<S extends StandardSchemaV1>(
+  schema: S,
+  value: unknown,
+): Promise<Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>> {
+  const result = await getAsyncValidationResult(schema, value);
+
+  return result.issues ? err(new ModelValidationError(result.issues)) : ok(result.value);
+}
+
 export type { Result } from '@uni-ts/result';
+export { extend, omit, partial, pick } from './compose.js';
 export { derive } from './derive.js';
-export { ModelValidationError, prettifyError } from './error.js';
+export type { FlattenedModelValidationError, ModelValidationErrorTree } from './error.js';
+export {
+  ModelValidationError,
+  modelValidationErrorCodec,
+  prettifyError,
+  UnsupportedSchemaVendorError,
+} from './error.js';
+export type {
+  ErrorFormatter,
+  ErrorFormatterOptions,
+  ErrorMessages,
+  ErrorMessageTemplate,
+  ErrorOutputFormat,
+} from './format.js';
+export { createErrorFormatter, getDefaultErrorFormatter, setDefaultErrorFormatter } from './format.js';
+export type { JSONSchema, JSONSchemaConverter, JSONSchemaRegistry } from './json-schema.js';
+export {
+  arktypeJSONSchemaConverter,
+  createJSONSchemaRegistry,
+  toJSONSchema,
+  valibotJSONSchemaConverter,
+  zodJSONSchemaConverter,
+} from './json-schema.js';
 export type { InferModelInput, InferModelOutput, SafeFirstModel, SafeModel, UnsafeFirstModel } from './types.js';
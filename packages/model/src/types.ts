@@ -160,6 +160,65 @@ export interface Model<S extends StandardSchemaV1> {
    * ```
    */
   readonly cast: (value: unknown) => StandardSchemaV1.InferOutput<S>;
+
+  /**
+   * Checks if a value matches the model's schema, supporting schemas with asynchronous validation.
+   *
+   * @param value - The value to check against the model schema
+   * @returns A Promise resolving to `true` if the value is valid according to the schema, `false` otherwise
+   *
+   * @example
+   * ```typescript
+   * const Username = createModel(z.string().refine(async (name) => !(await db.users.exists(name))));
+   *
+   * await Username.isAsync('john'); // true if the username is not taken
+   * ```
+   */
+  readonly isAsync: (value: unknown) => Promise<boolean>;
+
+  /**
+   * Validates and converts data that matches the model's input type to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Data matching the model's input type
+   * @returns A Promise resolving to the validated and potentially transformed data
+   * @throws {ModelValidationError} When the input data doesn't match the schema (the Promise is rejected)
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * await NewUser.fromAsync({ email: 'john@example.com' });
+   * // ✅ Ok: resolves to { email: 'john@example.com' }
+   *
+   * await NewUser.fromAsync({ email: 'taken@example.com' });
+   * // ❌ Runtime Error: validation failed
+   * ```
+   */
+  readonly fromAsync: (value: StandardSchemaV1.InferInput<S>) => Promise<StandardSchemaV1.InferOutput<S>>;
+
+  /**
+   * Validates and converts unknown data to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Any value that should be validated against the model schema
+   * @returns A Promise resolving to the validated and potentially transformed data
+   * @throws {ModelValidationError} When the input data doesn't match the schema (the Promise is rejected)
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * await NewUser.castAsync({ email: 'john@example.com' });
+   * // ✅ Ok: resolves to { email: 'john@example.com' }
+   *
+   * await NewUser.castAsync({ email: 'taken@example.com' });
+   * // ❌ Runtime Error: validation failed
+   * ```
+   */
+  readonly castAsync: (value: unknown) => Promise<StandardSchemaV1.InferOutput<S>>;
 }
 
 export interface SafeModel<S extends StandardSchemaV1> {
@@ -251,6 +310,69 @@ export interface SafeModel<S extends StandardSchemaV1> {
    * ```
    */
   readonly cast: (value: unknown) => Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>;
+
+  /**
+   * Checks if a value matches the model's schema, supporting schemas with asynchronous validation.
+   *
+   * @param value - The value to check against the model schema
+   * @returns A Promise resolving to `true` if the value is valid according to the schema, `false` otherwise
+   *
+   * @example
+   * ```typescript
+   * const Username = createSafeModel(z.string().refine(async (name) => !(await db.users.exists(name))));
+   *
+   * await Username.isAsync('john'); // true if the username is not taken
+   * ```
+   */
+  readonly isAsync: (value: unknown) => Promise<boolean>;
+
+  /**
+   * Validates and converts data that matches the model's input type to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Data matching the model's input type
+   * @returns A Promise resolving to a Result containing either the validated data or a validation error
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createSafeModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * const okResult = await NewUser.fromAsync({ email: 'john@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: true, data: { email: 'john@example.com' } }
+   *
+   * const errResult = await NewUser.fromAsync({ email: 'taken@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: false, error: ModelValidationError }
+   * ```
+   */
+  readonly fromAsync: (
+    value: StandardSchemaV1.InferInput<S>,
+  ) => Promise<Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>>;
+
+  /**
+   * Validates and converts unknown data to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Any value that should be validated against the model schema
+   * @returns A Promise resolving to a Result containing either the validated data or a validation error
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createSafeModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * const okResult = await NewUser.castAsync({ email: 'john@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: true, data: { email: 'john@example.com' } }
+   *
+   * const errResult = await NewUser.castAsync({ email: 'taken@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: false, error: ModelValidationError }
+   * ```
+   */
+  readonly castAsync: (value: unknown) => Promise<Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>>;
 }
 
 export interface SafeFirstModel<S extends StandardSchemaV1> {
@@ -400,6 +522,113 @@ export interface SafeFirstModel<S extends StandardSchemaV1> {
    * ```
    */
   readonly unsafeCast: (value: unknown) => StandardSchemaV1.InferOutput<S>;
+
+  /**
+   * Checks if a value matches the model's schema, supporting schemas with asynchronous validation.
+   *
+   * @param value - The value to check against the model schema
+   * @returns A Promise resolving to `true` if the value is valid according to the schema, `false` otherwise
+   *
+   * @example
+   * ```typescript
+   * const Username = createSafeFirstModel(z.string().refine(async (name) => !(await db.users.exists(name))));
+   *
+   * await Username.isAsync('john'); // true if the username is not taken
+   * ```
+   */
+  readonly isAsync: (value: unknown) => Promise<boolean>;
+
+  /**
+   * Validates and converts data that matches the model's input type to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Data matching the model's input type
+   * @returns A Promise resolving to a Result containing either the validated data or a validation error
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createSafeFirstModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * const okResult = await NewUser.fromAsync({ email: 'john@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: true, data: { email: 'john@example.com' } }
+   *
+   * const errResult = await NewUser.fromAsync({ email: 'taken@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: false, error: ModelValidationError }
+   * ```
+   */
+  readonly fromAsync: (
+    value: StandardSchemaV1.InferInput<S>,
+  ) => Promise<Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>>;
+
+  /**
+   * Validates and converts unknown data to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Any value that should be validated against the model schema
+   * @returns A Promise resolving to a Result containing either the validated data or a validation error
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createSafeFirstModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * const okResult = await NewUser.castAsync({ email: 'john@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: true, data: { email: 'john@example.com' } }
+   *
+   * const errResult = await NewUser.castAsync({ email: 'taken@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: false, error: ModelValidationError }
+   * ```
+   */
+  readonly castAsync: (value: unknown) => Promise<Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>>;
+
+  /**
+   * Validates and converts data that matches the model's input type to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Data matching the model's input type
+   * @returns A Promise resolving to the validated and potentially transformed data
+   * @throws {ModelValidationError} When the input data doesn't match the schema (the Promise is rejected)
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createSafeFirstModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * await NewUser.unsafeFromAsync({ email: 'john@example.com' });
+   * // ✅ Ok: resolves to { email: 'john@example.com' }
+   *
+   * await NewUser.unsafeFromAsync({ email: 'taken@example.com' });
+   * // ❌ Runtime Error: validation failed
+   * ```
+   */
+  readonly unsafeFromAsync: (value: StandardSchemaV1.InferInput<S>) => Promise<StandardSchemaV1.InferOutput<S>>;
+
+  /**
+   * Validates and converts unknown data to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Any value that should be validated against the model schema
+   * @returns A Promise resolving to the validated and potentially transformed data
+   * @throws {ModelValidationError} When the input data doesn't match the schema (the Promise is rejected)
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createSafeFirstModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * await NewUser.unsafeCastAsync({ email: 'john@example.com' });
+   * // ✅ Ok: resolves to { email: 'john@example.com' }
+   *
+   * await NewUser.unsafeCastAsync({ email: 'taken@example.com' });
+   * // ❌ Runtime Error: validation failed
+   * ```
+   */
+  readonly unsafeCastAsync: (value: unknown) => Promise<StandardSchemaV1.InferOutput<S>>;
 }
 
 export interface UnsafeFirstModel<S extends StandardSchemaV1> {
@@ -549,4 +778,111 @@ export interface UnsafeFirstModel<S extends StandardSchemaV1> {
    * ```
    */
   readonly safeCast: (value: unknown) => Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>;
+
+  /**
+   * Checks if a value matches the model's schema, supporting schemas with asynchronous validation.
+   *
+   * @param value - The value to check against the model schema
+   * @returns A Promise resolving to `true` if the value is valid according to the schema, `false` otherwise
+   *
+   * @example
+   * ```typescript
+   * const Username = createUnsafeFirstModel(z.string().refine(async (name) => !(await db.users.exists(name))));
+   *
+   * await Username.isAsync('john'); // true if the username is not taken
+   * ```
+   */
+  readonly isAsync: (value: unknown) => Promise<boolean>;
+
+  /**
+   * Validates and converts data that matches the model's input type to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Data matching the model's input type
+   * @returns A Promise resolving to the validated and potentially transformed data
+   * @throws {ModelValidationError} When the input data doesn't match the schema (the Promise is rejected)
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createUnsafeFirstModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * await NewUser.fromAsync({ email: 'john@example.com' });
+   * // ✅ Ok: resolves to { email: 'john@example.com' }
+   *
+   * await NewUser.fromAsync({ email: 'taken@example.com' });
+   * // ❌ Runtime Error: validation failed
+   * ```
+   */
+  readonly fromAsync: (value: StandardSchemaV1.InferInput<S>) => Promise<StandardSchemaV1.InferOutput<S>>;
+
+  /**
+   * Validates and converts unknown data to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Any value that should be validated against the model schema
+   * @returns A Promise resolving to the validated and potentially transformed data
+   * @throws {ModelValidationError} When the input data doesn't match the schema (the Promise is rejected)
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createUnsafeFirstModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * await NewUser.castAsync({ email: 'john@example.com' });
+   * // ✅ Ok: resolves to { email: 'john@example.com' }
+   *
+   * await NewUser.castAsync({ email: 'taken@example.com' });
+   * // ❌ Runtime Error: validation failed
+   * ```
+   */
+  readonly castAsync: (value: unknown) => Promise<StandardSchemaV1.InferOutput<S>>;
+
+  /**
+   * Validates and converts data that matches the model's input type to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Data matching the model's input type
+   * @returns A Promise resolving to a Result containing either the validated data or a validation error
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createUnsafeFirstModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * const okResult = await NewUser.safeFromAsync({ email: 'john@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: true, data: { email: 'john@example.com' } }
+   *
+   * const errResult = await NewUser.safeFromAsync({ email: 'taken@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: false, error: ModelValidationError }
+   * ```
+   */
+  readonly safeFromAsync: (
+    value: StandardSchemaV1.InferInput<S>,
+  ) => Promise<Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>>;
+
+  /**
+   * Validates and converts unknown data to the model's output type, supporting schemas with asynchronous validation.
+   *
+   * @param value - Any value that should be validated against the model schema
+   * @returns A Promise resolving to a Result containing either the validated data or a validation error
+   *
+   * @example
+   * ```typescript
+   * const NewUser = createUnsafeFirstModel(z.object({
+   *   email: z.string().email().refine(async (email) => !(await db.users.exists(email))),
+   * }));
+   *
+   * const okResult = await NewUser.safeCastAsync({ email: 'john@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: true, data: { email: 'john@example.com' } }
+   *
+   * const errResult = await NewUser.safeCastAsync({ email: 'taken@example.com' });
+   * // Type: Result<NewUser, ModelValidationError>
+   * // Value: { success: false, error: ModelValidationError }
+   * ```
+   */
+  readonly safeCastAsync: (value: unknown) => Promise<Result<StandardSchemaV1.InferOutput<S>, ModelValidationError>>;
 }
@@ -283,6 +283,144 @@ describe('builder.ts', () => {
     });
   });
 
+  describe('andThen', () => {
+    it('static input, function mapper', () => {
+      const output = result(ok(1))
+        .andThen((data) => (data ? ok(data * 2) : err('error')))
+        .andThen((data) => (data > 1 ? ok(Boolean(data)) : err({ error: data })))
+        .create();
+
+      expect(output).toEqual(ok(true));
+      expectTypeOf(output).toEqualTypeOf<Result<boolean, 'error' | { readonly error: number }>>();
+    });
+
+    it('static input, async function mapper', async () => {
+      const output = result(ok(1))
+        .andThen(async (data) => (data ? ok(data * 2) : err('error')))
+        .andThen(async (data) => (data > 1 ? ok(Boolean(data)) : err({ error: data })))
+        .create();
+
+      expect(await output).toEqual(ok(true));
+      expectTypeOf(output).toEqualTypeOf<Promise<Result<boolean, 'error' | { readonly error: number }>>>();
+    });
+
+    it('static input, mixed function mapper', async () => {
+      const output = result(ok(1))
+        .andThen(async (data) => (data ? ok(data * 2) : err('error')))
+        .andThen((data) => (data > 1 ? ok(Boolean(data)) : err({ error: data })))
+        .create();
+
+      expect(await output).toEqual(ok(true));
+      expectTypeOf(output).toEqualTypeOf<Promise<Result<boolean, 'error' | { readonly error: number }>>>();
+    });
+
+    it('promise input, function mapper', async () => {
+      const output = result(Promise.resolve(ok(1)))
+        .andThen((data) => (data ? ok(data * 2) : err('error')))
+        .andThen((data) => (data > 1 ? ok(Boolean(data)) : err({ error: data })))
+        .create();
+
+      expect(await output).toEqual(ok(true));
+      expectTypeOf(output).toEqualTypeOf<Promise<Result<boolean, 'error' | { readonly error: number }>>>();
+    });
+
+    it('promise input, async function mapper', async () => {
+      const output = result(Promise.resolve(ok(1)))
+        .andThen(async (data) => (data ? ok(data * 2) : err('error')))
+        .andThen(async (data) => (data > 1 ? ok(Boolean(data)) : err({ error: data })))
+        .create();
+
+      expect(await output).toEqual(ok(true));
+      expectTypeOf(output).toEqualTypeOf<Promise<Result<boolean, 'error' | { readonly error: number }>>>();
+    });
+
+    it('function input, function mapper', () => {
+      const fn = result((data: number) => (data ? ok(data * 2) : err('error')))
+        .andThen((data) => (data > 1 ? ok(Boolean(data)) : err({ error: data })))
+        .create();
+
+      expect(fn(1)).toEqual(ok(true));
+      expectTypeOf(fn).toEqualTypeOf<(x: number) => Result<boolean, 'error' | { readonly error: number }>>();
+    });
+
+    it('function input, async function mapper', async () => {
+      const fn = result((data: number) => (data ? ok(data * 2) : err('error')))
+        .andThen(async (data) => (data > 1 ? ok(Boolean(data)) : err({ error: data })))
+        .create();
+
+      expect(await fn(1)).toEqual(ok(true));
+      expectTypeOf(fn).toEqualTypeOf<(x: number) => Promise<Result<boolean, 'error' | { readonly error: number }>>>();
+    });
+
+    it('async function input, function mapper', async () => {
+      const fn = result(async (data: number) => (data ? ok(data * 2) : err('error')))
+        .andThen((data) => (data > 1 ? ok(Boolean(data)) : err({ error: data })))
+        .create();
+
+      expect(await fn(1)).toEqual(ok(true));
+      expectTypeOf(fn).toEqualTypeOf<(x: number) => Promise<Result<boolean, 'error' | { readonly error: number }>>>();
+    });
+  });
+
+  describe('orElse', () => {
+    it('static input, function mapper', () => {
+      const output = result(err(1))
+        .orElse((error) => (error ? err(error * 2) : ok('success')))
+        .orElse((error) => (error > 1 ? ok(true) : err({ error })))
+        .create();
+
+      expect(output).toEqual(ok(true));
+      expectTypeOf(output).toEqualTypeOf<Result<'success' | true, { readonly error: number }>>();
+    });
+
+    it('static input, async function mapper', async () => {
+      const output = result(err(1))
+        .orElse(async (error) => (error ? err(error * 2) : ok('success')))
+        .orElse(async (error) => (error > 1 ? ok(true) : err({ error })))
+        .create();
+
+      expect(await output).toEqual(ok(true));
+      expectTypeOf(output).toEqualTypeOf<Promise<Result<'success' | true, { readonly error: number }>>>();
+    });
+
+    it('promise input, function mapper', async () => {
+      const output = result(Promise.resolve(err(1)))
+        .orElse((error) => (error ? err(error * 2) : ok('success')))
+        .orElse((error) => (error > 1 ? ok(true) : err({ error })))
+        .create();
+
+      expect(await output).toEqual(ok(true));
+      expectTypeOf(output).toEqualTypeOf<Promise<Result<'success' | true, { readonly error: number }>>>();
+    });
+
+    it('function input, function mapper', () => {
+      const fn = result((error: number) => (error ? err(error * 2) : ok('success')))
+        .orElse((error) => (error > 1 ? ok(true) : err({ error })))
+        .create();
+
+      expect(fn(1)).toEqual(ok(true));
+      expectTypeOf(fn).toEqualTypeOf<(x: number) => Result<'success' | true, { readonly error: number }>>();
+    });
+
+    it('function input, async function mapper', async () => {
+      const fn = result((error: number) => (error ? err(error * 2) : ok('success')))
+        .orElse(async (error) => (error > 1 ? ok(true) : err({ error })))
+        .create();
+
+      expect(await fn(1)).toEqual(ok(true));
+      expectTypeOf(fn).toEqualTypeOf<(x: number) => Promise<Result<'success' | true, { readonly error: number }>>>();
+    });
+
+    it('async function input, function mapper', async () => {
+      const fn = result(async (error: number) => (error ? err(error * 2) : ok('success')))
+        .orElse((error) => (error > 1 ? ok(true) : err({ error })))
+        .create();
+
+      expect(await fn(1)).toEqual(ok(true));
+      expectTypeOf(fn).toEqualTypeOf<(x: number) => Promise<Result<'success' | true, { readonly error: number }>>>();
+    });
+  });
+
   describe('match', () => {
     describe('static input', () => {
       const okInput = first(ok('success'), err('error'));
@@ -1,3 +1,4 @@
+import { addErrBreadcrumb } from './debug.js';
 import { tap } from './fp.js';
 import type {
   InferValueAsErr,
@@ -10,7 +11,7 @@ import type {
 } from './helpers.js';
 import { isFunction, isPromise } from './helpers.js';
 import type { Result, UnwrapErr, UnwrapOk } from './index.js';
-import { mapErr, mapOk, match, toTuple } from './index.js';
+import { andThen, mapErr, mapOk, match, orElse, toTuple } from './index.js';
 
 /**
  * Creates a fluent Result builder that allows chaining operations.
@@ -63,7 +64,7 @@ class SyncResultBuilder<R extends Result> {
     mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
   ): AsyncResultBuilder<Result<InferValueAsOk<MapperReturn>, UnwrapErr<R | MapperReturn>>>;
   mapOk<const MapperReturn>(mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>): unknown {
-    const mapperResult = mapOk(this.result, mapper);
+    const mapperResult = addErrBreadcrumb(mapOk(this.result, mapper), 'mapOk');
 
     return isPromise(mapperResult) ? new AsyncResultBuilder(mapperResult) : new SyncResultBuilder(mapperResult);
   }
@@ -75,7 +76,31 @@ class SyncResultBuilder<R extends Result> {
     mapper: (data: UnwrapErr<R>) => OrPromise<MapperReturn>,
   ): AsyncResultBuilder<Result<UnwrapOk<R | MapperReturn>, InferValueAsErr<MapperReturn>>>;
   mapErr<const MapperReturn>(mapper: (data: UnwrapErr<R>) => OrPromise<MapperReturn>): unknown {
-    const mapperResult = mapErr(this.result, mapper);
+    const mapperResult = addErrBreadcrumb(mapErr(this.result, mapper), 'mapErr');
+
+    return isPromise(mapperResult) ? new AsyncResultBuilder(mapperResult) : new SyncResultBuilder(mapperResult);
+  }
+
+  andThen<const MapperReturn extends Result>(
+    mapper: (data: UnwrapOk<R>) => NonPromise<MapperReturn>,
+  ): SyncResultBuilder<Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>>;
+  andThen<const MapperReturn extends Result>(
+    mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
+  ): AsyncResultBuilder<Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>>;
+  andThen<const MapperReturn extends Result>(mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>): unknown {
+    const mapperResult = addErrBreadcrumb(andThen(this.result, mapper), 'andThen');
+
+    return isPromise(mapperResult) ? new AsyncResultBuilder(mapperResult) : new SyncResultBuilder(mapperResult);
+  }
+
+  orElse<const MapperReturn extends Result>(
+    mapper: (error: UnwrapErr<R>) => NonPromise<MapperReturn>,
+  ): SyncResultBuilder<Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>>;
+  orElse<const MapperReturn extends Result>(
+    mapper: (error: UnwrapErr<R>) => OrPromise<MapperReturn>,
+  ): AsyncResultBuilder<Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>>;
+  orElse<const MapperReturn extends Result>(mapper: (error: UnwrapErr<R>) => OrPromise<MapperReturn>): unknown {
+    const mapperResult = addErrBreadcrumb(orElse(this.result, mapper), 'orElse');
 
     return isPromise(mapperResult) ? new AsyncResultBuilder(mapperResult) : new SyncResultBuilder(mapperResult);
   }
@@ -123,7 +148,8 @@ class SyncResultBuilder<R extends Result> {
   tap<FnReturn>(fn: (result: R) => OrPromise<FnReturn>): AsyncResultBuilder<Result<UnwrapOk<R>, UnwrapErr<R>>>;
   tap<FnReturn>(fn: (result: R) => OrPromise<FnReturn>): unknown {
     const data = fn(this.result);
-    return isPromise(data) ? new AsyncResultBuilder(Promise.resolve(this.result)) : new SyncResultBuilder(this.result);
+    const result = addErrBreadcrumb(this.result, 'tap');
+    return isPromise(data) ? new AsyncResultBuilder(Promise.resolve(result)) : new SyncResultBuilder(result);
   }
 
   toTuple(): ResultTuple<R> {
@@ -141,13 +167,25 @@ class AsyncResultBuilder<R extends Result> {
   mapOk<const MapperReturn>(
     mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
   ): AsyncResultBuilder<Result<InferValueAsOk<MapperReturn>, UnwrapErr<R | MapperReturn>>> {
-    return new AsyncResultBuilder(mapOk(this.result, mapper));
+    return new AsyncResultBuilder(addErrBreadcrumb(mapOk(this.result, mapper), 'mapOk'));
   }
 
   mapErr<const MapperReturn>(
     mapper: (data: UnwrapErr<R>) => OrPromise<MapperReturn>,
   ): AsyncResultBuilder<Result<UnwrapOk<R | MapperReturn>, InferValueAsErr<MapperReturn>>> {
-    return new AsyncResultBuilder(mapErr(this.result, mapper));
+    return new AsyncResultBuilder(addErrBreadcrumb(mapErr(this.result, mapper), 'mapErr'));
+  }
+
+  andThen<const MapperReturn extends Result>(
+    mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
+  ): AsyncResultBuilder<Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>> {
+    return new AsyncResultBuilder(addErrBreadcrumb(andThen(this.result, mapper), 'andThen'));
+  }
+
+  orElse<const MapperReturn extends Result>(
+    mapper: (error: UnwrapErr<R>) => OrPromise<MapperReturn>,
+  ): AsyncResultBuilder<Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>> {
+    return new AsyncResultBuilder(addErrBreadcrumb(orElse(this.result, mapper), 'orElse'));
   }
 
   match<const OkReturn, const ErrReturn>(
@@ -174,7 +212,7 @@ class AsyncResultBuilder<R extends Result> {
   }
 
   tap(fn: (result: R) => OrPromise<unknown>): AsyncResultBuilder<Result<UnwrapOk<R>, UnwrapErr<R>>> {
-    return new AsyncResultBuilder(this.result.then(tap(fn)));
+    return new AsyncResultBuilder(addErrBreadcrumb(this.result.then(tap(fn)), 'tap'));
   }
 
   toTuple(): Promise<ResultTuple<R>> {
@@ -204,7 +242,7 @@ class FnResultBuilder<R extends OrPromise<Result>, A extends unknown[] = [], Asy
     IsAsync<Async, MapperReturn>
   >;
   mapOk<const MapperReturn>(mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>): unknown {
-    return new FnResultBuilder((...args: A) => mapOk(this.fn(...args), mapper));
+    return new FnResultBuilder((...args: A) => addErrBreadcrumb(mapOk(this.fn(...args), mapper), 'mapOk'));
   }
 
   mapErr<const MapperReturn>(
@@ -222,7 +260,21 @@ class FnResultBuilder<R extends OrPromise<Result>, A extends unknown[] = [], Asy
     IsAsync<Async, MapperReturn>
   >;
   mapErr<const MapperReturn>(mapper: (data: UnwrapErr<R>) => OrPromise<MapperReturn>): unknown {
-    return new FnResultBuilder((...args: A) => mapErr(this.fn(...args), mapper));
+    return new FnResultBuilder((...args: A) => addErrBreadcrumb(mapErr(this.fn(...args), mapper), 'mapErr'));
+  }
+
+  andThen<const MapperReturn extends OrPromise<Result>>(
+    mapper: (data: UnwrapOk<R>) => MapperReturn,
+  ): FnResultBuilder<Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>, A, IsAsync<Async, MapperReturn>>;
+  andThen<const MapperReturn extends OrPromise<Result>>(mapper: (data: UnwrapOk<R>) => MapperReturn): unknown {
+    return new FnResultBuilder((...args: A) => addErrBreadcrumb(andThen(this.fn(...args), mapper), 'andThen'));
+  }
+
+  orElse<const MapperReturn extends OrPromise<Result>>(
+    mapper: (error: UnwrapErr<R>) => MapperReturn,
+  ): FnResultBuilder<Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>, A, IsAsync<Async, MapperReturn>>;
+  orElse<const MapperReturn extends OrPromise<Result>>(mapper: (error: UnwrapErr<R>) => MapperReturn): unknown {
+    return new FnResultBuilder((...args: A) => addErrBreadcrumb(orElse(this.fn(...args), mapper), 'orElse'));
   }
 
   match<const OkReturn, const ErrReturn>(
@@ -271,7 +323,7 @@ class FnResultBuilder<R extends OrPromise<Result>, A extends unknown[] = [], Asy
     fn: (result: R) => FnReturn,
   ): FnResultBuilder<Result<UnwrapOk<R>, UnwrapErr<R>>, A, IsAsync<Async, FnReturn>>;
   tap<FnReturn>(fn: (result: R) => OrPromise<FnReturn>): unknown {
-    return new FnResultBuilder((...args: A) => tap(fn)(this.fn(...args)));
+    return new FnResultBuilder((...args: A) => addErrBreadcrumb(tap(fn)(this.fn(...args)), 'tap'));
   }
 
   toTuple() {
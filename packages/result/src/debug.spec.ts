@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { result } from './builder.js';
+import { configureResult, getErrTrace } from './debug.js';
+import type { Err } from './index.js';
+import { err, fromThrowable, isResult, mapOk, ok, tryCatch } from './index.js';
+
+describe('debug.ts', () => {
+  describe('when traces are disabled', () => {
+    it('does not attach traces to Err results', () => {
+      expect(getErrTrace(err('error'))).toBeUndefined();
+    });
+  });
+
+  describe('when traces are enabled', () => {
+    beforeEach(() => {
+      configureResult({ captureTraces: true });
+    });
+
+    afterEach(() => {
+      configureResult({ captureTraces: false });
+    });
+
+    it('returns the updated configuration', () => {
+      expect(configureResult({})).toEqual({ captureTraces: true });
+    });
+
+    it('attaches the creation stack to Err results', () => {
+      const trace = getErrTrace(err('error'));
+
+      expect(trace?.stack).toContain('debug.spec.ts');
+      expect(trace?.stack.split('\n')[1]).toContain('debug.spec.ts');
+      expect(trace?.breadcrumbs).toEqual([]);
+    });
+
+    it('does not change the shape of Err results', () => {
+      const result = err('error');
+
+      expect(Object.keys(result)).toEqual(['success', 'error']);
+      expect(isResult(result)).toBe(true);
+      expect(result).toEqual({ success: false, error: 'error' });
+      expect(JSON.stringify(result)).toBe('{"success":false,"error":"error"}');
+    });
+
+    it('keeps the trace when Err passes through transformations', () => {
+      const original = err('error');
+      const mapped = mapOk(original, (data: number) => data * 2);
+
+      expect(getErrTrace(mapped as Err)).toBe(getErrTrace(original));
+    });
+
+    it('records builder steps the Err passed through', () => {
+      const created = result(err('error') as Err<string>)
+        .mapOk((data: number) => data * 2)
+        .andThen((data) => ok(data))
+        .tap(() => {})
+        .create();
+
+      expect(getErrTrace(created as Err)?.breadcrumbs).toEqual(['mapOk', 'andThen', 'tap']);
+    });
+
+    it('keeps the breadcrumbs when the error is mapped', () => {
+      const created = result(err('error') as Err<string>)
+        .mapOk((data: number) => data * 2)
+        .mapErr((error) => `mapped ${error}`)
+        .tap(() => {})
+        .create();
+
+      expect(getErrTrace(created as Err)?.breadcrumbs).toEqual(['mapOk', 'mapErr', 'tap']);
+    });
+
+    it('does not modify traces of Err results shared between builders', () => {
+      const shared = err('error') as Err<string>;
+
+      const first = result(shared)
+        .mapOk((data: number) => data)
+        .create();
+      const second = result(shared).andThen(ok).create();
+
+      expect(getErrTrace(shared)?.breadcrumbs).toEqual([]);
+      expect(getErrTrace(first as Err)?.breadcrumbs).toEqual(['mapOk']);
+      expect(getErrTrace(second as Err)?.breadcrumbs).toEqual(['andThen']);
+    });
+
+    it('records async builder steps the Err passed through', async () => {
+      const fn = result(async (fail: boolean) => (fail ? err('error') : ok(1)))
+        .mapOk((data) => data * 2)
+        .andThen((data) => ok(data))
+        .create();
+
+      expect(getErrTrace((await fn(true)) as Err)?.breadcrumbs).toEqual(['mapOk', 'andThen']);
+    });
+
+    it('attaches the thrown exception to Err results created by tryCatch', () => {
+      const ex = new Error('Thrown');
+      const result = tryCatch(() => {
+        throw ex;
+      }, 'error');
+
+      expect(getErrTrace(result as Err)?.thrown).toBe(ex);
+    });
+
+    it('attaches the thrown exception to Err results created by fromThrowable', async () => {
+      const ex = new Error('Thrown');
+      const fn = fromThrowable(
+        async () => Promise.reject(ex),
+        (e) => String(e),
+      );
+
+      const trace = getErrTrace((await fn()) as Err);
+
+      expect(trace?.thrown).toBe(ex);
+      expect(trace?.stack).toBeTypeOf('string');
+    });
+  });
+});
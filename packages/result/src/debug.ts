@@ -0,0 +1,131 @@
+import { isObject, mapOrPromise } from './helpers.js';
+import type { Err } from './index.js';
+
+/**
+ * Global configuration of the Result utilities.
+ */
+export interface ResultConfig {
+  /**
+   * Whether Err results should capture the stack trace of their creation and the builder steps they passed through.
+   * Capturing traces has a performance cost, so it's recommended to enable it only in development.
+   *
+   * @default false
+   */
+  captureTraces: boolean;
+}
+
+/**
+ * Debug information attached to Err results when `captureTraces` is enabled.
+ */
+export interface ErrTrace {
+  /**
+   * Stack trace captured when the Err result was created.
+   */
+  readonly stack: string;
+  /**
+   * Names of the builder steps the Err result passed through, in order.
+   */
+  readonly breadcrumbs: readonly string[];
+  /**
+   * Exception caught by `tryCatch` or `fromThrowable` that led to the Err result.
+   */
+  readonly thrown?: unknown;
+}
+
+const config: ResultConfig = { captureTraces: false };
+
+const traceKey = Symbol('uni-ts.errTrace');
+
+/**
+ * Updates the global configuration of the Result utilities.
+ * Options that are not provided keep their current values.
+ *
+ * @param options - Configuration options to update
+ * @returns The updated configuration
+ *
+ * @example
+ * ```typescript
+ * configureResult({ captureTraces: process.env.NODE_ENV === 'development' });
+ * ```
+ */
+export function configureResult(options: Partial<ResultConfig>): Readonly<ResultConfig> {
+  Object.assign(config, options);
+  return { ...config };
+}
+
+/**
+ * Returns debug information attached to an Err result.
+ * The information is only available for Err results created while `captureTraces` was enabled.
+ *
+ * The trace is stored in a non-enumerable property, so it doesn't affect the shape of the Result
+ * (e.g. `isResult` checks or JSON serialization).
+ *
+ * @param result - The Err result to get the trace of
+ * @returns The trace of the Err result or undefined if it wasn't captured
+ *
+ * @example
+ * ```typescript
+ * configureResult({ captureTraces: true });
+ *
+ * const result = result(fetchUser(id))
+ *   .mapOk((user) => user.profile)
+ *   .andThen(validateProfile)
+ *   .create();
+ *
+ * if (isErr(result)) {
+ *   const trace = getErrTrace(result);
+ *   console.log(trace?.stack); // Where the Err was created
+ *   console.log(trace?.breadcrumbs); // ['mapOk', 'andThen']
+ * }
+ * ```
+ */
+export function getErrTrace(result: Err): ErrTrace | undefined {
+  return (result as Err & { [traceKey]?: ErrTrace })[traceKey];
+}
+
+export function captureErrTrace<T extends Err>(result: T, thrown?: unknown): T {
+  if (!config.captureTraces) return result;
+
+  const existing = getErrTrace(result);
+
+  if (existing) {
+    return thrown === undefined || existing.thrown !== undefined
+      ? result
+      : withErrTrace(result, { ...existing, thrown });
+  }
+
+  // Skip the frames of captureErrTrace and err, so the stack starts at the caller creating the Err
+  const [header = '', , , ...frames] = (new Error('Err result created').stack ?? '').split('\n');
+  const trace: ErrTrace = { stack: [header, ...frames].join('\n'), breadcrumbs: [], thrown };
+
+  return Object.defineProperty(result, traceKey, { value: trace });
+}
+
+export function addErrBreadcrumb<T>(result: T, step: string): T {
+  return mapOrPromise(result, (value) => {
+    const trace = getTraceOf(value);
+
+    return trace ? withErrTrace(value as Err, { ...trace, breadcrumbs: [...trace.breadcrumbs, step] }) : value;
+  }) as T;
+}
+
+export function inheritErrTrace<T>(result: T, previous: Err): T {
+  const inherited = getErrTrace(previous);
+  const trace = getTraceOf(result);
+
+  if (!inherited || !trace || trace === inherited) return result;
+
+  return withErrTrace(result as Err, {
+    ...trace,
+    breadcrumbs: [...inherited.breadcrumbs, ...trace.breadcrumbs],
+    thrown: trace.thrown ?? inherited.thrown,
+  }) as T;
+}
+
+function getTraceOf(value: unknown) {
+  return isObject(value) ? getErrTrace(value as Err) : undefined;
+}
+
+function withErrTrace<T extends Err>(result: T, trace: ErrTrace): T {
+  return Object.defineProperty({ ...result }, traceKey, { value: trace });
+}
@@ -0,0 +1,170 @@
+import { pipe } from '@uni-ts/composition';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import type { TaggedError } from './error.js';
+import { defineError, matchErr } from './error.js';
+import { matchErr as matchErrFp } from './fp.js';
+import { first } from './helpers.js';
+import type { Result } from './index.js';
+import { err, ok } from './index.js';
+
+describe('error.ts', () => {
+  const NotFoundError = defineError('NotFound', (props: { id: string }) => `Entity ${props.id} not found`);
+  const ConflictError = defineError('Conflict', 'Entity already exists');
+  const UnknownError = defineError('Unknown');
+
+  type NotFoundError = InstanceType<typeof NotFoundError>;
+  type ConflictError = InstanceType<typeof ConflictError>;
+
+  class LegacyError extends Error {
+    readonly type = 'LegacyError';
+  }
+
+  describe('defineError', () => {
+    it('creates errors tagged with the given type', () => {
+      const error = new NotFoundError({ id: '1' });
+
+      expect(error).toBeInstanceOf(Error);
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect(error.type).toBe('NotFound');
+      expect(error.name).toBe('NotFound');
+      expect(error.id).toBe('1');
+      expect(NotFoundError.type).toBe('NotFound');
+      expectTypeOf(error).toEqualTypeOf<TaggedError<'NotFound', { id: string }>>();
+      expectTypeOf(error.id).toEqualTypeOf<string>();
+    });
+
+    it('creates messages from static strings, functions or the type', () => {
+      expect(new NotFoundError({ id: '1' }).message).toBe('Entity 1 not found');
+      expect(new ConflictError().message).toBe('Entity already exists');
+      expect(new UnknownError().message).toBe('Unknown');
+    });
+
+    it('requires props only when they are defined', () => {
+      // @ts-expect-error - props are required
+      expect(() => new NotFoundError()).toThrow();
+      expectTypeOf(ConflictError).constructorParameters.toEqualTypeOf<[props?: {}, options?: ErrorOptions]>();
+    });
+
+    it('does not allow props to overwrite the reserved properties', () => {
+      const PropsError = defineError<'Props', { id: string }>('Props');
+      // @ts-expect-error - type is reserved
+      const error = new PropsError({ id: '1', type: 'Other', name: 'Other', message: 'Other' });
+
+      expect(error.type).toBe('Props');
+      expect(error.name).toBe('Props');
+      expect(error.message).toBe('Props');
+      expect(error.id).toBe('1');
+      // @ts-expect-error - message is reserved
+      defineError('Message', (props: { message: string }) => props.message);
+    });
+
+    it('passes the cause to the native error', () => {
+      const cause = new Error('original');
+
+      expect(new ConflictError({}, { cause }).cause).toBe(cause);
+    });
+
+    it('can be extended', () => {
+      class PaymentError extends defineError('Payment', (props: { amount: number }) => `Cannot pay ${props.amount}`) {
+        get isLarge() {
+          return this.amount > 1000;
+        }
+      }
+
+      const error = new PaymentError({ amount: 2000 });
+
+      expect(error).toBeInstanceOf(PaymentError);
+      expect(error.isLarge).toBe(true);
+      expect(error.type).toBe('Payment');
+    });
+  });
+
+  describe('matchErr', () => {
+    const result = first(ok('data'), err(new NotFoundError({ id: '1' })), err(new ConflictError()));
+
+    it('passes Ok results unchanged', () => {
+      const matched = matchErr(result, {
+        NotFound: () => 404,
+        Conflict: () => 409,
+      });
+
+      expect(matched).toEqual(ok('data'));
+      expectTypeOf(matched).toEqualTypeOf<Result<'data', number>>();
+    });
+
+    it('calls the handler matching the error type', () => {
+      const handlers = {
+        NotFound: (error: NotFoundError) => `missing:${error.id}`,
+        Conflict: () => ok('recovered'),
+      } as const;
+
+      expect(matchErr(err(new NotFoundError({ id: '1' })), handlers)).toEqual(err('missing:1'));
+      expect(matchErr(err(new ConflictError()), handlers)).toEqual(ok('recovered'));
+    });
+
+    it('narrows the error passed to each handler', () => {
+      matchErr(result, {
+        NotFound: (error) => {
+          expectTypeOf(error).toEqualTypeOf<NotFoundError>();
+          return error;
+        },
+        Conflict: (error) => {
+          expectTypeOf(error).toEqualTypeOf<ConflictError>();
+          return error;
+        },
+      });
+    });
+
+    it('requires handlers for every error type', () => {
+      // @ts-expect-error - Conflict handler is missing
+      matchErr(result, { NotFound: () => 404 });
+    });
+
+    it('works with existing classes with the type field', () => {
+      const matched = matchErr(first(ok(1), err(new LegacyError('legacy'))), {
+        LegacyError: (error) => error.message,
+      });
+
+      expect(matched).toEqual(ok(1));
+      expectTypeOf(matched).toEqualTypeOf<Result<1, string>>();
+    });
+
+    it('returns a promise for async handlers', async () => {
+      const matched = matchErr(err(new NotFoundError({ id: '1' })), {
+        NotFound: async (error) => ok(error.id),
+      });
+
+      expect(await matched).toEqual(ok('1'));
+      expectTypeOf(matched).toEqualTypeOf<Promise<Result<string, never>>>();
+    });
+
+    it('returns a promise for async results', async () => {
+      const matched = matchErr(Promise.resolve(result), {
+        NotFound: () => 404,
+        Conflict: () => 409,
+      });
+
+      expect(await matched).toEqual(ok('data'));
+      expectTypeOf(matched).toEqualTypeOf<Promise<Result<'data', number>>>();
+    });
+
+    it('throws when there is no handler for the error type', () => {
+      const untyped = err(new UnknownError()) as unknown as Result<never, ConflictError>;
+
+      expect(() => matchErr(untyped, { Conflict: () => 409 })).toThrow(TypeError);
+    });
+
+    it('allows composition', () => {
+      const matched = pipe(
+        result,
+        matchErrFp({
+          NotFound: (error) => ok(error.id),
+          Conflict: () => 409,
+        }),
+      );
+
+      expect(matched).toEqual(ok('data'));
+      expectTypeOf(matched).toEqualTypeOf<Result<string, number>>();
+    });
+  });
+});
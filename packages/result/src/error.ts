@@ -0,0 +1,146 @@
+import type { MatchErrReturn, OrPromise } from './helpers.js';
+import type { Result, UnwrapErr } from './index.js';
+import { mapErr } from './index.js';
+
+/**
+ * An error instance created from a class returned by `defineError`.
+ * Carries the `type` literal used as a discriminant and the properties passed on creation.
+ *
+ * @template Type - The literal type of the error
+ * @template Props - The additional properties of the error
+ */
+export type TaggedError<Type extends string = string, Props extends object = {}> = Error & {
+  readonly type: Type;
+} & Readonly<Props>;
+
+/**
+ * A class returned by `defineError`.
+ * Can be instantiated directly or extended to add custom methods.
+ *
+ * @template Type - The literal type of the error
+ * @template Props - The additional properties of the error
+ */
+export interface TaggedErrorClass<Type extends string, Props extends object> {
+  new (
+    ...args: {} extends Props ? [props?: Props, options?: ErrorOptions] : [props: Props, options?: ErrorOptions]
+  ): TaggedError<Type, Props>;
+  readonly type: Type;
+}
+
+/**
+ * Any value that can be matched with `matchErr` (e.g. `ModelValidationError`, `ThrownActionError` or errors created with `defineError`).
+ */
+export type TaggedErrorLike = { readonly type: string };
+
+/**
+ * Handlers object required by `matchErr`.
+ * Contains exactly one handler for each `type` of the given error union.
+ *
+ * @template E - The union of errors to handle
+ */
+export type ErrHandlers<E> = {
+  [K in E extends TaggedErrorLike ? E['type'] : never]: (error: Extract<E, { readonly type: K }>) => unknown;
+};
+
+/**
+ * Creates an error class tagged with the given `type` literal.
+ * Instances extend the native Error class, so they keep stack traces and work with `instanceof`.
+ *
+ * The optional message can be a static string or a function receiving the error properties.
+ * When a function is provided, the type of its parameter determines the properties required by the constructor.
+ * The `type`, `name` and `message` properties are reserved and can't be passed as error properties.
+ *
+ * @template Type - The literal type of the error
+ * @template Props - The additional properties of the error
+ * @param type - The value of the `type` discriminant (also used as the error name)
+ * @param message - Static message or function creating the message from error properties
+ * @returns An error class tagged with the given type
+ *
+ * @example
+ * ```typescript
+ * const NotFoundError = defineError('NotFound', (props: { id: string }) => `Entity ${props.id} not found`);
+ * const ConflictError = defineError('Conflict', 'Entity already exists');
+ *
+ * const error = new NotFoundError({ id: '1' });
+ * console.log(error.type); // "NotFound"
+ * console.log(error.id); // "1"
+ * console.log(error.message); // "Entity 1 not found"
+ *
+ * class PaymentError extends defineError('Payment', (props: { amount: number }) => `Cannot pay ${props.amount}`) {
+ *   get isLarge() {
+ *     return this.amount > 1000;
+ *   }
+ * }
+ * ```
+ */
+export function defineError<const Type extends string, Props extends object & ReservedErrorProps = {}>(
+  type: Type,
+  message?: string | ((props: Props) => string),
+): TaggedErrorClass<Type, Props> {
+  return class extends Error {
+    static readonly type = type;
+
+    declare readonly type: Type;
+
+    constructor(props?: Props, options?: ErrorOptions) {
+      const text = typeof message === 'function' ? message(props as Props) : (message ?? type);
+
+      super(text, options);
+      Object.assign(this, props);
+      Object.assign(this, { type, name: type, message: text });
+    }
+  } as unknown as TaggedErrorClass<Type, Props>;
+}
+
+/**
+ * Handles the error of an Err result using the handler matching its `type` field.
+ * If the result is Ok, it passes through unchanged. Handlers work the same way as the `mapErr` mapper,
+ * so they can return a value (which becomes a new error), a Result, or a Promise.
+ *
+ * The handlers object is exhaustively type-checked, so a handler must be provided for every error type.
+ *
+ * @template R - The input Result type
+ * @template H - The type of the handlers object
+ * @param result - The Result to match on
+ * @param handlers - Object with a handler for each error `type`
+ * @returns A new Result with the handled error, or the original Ok result
+ *
+ * @example
+ * ```typescript
+ * const NotFoundError = defineError('NotFound', (props: { id: string }) => `User ${props.id} not found`);
+ * const ConflictError = defineError('Conflict');
+ *
+ * declare const result: Result<User, InstanceType<typeof NotFoundError> | InstanceType<typeof ConflictError>>;
+ *
+ * matchErr(result, {
+ *   NotFound: (error) => ok(createGuest(error.id)),
+ *   Conflict: () => 409,
+ * }); // Result<User, number>
+ *
+ * matchErr(result, {
+ *   NotFound: async (error) => ok(await createUser(error.id)),
+ *   Conflict: (error) => error,
+ * }); // Promise<Result<User, ConflictError>>
+ * ```
+ */
+export function matchErr<
+  R extends OrPromise<Result<unknown, TaggedErrorLike>>,
+  const H extends ErrHandlers<UnwrapErr<R>>,
+>(result: R, handlers: H): MatchErrReturn<R, H>;
+export function matchErr(
+  result: OrPromise<Result<unknown, TaggedErrorLike>>,
+  handlers: Record<string, (error: TaggedErrorLike) => unknown>,
+): OrPromise<Result> {
+  return mapErr(result, (error) => {
+    const handler = handlers[error.type];
+
+    if (!handler) throw new TypeError(`No handler provided for error type "${error.type}"`);
+
+    return handler(error);
+  });
+}
+
+/**
+ * Properties set by `defineError` that can't be overwritten by the error properties.
+ */
+type ReservedErrorProps = { type?: never; name?: never; message?: never };
@@ -1,6 +1,6 @@
 import { pipe } from '@uni-ts/composition';
 import { describe, expect, expectTypeOf, it } from 'vitest';
-import { mapErr, mapOk, match, tap, unwrapOr } from './fp.js';
+import { andThen, collectResults, mapErr, mapOk, mapOkIter, match, orElse, takeUntilErr, tap, unwrapOr } from './fp.js';
 import { first } from './helpers.js';
 import type { Result } from './index.js';
 import { err, ok } from './index.js';
@@ -62,6 +62,46 @@ describe('fp.ts', () => {
     });
   });
 
+  describe('andThen', () => {
+    it('allows composition', async () => {
+      const sync = pipe(
+        ok(1),
+        andThen((data) => (data ? ok(data * 2) : err('error1'))),
+        andThen((data) => (data > 1 ? ok(String(data)) : err({ error: data }))),
+      );
+      expect(sync).toEqual(ok('2'));
+      expectTypeOf(sync).toEqualTypeOf<Result<string, 'error1' | { readonly error: number }>>();
+
+      const async = pipe(
+        ok(1),
+        andThen(async (data) => (data ? ok(data * 2) : err('error1'))),
+        andThen((data) => (data > 1 ? ok(String(data)) : err({ error: data }))),
+      );
+      expect(await async).toEqual(ok('2'));
+      expectTypeOf(async).toEqualTypeOf<Promise<Result<string, 'error1' | { readonly error: number }>>>();
+    });
+  });
+
+  describe('orElse', () => {
+    it('allows composition', async () => {
+      const sync = pipe(
+        err(404),
+        orElse((error) => (error === 404 ? err({ code: 404 }) : ok(null))),
+        orElse((error) => (error.code ? ok('recovered') : err('not-found'))),
+      );
+      expect(sync).toEqual(ok('recovered'));
+      expectTypeOf(sync).toEqualTypeOf<Result<'recovered' | null, 'not-found'>>();
+
+      const async = pipe(
+        err(404),
+        orElse(async (error) => (error === 404 ? err({ code: 404 }) : ok(null))),
+        orElse((error) => (error.code ? ok('recovered') : err('not-found'))),
+      );
+      expect(await async).toEqual(ok('recovered'));
+      expectTypeOf(async).toEqualTypeOf<Promise<Result<'recovered' | null, 'not-found'>>>();
+    });
+  });
+
   describe('match', () => {
     it('allows composition', async () => {
       const sync = pipe(
@@ -161,4 +201,23 @@ describe('fp.ts', () => {
       });
     });
   });
+
+  describe('mapOkIter', () => {
+    it('allows composition', async () => {
+      async function* pages() {
+        yield first(ok({ items: [1, 2] }), err('error'));
+        yield first(err('error'), ok({ items: [3] }));
+      }
+
+      const result = pipe(
+        pages(),
+        mapOkIter((page) => page.items),
+        takeUntilErr,
+        collectResults,
+      );
+
+      expect(await result).toEqual(err('error'));
+      expectTypeOf(result).toEqualTypeOf<Promise<Result<(readonly [1, 2] | readonly [3])[], 'error'>>>();
+    });
+  });
 });
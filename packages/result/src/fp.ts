@@ -1,7 +1,17 @@
-import type { InferValueAsErr, InferValueAsOk, NonPromise, OrFunction, OrPromise } from './helpers.js';
+import type { ErrHandlers, TaggedErrorLike } from './error.js';
+import type { InferValueAsErr, InferValueAsOk, MatchErrReturn, NonPromise, OrFunction, OrPromise } from './helpers.js';
 import { isPromise } from './helpers.js';
 import type { Result, UnwrapErr, UnwrapOk } from './index.js';
-import { mapErr as _mapErr, mapOk as _mapOk, match as _match, unwrapOr as _unwrapOr } from './index.js';
+import {
+  andThen as _andThen,
+  mapErr as _mapErr,
+  mapOk as _mapOk,
+  mapOkIter as _mapOkIter,
+  match as _match,
+  matchErr as _matchErr,
+  orElse as _orElse,
+  unwrapOr as _unwrapOr,
+} from './index.js';
 
 /**
  * Takes the error handler and returns a function that accepts a Result.
@@ -105,6 +115,66 @@ export function mapErr<R extends Result, const MapperReturn>(
   return (result) => _mapErr(result, fn);
 }
 
+/**
+ * Takes a Result-returning function and returns a function that accepts a Result.
+ * The returned function chains the given function on the data of Ok results, while passing Err results unchanged.
+ *
+ * @template R - The input Result type
+ * @template MapperReturn - The Result type returned by the mapper function
+ * @param fn - Function receiving the Ok data and returning the next Result
+ * @returns A function that takes a Result and returns the Result produced by the mapper or the original Err
+ *
+ * @example
+ * ```typescript
+ * const result = pipe(
+ *   ok("42"),
+ *   andThen((value) => (value ? ok(Number(value)) : err("empty"))),  // Result<number, "empty">
+ *   andThen((num) => (num > 0 ? ok(num) : err("not_positive"))),     // Result<number, "empty" | "not_positive">
+ * );
+ * ```
+ */
+export function andThen<R extends Result, const MapperReturn extends Result>(
+  fn: (data: UnwrapOk<R>) => NonPromise<MapperReturn>,
+): (result: NonPromise<R>) => Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>;
+export function andThen<R extends Result, const MapperReturn extends Result>(
+  fn: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
+): (result: OrPromise<R>) => Promise<Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>>;
+export function andThen<R extends Result, const MapperReturn extends Result>(
+  fn: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
+): (result: OrPromise<R>) => OrPromise<Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>> {
+  return (result) => _andThen(result, fn);
+}
+
+/**
+ * Takes a Result-returning function and returns a function that accepts a Result.
+ * The returned function chains the given function on the error of Err results, while passing Ok results unchanged.
+ *
+ * @template R - The input Result type
+ * @template MapperReturn - The Result type returned by the mapper function
+ * @param fn - Function receiving the Err error and returning the next Result
+ * @returns A function that takes a Result and returns the Result produced by the mapper or the original Ok
+ *
+ * @example
+ * ```typescript
+ * const result = pipe(
+ *   err("cache_miss"),
+ *   orElse(() => fetchFromApi()),   // Result<Data, "network_error">
+ *   orElse(() => ok(defaultData)),  // Result<Data, never>
+ * );
+ * ```
+ */
+export function orElse<R extends Result, const MapperReturn extends Result>(
+  fn: (error: UnwrapErr<R>) => NonPromise<MapperReturn>,
+): (result: NonPromise<R>) => Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>;
+export function orElse<R extends Result, const MapperReturn extends Result>(
+  fn: (error: UnwrapErr<R>) => OrPromise<MapperReturn>,
+): (result: OrPromise<R>) => Promise<Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>>;
+export function orElse<R extends Result, const MapperReturn extends Result>(
+  fn: (error: UnwrapErr<R>) => OrPromise<MapperReturn>,
+): (result: OrPromise<R>) => OrPromise<Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>> {
+  return (result) => _orElse(result, fn);
+}
+
 /**
  * Takes handlers for Ok and Err results and returns a function that accepts a Result.
  * The returned function pattern matches on the Result, calling the appropriate handler and returning its result.
@@ -144,6 +214,34 @@ export function match<R extends Result, const OkReturn, const ErrReturn>(
   return (result) => _match(result, onOk, onErr);
 }
 
+/**
+ * Takes an object with error handlers and returns a function that accepts a Result.
+ * The returned function handles the error of Err results using the handler matching its `type` field,
+ * while passing Ok results unchanged.
+ *
+ * @template R - The input Result type
+ * @template H - The type of the handlers object
+ * @param handlers - Object with a handler for each error `type`
+ * @returns A function that takes a Result and returns a new Result with the handled error
+ *
+ * @example
+ * ```typescript
+ * const result = pipe(
+ *   findUser(id), // Result<User, NotFoundError | ConflictError>
+ *   matchErr({
+ *     NotFound: (error) => ok(createGuest(error.id)),
+ *     Conflict: () => 409,
+ *   }),
+ * ); // Result<User, 409>
+ * ```
+ */
+export function matchErr<
+  R extends OrPromise<Result<unknown, TaggedErrorLike>>,
+  const H extends ErrHandlers<UnwrapErr<R>>,
+>(handlers: H): (result: R) => MatchErrReturn<R, H> {
+  return (result) => _matchErr(result, handlers);
+}
+
 /**
  * Takes a side-effect function and returns a function that accepts a Result.
  * The returned function passes the Result through the side-effect function and returns the original Result unchanged.
@@ -190,8 +288,37 @@ export function tap<R extends Result, FnReturn>(
   };
 }
 
+/**
+ * Takes a mapper function and returns a function that accepts an async iterable of Results.
+ * The returned function lazily transforms the data of Ok results using the mapper, while passing Err results unchanged.
+ *
+ * @template R - The Result type of the iterable items
+ * @template MapperReturn - The type returned by the mapper function
+ * @param fn - Function to transform the Ok data
+ * @returns A function that takes an async iterable of Results and returns an async iterable of transformed Results
+ *
+ * @example
+ * ```typescript
+ * const items = pipe(
+ *   fetchPages(),                      // AsyncIterable<Result<Page, ApiError>>
+ *   mapOkIter((page) => page.items),   // AsyncIterable<Result<Item[], ApiError>>
+ *   takeUntilErr,
+ *   collectResults,
+ * ); // Promise<Result<Item[][], ApiError>>
+ * ```
+ */
+export function mapOkIter<R extends Result, const MapperReturn>(
+  fn: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
+): (iterable: AsyncIterable<R>) => AsyncIterable<Result<InferValueAsOk<MapperReturn>, UnwrapErr<R | MapperReturn>>> {
+  return (iterable) => _mapOkIter(iterable, fn);
+}
+
 export type {
   Err,
+  ErrHandlers,
+  ErrorCodec,
+  ErrorCodecRegistry,
+  ErrTrace,
   ExtractErr,
   ExtractOk,
   FlattenErr,
@@ -200,19 +327,46 @@ export type {
   InferOk,
   Ok,
   Result,
+  ResultConfig,
+  RetryOptions,
+  SerializedError,
+  SerializedResult,
+  TaggedError,
+  TaggedErrorClass,
+  TaggedErrorLike,
   UnknownResult,
   UnwrapErr,
   UnwrapOk,
 } from './index.js';
 export {
+  AbortedError,
+  all,
+  any,
+  collect,
+  collectResults,
+  configureResult,
+  createErrorCodecRegistry,
+  defineError,
+  deserializeResult,
   err,
+  filterOk,
   fromThrowable,
+  gen,
+  getErrTrace,
   isErr,
   isErrResult,
   isOk,
   isOkResult,
   isResult,
   ok,
+  partition,
+  retry,
+  SERIALIZED_RESULT_VERSION,
+  serializeResult,
+  TimeoutError,
+  taggedErrorCodec,
+  takeUntilErr,
+  timeout,
   toThrowable,
   toTuple,
   tryCatch,
@@ -1,4 +1,5 @@
-import type { Err, FlattenErr, FlattenOk, Ok, Result, UnwrapErr, UnwrapOk } from './index.js';
+import type { Err, ExtractErr, FlattenErr, FlattenOk, Ok, Result, UnwrapErr, UnwrapOk } from './index.js';
+import type { FlattenSome, None } from './option/index.js';
 
 export type Fn<A extends any[] = any[], R = any> = (...args: A) => R;
 
@@ -20,10 +21,37 @@ export type InferValueAsOk<T> = FlattenOk<Exclude<Awaited<Returned<T>>, Err>>;
 
 export type InferValueAsErr<T> = FlattenErr<Exclude<Awaited<Returned<T>>, Ok>>;
 
+export type HandlersReturn<H> = { [K in keyof H]: H[K] extends Fn<any[], infer T> ? T : never }[keyof H];
+
+export type MatchErrReturn<R, H> = [R] extends [Promise<unknown>]
+  ? Promise<MatchedResult<R, H>>
+  : [Extract<HandlersReturn<H>, Promise<unknown>>] extends [never]
+    ? MatchedResult<R, H>
+    : Promise<MatchedResult<R, H>>;
+
+type MatchedResult<R, H> = Result<UnwrapOk<R | HandlersReturn<H>>, InferValueAsErr<HandlersReturn<H>>>;
+
+export type InferValueAsSome<T> = FlattenSome<Exclude<Awaited<Returned<T>>, None>>;
+
 export type ResultTuple<R extends Result> = Readonly<
   [ok: UnwrapOk<R>, err: undefined] | [ok: undefined, err: UnwrapErr<R>]
 >;
 
+export type ResultCollection = readonly OrPromise<Result>[] | Readonly<Record<PropertyKey, OrPromise<Result>>>;
+
+export type SyncResultCollection = readonly Result[] | Readonly<Record<PropertyKey, Result>>;
+
+export type CollectionItem<T extends ResultCollection> = T extends readonly unknown[] ? T[number] : T[keyof T];
+
+export type CollectionOk<T extends ResultCollection> = { -readonly [K in keyof T]: UnwrapOk<T[K]> };
+
+export type CollectionErr<T extends ResultCollection> = { -readonly [K in keyof T]: UnwrapErr<T[K]> };
+
+export interface Unwrap {
+  <R extends Result>(result: R): Generator<ExtractErr<R>, UnwrapOk<R>>;
+  <R extends Result>(result: Promise<R>): AsyncGenerator<ExtractErr<R>, UnwrapOk<R>>;
+}
+
 export type IsAsync<Current extends boolean, Return> = [Return] extends [never]
   ? false
   : Current extends true
@@ -44,6 +72,19 @@ export function isFunction(value: unknown): value is Function {
   return typeof value === 'function';
 }
 
+export function isAsyncIterable<T = unknown>(value: unknown): value is AsyncIterable<T> {
+  return isObject(value) && Symbol.asyncIterator in value;
+}
+
+export async function* mapAsyncIterable<T, R>(
+  iterable: AsyncIterable<T>,
+  fn: (value: T) => OrPromise<R>,
+): AsyncIterable<R> {
+  for await (const value of iterable) {
+    yield fn(value);
+  }
+}
+
 export function mapOrPromise<T, R>(orPromise: OrPromise<T>, fn: (value: T) => R): OrPromise<R> {
   return isPromise(orPromise) ? orPromise.then(fn) : fn(orPromise);
 }
@@ -55,3 +96,35 @@ export function callOrFunction<T, A extends unknown[] = []>(orFn: OrFunction<T,
 export function first<const T extends unknown[]>(...args: T): T[number] {
   return args[0];
 }
+
+export function settleCollection<R>(
+  collection: ResultCollection,
+  fn: (results: Result[], toShape: (values: unknown[]) => unknown) => R,
+): OrPromise<R> {
+  const keys = Array.isArray(collection)
+    ? []
+    : Reflect.ownKeys(collection).filter((key) => Object.prototype.propertyIsEnumerable.call(collection, key));
+  const items = Array.isArray(collection)
+    ? collection
+    : keys.map((key) => (collection as Record<PropertyKey, unknown>)[key]);
+  const toShape = (values: unknown[]) =>
+    Array.isArray(collection) ? values : Object.fromEntries(keys.map((key, i) => [key, values[i]]));
+  const settled = items.some(isPromise) ? Promise.all(items) : (items as Result[]);
+
+  return mapOrPromise(settled, (results) => fn(results, toShape));
+}
+
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (ms <= 0 || signal?.aborted) return Promise.resolve();
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
@@ -15,8 +15,13 @@ import type {
   UnwrapOk,
 } from './index.js';
 import {
+  all,
+  andThen,
+  any,
+  collect,
   err,
   fromThrowable,
+  gen,
   isErr,
   isErrResult,
   isOk,
@@ -26,6 +31,8 @@ import {
   mapOk,
   match,
   ok,
+  orElse,
+  partition,
   toThrowable,
   toTuple,
   tryCatch,
@@ -1443,6 +1450,145 @@ describe('index.ts', () => {
     });
   });
 
+  describe('andThen', () => {
+    it('chains the data of an Ok result into the next Result', () => {
+      const result = andThen(ok(42), (data) => ok(data * 2));
+
+      expect(result).toEqual(ok(84));
+      expectTypeOf(result).toEqualTypeOf<Result<number, never>>();
+    });
+
+    it('skips the chaining for an Err result', () => {
+      const result = andThen(err('error'), (data) => ok(data * 2));
+
+      expect(result).toEqual(err('error'));
+      expectTypeOf(result).toEqualTypeOf<Result<number, 'error'>>();
+    });
+
+    it('returns the Err result produced by the mapper', () => {
+      const result = andThen(ok(42), (data) => (data > 0 ? err({ code: 404 }) : ok(data * 2)));
+
+      expect(result).toEqual(err({ code: 404 }));
+      expectTypeOf(result).toEqualTypeOf<Result<number, { readonly code: 404 }>>();
+    });
+
+    it('accumulates error types of the input and the mapper', () => {
+      const fn = (data: number) => (data > 0 ? ok(String(data)) : data < -10 ? err('too_small') : err({ code: 400 }));
+
+      const result = andThen(first(ok(1), err('initial_error')), fn);
+
+      expect(result).toEqual(ok('1'));
+      expectTypeOf(result).toEqualTypeOf<Result<string, 'initial_error' | 'too_small' | { readonly code: 400 }>>();
+    });
+
+    it('does not wrap Results returned by the mapper', () => {
+      const result = andThen(ok(1), () => ok(ok('nested')));
+
+      expect(result).toEqual(ok(ok('nested')));
+      expectTypeOf(result).toEqualTypeOf<Result<Ok<'nested'>, never>>();
+    });
+
+    describe('works with different data types', () => {
+      it('static input, function mapper', () => {
+        const output = andThen(ok(1), (data) => (data ? ok(data * 2) : err('error')));
+
+        expect(output).toEqual(ok(2));
+        expectTypeOf(output).toEqualTypeOf<Result<number, 'error'>>();
+      });
+
+      it('static input, async function mapper', async () => {
+        const output = andThen(ok(1), async (data) => (data ? ok(data * 2) : err('error')));
+
+        expect(await output).toEqual(ok(2));
+        expectTypeOf(output).toEqualTypeOf<Promise<Result<number, 'error'>>>();
+      });
+
+      it('promise input, function mapper', async () => {
+        const output = andThen(Promise.resolve(first(ok(1), err('initial'))), (data) =>
+          data ? ok(data * 2) : err('error'),
+        );
+
+        expect(await output).toEqual(ok(2));
+        expectTypeOf(output).toEqualTypeOf<Promise<Result<number, 'initial' | 'error'>>>();
+      });
+
+      it('promise input, async function mapper', async () => {
+        const output = andThen(Promise.resolve(first(ok(1), err('initial'))), async (data) =>
+          data ? ok(data * 2) : err('error'),
+        );
+
+        expect(await output).toEqual(ok(2));
+        expectTypeOf(output).toEqualTypeOf<Promise<Result<number, 'initial' | 'error'>>>();
+      });
+    });
+  });
+
+  describe('orElse', () => {
+    it('chains the error of an Err result into the next Result', () => {
+      const result = orElse(err(404), (error) => ok(`recovered from ${error}`));
+
+      expect(result).toEqual(ok('recovered from 404'));
+      expectTypeOf(result).toEqualTypeOf<Result<'recovered from 404', never>>();
+    });
+
+    it('skips the chaining for an Ok result', () => {
+      const result = orElse(ok(42), () => ok('fallback'));
+
+      expect(result).toEqual(ok(42));
+      expectTypeOf(result).toEqualTypeOf<Result<42 | 'fallback', never>>();
+    });
+
+    it('returns the Err result produced by the mapper', () => {
+      const result = orElse(err(404), (error) => (error === 404 ? err('not_found') : ok(null)));
+
+      expect(result).toEqual(err('not_found'));
+      expectTypeOf(result).toEqualTypeOf<Result<null, 'not_found'>>();
+    });
+
+    it('replaces the error type with the one returned by the mapper', () => {
+      const result = orElse(first(err('initial_error'), ok(1)), (error) =>
+        error ? err({ reason: error }) : ok('fallback'),
+      );
+
+      expect(result).toEqual(err({ reason: 'initial_error' }));
+      expectTypeOf(result).toEqualTypeOf<Result<1 | 'fallback', { readonly reason: 'initial_error' }>>();
+    });
+
+    describe('works with different data types', () => {
+      it('static input, function mapper', () => {
+        const output = orElse(err(1), (error) => (error ? err(error * 2) : ok('success')));
+
+        expect(output).toEqual(err(2));
+        expectTypeOf(output).toEqualTypeOf<Result<'success', number>>();
+      });
+
+      it('static input, async function mapper', async () => {
+        const output = orElse(err(1), async (error) => (error ? err(error * 2) : ok('success')));
+
+        expect(await output).toEqual(err(2));
+        expectTypeOf(output).toEqualTypeOf<Promise<Result<'success', number>>>();
+      });
+
+      it('promise input, function mapper', async () => {
+        const output = orElse(Promise.resolve(first(err(1), ok('initial'))), (error) =>
+          error ? err(error * 2) : ok('success'),
+        );
+
+        expect(await output).toEqual(err(2));
+        expectTypeOf(output).toEqualTypeOf<Promise<Result<'initial' | 'success', number>>>();
+      });
+
+      it('promise input, async function mapper', async () => {
+        const output = orElse(Promise.resolve(first(err(1), ok('initial'))), async (error) =>
+          error ? err(error * 2) : ok('success'),
+        );
+
+        expect(await output).toEqual(err(2));
+        expectTypeOf(output).toEqualTypeOf<Promise<Result<'initial' | 'success', number>>>();
+      });
+    });
+  });
+
   describe('match', () => {
     it('invokes the onOk function for Ok results', () => {
       const okType = match(
@@ -2006,5 +2152,291 @@ describe('index.ts', () => {
         expectTypeOf(error).toEqualTypeOf<'a' | { readonly status: 404 }>();
       }
     });
+
+    it('works with async iterables of results', async () => {
+      async function* results() {
+        yield first(ok(1), err('a'));
+        yield first(err('a'), ok(1));
+      }
+
+      const tuples: unknown[] = [];
+
+      for await (const [data, error] of toTuple(results())) {
+        expectTypeOf(data).toEqualTypeOf<1 | undefined>();
+        expectTypeOf(error).toEqualTypeOf<'a' | undefined>();
+        tuples.push([data, error]);
+      }
+
+      expect(tuples).toEqual([
+        [1, undefined],
+        [undefined, 'a'],
+      ]);
+    });
+  });
+
+  describe('all', () => {
+    it('returns an Ok result with data of all Results', () => {
+      const result = all([ok(1), ok('two'), ok({ three: 3 })]);
+
+      expect(result).toEqual(ok([1, 'two', { three: 3 }]));
+      expectTypeOf(result).toEqualTypeOf<Result<[1, 'two', { readonly three: 3 }], never>>();
+    });
+
+    it('returns the first Err result', () => {
+      const result = all([ok(1), err('first'), err('second')]);
+
+      expect(result).toEqual(err('first'));
+      expectTypeOf(result).toEqualTypeOf<Result<[1, never, never], 'first' | 'second'>>();
+    });
+
+    it('keeps the shape of an object input', () => {
+      const okResult = all({ a: ok(1), b: first(ok('b'), err('b_error')) });
+
+      expect(okResult).toEqual(ok({ a: 1, b: 'b' }));
+      expectTypeOf(okResult).toEqualTypeOf<Result<{ a: 1; b: 'b' }, 'b_error'>>();
+
+      const errResult = all({ a: ok(1), b: first(err('b_error'), ok('b')) });
+
+      expect(errResult).toEqual(err('b_error'));
+    });
+
+    it('includes Results under symbol keys', () => {
+      const key = Symbol('key');
+
+      expect(all({ [key]: err('x'), b: ok(1) })).toEqual(err('x'));
+      expect(all({ [key]: ok('x'), b: ok(1) })).toEqual(ok({ [key]: 'x', b: 1 }));
+    });
+
+    it('works with arrays', () => {
+      const results: Result<number, string>[] = [ok(1), ok(2)];
+      const result = all(results);
+
+      expect(result).toEqual(ok([1, 2]));
+      expectTypeOf(result).toEqualTypeOf<Result<number[], string>>();
+    });
+
+    it('returns an Ok result for empty input', () => {
+      expect(all([])).toEqual(ok([]));
+      expect(all({})).toEqual(ok({}));
+    });
+
+    it('returns a promise when any of the Results is a promise', async () => {
+      const result = all([ok(1), Promise.resolve(first(ok('two'), err('error')))]);
+
+      expect(result).toBeInstanceOf(Promise);
+      expect(await result).toEqual(ok([1, 'two']));
+      expectTypeOf(result).toEqualTypeOf<Promise<Result<[1, 'two'], 'error'>>>();
+    });
+
+    it('keeps the input order for promise Results', async () => {
+      const delayed = new Promise<Err<'slow'>>((resolve) => setTimeout(() => resolve(err('slow')), 5));
+      const result = all({ slow: delayed, fast: Promise.resolve(err('fast')) });
+
+      expect(await result).toEqual(err('slow'));
+      expectTypeOf(result).toEqualTypeOf<Promise<Result<{ slow: never; fast: never }, 'slow' | 'fast'>>>();
+    });
+  });
+
+  describe('collect', () => {
+    it('returns an Ok result with data of all Results', () => {
+      const result = collect([ok(1), ok('two')]);
+
+      expect(result).toEqual(ok([1, 'two']));
+      expectTypeOf(result).toEqualTypeOf<Result<[1, 'two'], never[]>>();
+    });
+
+    it('returns an Err result with all errors', () => {
+      const result = collect([err('first'), ok(1), err('second')]);
+
+      expect(result).toEqual(err(['first', 'second']));
+      expectTypeOf(result).toEqualTypeOf<Result<[never, 1, never], ('first' | 'second')[]>>();
+    });
+
+    it('keeps the shape of an object input', () => {
+      const result = collect({ a: first(ok(1), err('a_error')), b: first(ok('b'), err('b_error')) });
+
+      expect(result).toEqual(ok({ a: 1, b: 'b' }));
+      expectTypeOf(result).toEqualTypeOf<Result<{ a: 1; b: 'b' }, ('a_error' | 'b_error')[]>>();
+    });
+
+    it('includes Results under symbol keys', () => {
+      const key = Symbol('key');
+
+      expect(collect({ [key]: err('x'), b: err('y') })).toEqual(err(['y', 'x']));
+    });
+
+    it('returns a promise when any of the Results is a promise', async () => {
+      const result = collect({ a: Promise.resolve(err('a_error')), b: err('b_error') });
+
+      expect(await result).toEqual(err(['a_error', 'b_error']));
+      expectTypeOf(result).toEqualTypeOf<Promise<Result<{ a: never; b: never }, ('a_error' | 'b_error')[]>>>();
+    });
+  });
+
+  describe('any', () => {
+    it('returns the first Ok result', () => {
+      const result = any([err('a'), ok(2), ok(3)]);
+
+      expect(result).toEqual(ok(2));
+      expectTypeOf(result).toEqualTypeOf<Result<2 | 3, ['a', never, never]>>();
+    });
+
+    it('returns an Err result with all errors when there is no Ok result', () => {
+      const result = any([err('a'), err('b')]);
+
+      expect(result).toEqual(err(['a', 'b']));
+      expectTypeOf(result).toEqualTypeOf<Result<never, ['a', 'b']>>();
+    });
+
+    it('keeps the shape of an object input for errors', () => {
+      const result = any({ cache: first(err('cache_miss'), ok('cached')), api: first(err('api_error'), ok('fresh')) });
+
+      expect(result).toEqual(err({ cache: 'cache_miss', api: 'api_error' }));
+      expectTypeOf(result).toEqualTypeOf<Result<'cached' | 'fresh', { cache: 'cache_miss'; api: 'api_error' }>>();
+    });
+
+    it('includes Results under symbol keys', () => {
+      const key = Symbol('key');
+
+      expect(any({ [key]: ok('x'), b: err('y') })).toEqual(ok('x'));
+    });
+
+    it('returns a promise when any of the Results is a promise', async () => {
+      const result = any([Promise.resolve(err('a')), ok('b')]);
+
+      expect(await result).toEqual(ok('b'));
+      expectTypeOf(result).toEqualTypeOf<Promise<Result<'b', ['a', never]>>>();
+    });
+  });
+
+  describe('partition', () => {
+    it('splits Results into data and errors', () => {
+      const result = partition([ok(1), err('a'), ok(2), err('b')]);
+
+      expect(result).toEqual([
+        [1, 2],
+        ['a', 'b'],
+      ]);
+      expectTypeOf(result).toEqualTypeOf<[ok: (1 | 2)[], err: ('a' | 'b')[]]>();
+    });
+
+    it('works with object input', () => {
+      const result = partition({ a: ok(1), b: err('b') });
+
+      expect(result).toEqual([[1], ['b']]);
+      expectTypeOf(result).toEqualTypeOf<[ok: 1[], err: 'b'[]]>();
+    });
+
+    it('includes Results under symbol keys', () => {
+      const key = Symbol('key');
+
+      expect(partition({ [key]: err('x'), b: ok(1) })).toEqual([[1], ['x']]);
+    });
+
+    it('returns a promise when any of the Results is a promise', async () => {
+      const result = partition([Promise.resolve(ok(1)), err('a')]);
+
+      expect(await result).toEqual([[1], ['a']]);
+      expectTypeOf(result).toEqualTypeOf<Promise<[ok: 1[], err: 'a'[]]>>();
+    });
+  });
+
+  describe('gen', () => {
+    const parse = (value: string) => (Number.isNaN(Number(value)) ? err('not_a_number') : ok(Number(value)));
+
+    it('unwraps data of Ok results', () => {
+      const result = gen(function* (unwrap) {
+        const a = yield* unwrap(parse('4'));
+        const b = yield* unwrap(parse('2'));
+        expectTypeOf(a).toEqualTypeOf<number>();
+        expectTypeOf(b).toEqualTypeOf<number>();
+        return a / b;
+      });
+
+      expect(result).toEqual(ok(2));
+      expectTypeOf(result).toEqualTypeOf<Result<number, 'not_a_number'>>();
+    });
+
+    it('short-circuits on the first Err result', () => {
+      const executed: string[] = [];
+
+      const result = gen(function* (unwrap) {
+        executed.push('first');
+        const a = yield* unwrap(parse('x'));
+        executed.push('second');
+        const b = yield* unwrap(first(ok(true), err({ code: 500 })));
+        return { a, b };
+      });
+
+      expect(result).toEqual(err('not_a_number'));
+      expect(executed).toEqual(['first']);
+      expectTypeOf(result).toEqualTypeOf<
+        Result<{ readonly a: number; readonly b: true }, 'not_a_number' | { readonly code: 500 }>
+      >();
+    });
+
+    it('allows to return a Result from the generator', () => {
+      const result = gen(function* (unwrap) {
+        const a = yield* unwrap(parse('1'));
+        return a > 0 ? ok('positive') : err('not_positive');
+      });
+
+      expect(result).toEqual(ok('positive'));
+      expectTypeOf(result).toEqualTypeOf<Result<'positive', 'not_a_number' | 'not_positive'>>();
+    });
+
+    it('allows to yield Err results directly', () => {
+      const result = gen(function* () {
+        yield err('early_exit');
+        return 'unreachable';
+      });
+
+      expect(result).toEqual(err('early_exit'));
+      expectTypeOf(result).toEqualTypeOf<Result<string, 'early_exit'>>();
+    });
+
+    it('runs finally blocks when short-circuiting', () => {
+      const cleanup: string[] = [];
+
+      const result = gen(function* (unwrap) {
+        try {
+          return yield* unwrap(parse('x'));
+        } finally {
+          cleanup.push('cleanup');
+        }
+      });
+
+      expect(result).toEqual(err('not_a_number'));
+      expect(cleanup).toEqual(['cleanup']);
+    });
+
+    it('works with async generators', async () => {
+      const fetchUser = async (id: number) => (id > 0 ? ok({ id, name: 'John' }) : err('user_not_found'));
+
+      const result = gen(async function* (unwrap) {
+        const id = yield* unwrap(parse('1'));
+        const user = yield* unwrap(fetchUser(id));
+        return user.name;
+      });
+
+      expect(result).toBeInstanceOf(Promise);
+      expect(await result).toEqual(ok('John'));
+      expectTypeOf(result).toEqualTypeOf<Promise<Result<'John', 'not_a_number' | 'user_not_found'>>>();
+    });
+
+    it('short-circuits async generators on the first Err result', async () => {
+      const executed: string[] = [];
+
+      const result = gen(async function* (unwrap) {
+        executed.push('first');
+        yield* unwrap(Promise.resolve(err('async_error')));
+        executed.push('second');
+        return 'unreachable';
+      });
+
+      expect(await result).toEqual(err('async_error'));
+      expect(executed).toEqual(['first']);
+      expectTypeOf(result).toEqualTypeOf<Promise<Result<string, 'async_error'>>>();
+    });
   });
 });
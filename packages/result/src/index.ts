@@ -1,13 +1,28 @@
+import { captureErrTrace, inheritErrTrace } from './debug.js';
 import type {
+  CollectionErr,
+  CollectionItem,
+  CollectionOk,
   InferValueAsErr,
   InferValueAsOk,
   NonPromise,
   OrFunction,
   OrPromise,
+  ResultCollection,
   ResultTuple,
   Returned,
+  SyncResultCollection,
+  Unwrap,
+} from './helpers.js';
+import {
+  callOrFunction,
+  isAsyncIterable,
+  isObject,
+  isPromise,
+  mapAsyncIterable,
+  mapOrPromise,
+  settleCollection,
 } from './helpers.js';
-import { callOrFunction, isObject, isPromise, mapOrPromise } from './helpers.js';
 
 /**
  * Represents a successful result containing data.
@@ -240,7 +255,7 @@ export function ok<const T>(data: T): Ok<T> {
  * ```
  */
 export function err<const T>(error: T): Err<T> {
-  return { success: false, error };
+  return captureErrTrace({ success: false, error });
 }
 
 /**
@@ -582,7 +597,11 @@ export function tryCatch<const TryReturn, const CatchReturn>(
   toTry: OrFunction<OrPromise<TryReturn>>,
   toCatch: OrFunction<OrPromise<CatchReturn>, [error: unknown]>,
 ): OrPromise<Result<TryReturn | UnwrapOk<CatchReturn>, InferValueAsErr<CatchReturn>>> {
-  const catchFn = (ex: unknown) => mapOrPromise(callOrFunction(toCatch, ex), valueToErr);
+  const catchFn = (ex: unknown) =>
+    mapOrPromise(callOrFunction(toCatch, ex), (value) => {
+      const result = valueToErr(value);
+      return isErr(result) ? captureErrTrace(result, ex) : result;
+    });
 
   try {
     const result = callOrFunction(toTry);
@@ -596,6 +615,7 @@ export function tryCatch<const TryReturn, const CatchReturn>(
 /**
  * Transforms the data of an Ok result using a mapper function.
  * If the result is Err, it passes through unchanged. The mapper can return a value, Result, or Promise.
+ * When the mapper always returns a Result, prefer `andThen` which doesn't inspect the returned value.
  *
  * @template R - The input Result type
  * @template MapperReturn - The type returned by the mapper function
@@ -627,7 +647,11 @@ export function mapOk<R extends Result, const MapperReturn>(
   result: OrPromise<R>,
   mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
 ): OrPromise<Result<InferValueAsOk<MapperReturn>, UnwrapErr<R | MapperReturn>>> {
-  return match(result, (data) => mapOrPromise(mapper(data), valueToOk), err);
+  if (isPromise(result)) {
+    return result.then((r) => mapOk(r, mapper));
+  }
+
+  return isOk(result) ? mapOrPromise(mapper(result.data), valueToOk) : result;
 }
 
 /**
@@ -666,7 +690,93 @@ export function mapErr<R extends Result, const MapperReturn>(
   result: OrPromise<R>,
   mapper: (data: UnwrapErr<R>) => OrPromise<MapperReturn>,
 ): OrPromise<Result<UnwrapOk<R | MapperReturn>, InferValueAsErr<MapperReturn>>> {
-  return match(result, ok, (error) => mapOrPromise(mapper(error), valueToErr));
+  return mapOrPromise(result, (r) =>
+    isOk(r)
+      ? ok(r.data)
+      : mapOrPromise(mapper(r.error as UnwrapErr<R>), (value) => inheritErrTrace(valueToErr(value), r)),
+  ) as OrPromise<Result<UnwrapOk<R | MapperReturn>, InferValueAsErr<MapperReturn>>>;
+}
+
+/**
+ * Chains a Result-returning function on the data of an Ok result.
+ * If the result is Err, it passes through unchanged. Unlike mapOk, the mapper must return a Result (or Promise of it)
+ * which becomes the new Result as is.
+ *
+ * @template R - The input Result type
+ * @template MapperReturn - The Result type returned by the mapper function
+ * @param result - The Result to chain from
+ * @param mapper - Function receiving the Ok data and returning the next Result
+ * @returns The Result returned by the mapper, or the original Err result
+ *
+ * @example
+ * ```typescript
+ * function parseNumber(value: string) {
+ *   const num = Number(value);
+ *   return Number.isNaN(num) ? err('not_a_number') : ok(num);
+ * }
+ *
+ * andThen(ok('42'), parseNumber); // Result<number, "not_a_number">
+ *
+ * andThen(err('empty_input'), parseNumber); // Result<number, "empty_input" | "not_a_number">
+ *
+ * andThen(ok('42'), async (id) => {
+ *   const user = await findUser(id);
+ *   return user ? ok(user) : err('not_found');
+ * }); // Promise<Result<User, "not_found">>
+ * ```
+ */
+export function andThen<R extends Result, const MapperReturn extends Result>(
+  result: NonPromise<R>,
+  mapper: (data: UnwrapOk<R>) => NonPromise<MapperReturn>,
+): Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>;
+export function andThen<R extends Result, const MapperReturn extends Result>(
+  result: OrPromise<R>,
+  mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
+): Promise<Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>>;
+export function andThen<R extends Result, const MapperReturn extends Result>(
+  result: OrPromise<R>,
+  mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
+): OrPromise<Result<UnwrapOk<MapperReturn>, UnwrapErr<R | MapperReturn>>> {
+  if (isPromise(result)) {
+    return result.then((r) => andThen(r, mapper));
+  }
+
+  return isOk(result) ? mapper(result.data) : result;
+}
+
+/**
+ * Chains a Result-returning function on the error of an Err result.
+ * If the result is Ok, it passes through unchanged. Unlike mapErr, the mapper must return a Result (or Promise of it)
+ * which becomes the new Result as is. Useful for recovering from errors with a fallback operation.
+ *
+ * @template R - The input Result type
+ * @template MapperReturn - The Result type returned by the mapper function
+ * @param result - The Result to chain from
+ * @param mapper - Function receiving the Err error and returning the next Result
+ * @returns The Result returned by the mapper, or the original Ok result
+ *
+ * @example
+ * ```typescript
+ * orElse(err('cache_miss'), () => ok('fresh data')); // Result<"fresh data", never>
+ *
+ * orElse(ok('cached data'), () => ok('fresh data')); // Result<"cached data" | "fresh data", never>
+ *
+ * orElse(err(404), (code) => (code === 404 ? ok(null) : err(`HTTP ${code}`))); // Result<null, `HTTP ${number}`>
+ * ```
+ */
+export function orElse<R extends Result, const MapperReturn extends Result>(
+  result: NonPromise<R>,
+  mapper: (error: UnwrapErr<R>) => NonPromise<MapperReturn>,
+): Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>;
+export function orElse<R extends Result, const MapperReturn extends Result>(
+  result: OrPromise<R>,
+  mapper: (error: UnwrapErr<R>) => OrPromise<MapperReturn>,
+): Promise<Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>>;
+export function orElse<R extends Result, const MapperReturn extends Result>(
+  result: OrPromise<R>,
+  mapper: (error: UnwrapErr<R>) => OrPromise<MapperReturn>,
+): OrPromise<Result<UnwrapOk<R | MapperReturn>, UnwrapErr<MapperReturn>>> {
+  return match(result, ok, mapper);
 }
 
 /**
@@ -753,9 +863,11 @@ export function match<R extends Result, const OkReturn, const ErrReturn>(
  * and the second value is error (for error results).
  * Useful when you want to safely unwrap a result without additional unwrapping logic.
  *
+ * When an async iterable of Results is given, each item is lazily transformed into a tuple.
+ *
  * @template R - The input Result type
- * @param result - The Result to match on
- * @returns A tuple with unwrapped result data and error
+ * @param result - The Result (or async iterable of Results) to match on
+ * @returns A tuple with unwrapped result data and error (or an async iterable of such tuples)
  *
  * @example
  * ```typescript
@@ -768,11 +880,23 @@ export function match<R extends Result, const OkReturn, const ErrReturn>(
  * if (!error) {
  *   console.log(`Division result is: ${data}`);
  * }
+ *
+ * for await (const [page, error] of toTuple(fetchPages())) {
+ *   if (error) break;
+ *   console.log(page.items);
+ * }
  * ```
  */
 export function toTuple<R extends Result>(result: NonPromise<R>): ResultTuple<R>;
 export function toTuple<R extends Result>(result: OrPromise<R>): Promise<ResultTuple<R>>;
-export function toTuple<R extends Result>(result: OrPromise<R>): OrPromise<ResultTuple<R>> {
+export function toTuple<R extends Result>(results: AsyncIterable<R>): AsyncIterable<ResultTuple<R>>;
+export function toTuple<R extends Result>(
+  result: OrPromise<R> | AsyncIterable<R>,
+): OrPromise<ResultTuple<R>> | AsyncIterable<ResultTuple<R>> {
+  if (isAsyncIterable(result)) {
+    return mapAsyncIterable(result, (r) => toTuple(r));
+  }
+
   return match(
     result,
     (data) => [data, undefined],
@@ -780,6 +904,198 @@ export function toTuple<R extends Result>(result: OrPromise<R>): OrPromise<Resul
   );
 }
 
+/**
+ * Runs a generator function that allows to unwrap Results in an imperative way (do-notation).
+ * Inside the generator, `yield* unwrap(result)` returns the data of an Ok result or stops the execution
+ * for an Err result, making it the final Result. The value returned from the generator becomes the Ok data
+ * (or the final Result if a Result is returned).
+ *
+ * Async generators are supported as well. They allow to unwrap Promises of Results and return a Promise of the final Result.
+ *
+ * @template Yielded - The Err results that can be yielded from the generator
+ * @template Return - The type returned by the generator
+ * @param fn - Generator function receiving the `unwrap` helper
+ * @returns A Result with the generator's return value or the first unwrapped Err result
+ *
+ * @example
+ * ```typescript
+ * const result = gen(function* (unwrap) {
+ *   const a = yield* unwrap(parseNumber(input.a)); // number
+ *   const b = yield* unwrap(parseNumber(input.b)); // number
+ *   if (b === 0) return err('division_by_zero');
+ *   return a / b;
+ * }); // Result<number, "not_a_number" | "division_by_zero">
+ *
+ * const user = await gen(async function* (unwrap) {
+ *   const session = yield* unwrap(getSession(token)); // Promise<Result<Session, "unauthorized">>
+ *   const user = yield* unwrap(findUser(session.userId)); // Promise<Result<User, "not_found">>
+ *   return user;
+ * }); // Result<User, "unauthorized" | "not_found">
+ * ```
+ */
+export function gen<Yielded extends Err, const Return>(
+  fn: (unwrap: Unwrap) => Generator<Yielded, Return>,
+): Result<InferValueAsOk<Return>, UnwrapErr<Yielded | Return>>;
+export function gen<Yielded extends Err, const Return>(
+  fn: (unwrap: Unwrap) => AsyncGenerator<Yielded, Return>,
+): Promise<Result<InferValueAsOk<Return>, UnwrapErr<Yielded | Return>>>;
+export function gen(fn: (unwrap: Unwrap) => Generator<Err, unknown> | AsyncGenerator<Err, unknown>): OrPromise<Result> {
+  const generator = fn(unwrap as Unwrap);
+  const step = generator.next();
+  const complete = ({ done, value }: IteratorResult<Err, unknown>) => (done ? valueToOk(value) : value);
+
+  if (isPromise(step)) {
+    return step.then(async (asyncStep) => {
+      if (!asyncStep.done) await generator.return(undefined);
+      return complete(asyncStep);
+    });
+  }
+
+  if (!step.done) generator.return(undefined);
+  return complete(step);
+}
+
+/**
+ * Combines a tuple, array or object of Results into a single Result.
+ * Returns an Ok result with all the data (keeping the shape of the input) if every Result is Ok,
+ * or the first Err result (in the input order) otherwise.
+ *
+ * If any of the given values is a Promise, the combined Result is returned as a Promise as well.
+ *
+ * @template T - The tuple, array or object of Results
+ * @param results - The Results to combine
+ * @returns An Ok result with data of all Results or the first Err result
+ *
+ * @example
+ * ```typescript
+ * all([ok(1), ok('two')]); // Result<[1, "two"], never>
+ *
+ * all({ user: ok(user), posts: err('posts_not_found') }); // Result<{ user: User; posts: never }, "posts_not_found">
+ *
+ * all([fetchUser(id), fetchPosts(id)]); // Promise<Result<[User, Post[]], UserError | PostsError>>
+ * ```
+ */
+export function all<const T extends SyncResultCollection>(
+  results: T,
+): Result<CollectionOk<T>, UnwrapErr<CollectionItem<T>>>;
+export function all<const T extends ResultCollection>(
+  results: T,
+): Promise<Result<CollectionOk<T>, UnwrapErr<CollectionItem<T>>>>;
+export function all(results: ResultCollection): OrPromise<Result> {
+  return settleCollection(results, (settled, toShape) => {
+    const firstErr = settled.find(isErr);
+    return firstErr ?? ok(toShape((settled as Ok[]).map((r) => r.data)));
+  });
+}
+
+/**
+ * Combines a tuple, array or object of Results into a single Result, collecting every error.
+ * Unlike `all`, it doesn't stop at the first Err result but returns an Err result with the errors
+ * of all failed Results (in the input order). Returns an Ok result with all the data (keeping the shape of the input)
+ * if every Result is Ok.
+ *
+ * If any of the given values is a Promise, the combined Result is returned as a Promise as well.
+ *
+ * @template T - The tuple, array or object of Results
+ * @param results - The Results to combine
+ * @returns An Ok result with data of all Results or an Err result with a list of all errors
+ *
+ * @example
+ * ```typescript
+ * collect([ok(1), ok('two')]); // Result<[1, "two"], never[]>
+ *
+ * collect({
+ *   name: validateName(input.name),
+ *   email: validateEmail(input.email),
+ * }); // Result<{ name: Name; email: Email }, ("invalid_name" | "invalid_email")[]>
+ * ```
+ */
+export function collect<const T extends SyncResultCollection>(
+  results: T,
+): Result<CollectionOk<T>, UnwrapErr<CollectionItem<T>>[]>;
+export function collect<const T extends ResultCollection>(
+  results: T,
+): Promise<Result<CollectionOk<T>, UnwrapErr<CollectionItem<T>>[]>>;
+export function collect(results: ResultCollection): OrPromise<Result> {
+  return settleCollection(results, (settled, toShape) => {
+    const errors = settled.filter(isErr).map((r) => r.error);
+    return errors.length ? err(errors) : ok(toShape((settled as Ok[]).map((r) => r.data)));
+  });
+}
+
+/**
+ * Returns the first Ok result (in the input order) from a tuple, array or object of Results.
+ * If none of the Results is Ok, returns an Err result with all the errors (keeping the shape of the input).
+ *
+ * If any of the given values is a Promise, the Result is returned as a Promise as well.
+ *
+ * @template T - The tuple, array or object of Results
+ * @param results - The Results to pick the first Ok result from
+ * @returns The first Ok result or an Err result with errors of all Results
+ *
+ * @example
+ * ```typescript
+ * any([err('a'), ok(2), ok(3)]); // Result<2 | 3, ["a", never, never]>
+ *
+ * any([fetchFromCache(key), fetchFromApi(key)]); // Promise<Result<Data, [CacheError, ApiError]>>
+ * ```
+ */
+export function any<const T extends SyncResultCollection>(
+  results: T,
+): Result<UnwrapOk<CollectionItem<T>>, CollectionErr<T>>;
+export function any<const T extends ResultCollection>(
+  results: T,
+): Promise<Result<UnwrapOk<CollectionItem<T>>, CollectionErr<T>>>;
+export function any(results: ResultCollection): OrPromise<Result> {
+  return settleCollection(results, (settled, toShape) => {
+    const firstOk = settled.find(isOk);
+    return firstOk ?? err(toShape((settled as Err[]).map((r) => r.error)));
+  });
+}
+
+/**
+ * Splits a tuple, array or object of Results into a tuple of two lists:
+ * data of all Ok results and errors of all Err results (both in the input order).
+ *
+ * If any of the given values is a Promise, the tuple is returned as a Promise as well.
+ *
+ * @template T - The tuple, array or object of Results
+ * @param results - The Results to split
+ * @returns A tuple with the list of Ok data and the list of Err errors
+ *
+ * @example
+ * ```typescript
+ * const [users, errors] = partition(ids.map(findUser));
+ * // users: User[]
+ * // errors: "not_found"[]
+ * ```
+ */
+export function partition<const T extends SyncResultCollection>(
+  results: T,
+): [ok: UnwrapOk<CollectionItem<T>>[], err: UnwrapErr<CollectionItem<T>>[]];
+export function partition<const T extends ResultCollection>(
+  results: T,
+): Promise<[ok: UnwrapOk<CollectionItem<T>>[], err: UnwrapErr<CollectionItem<T>>[]]>;
+export function partition(results: ResultCollection): OrPromise<[ok: unknown[], err: unknown[]]> {
+  return settleCollection(results, (settled) => [
+    settled.filter(isOk).map((r) => r.data),
+    settled.filter(isErr).map((r) => r.error),
+  ]);
+}
+
+function unwrap(result: OrPromise<Result>) {
+  return isPromise(result) ? unwrapAsyncResult(result) : unwrapResult(result);
+}
+
+function* unwrapResult(result: Result): Generator<Err, unknown> {
+  if (isOk(result)) return result.data;
+  yield result;
+}
+
+async function* unwrapAsyncResult(result: Promise<Result>): AsyncGenerator<Err, unknown> {
+  return yield* unwrapResult(await result);
+}
+
 function valueToErr(value: unknown) {
   return isResult(value) ? value : err(value);
 }
@@ -787,3 +1103,19 @@ function valueToErr(value: unknown) {
 function valueToOk(value: unknown) {
   return isResult(value) ? value : ok(value);
 }
+
+export type { ErrTrace, ResultConfig } from './debug.js';
+export { configureResult, getErrTrace } from './debug.js';
+export type { ErrHandlers, TaggedError, TaggedErrorClass, TaggedErrorLike } from './error.js';
+export { defineError, matchErr } from './error.js';
+export { collectResults, filterOk, mapOkIter, takeUntilErr } from './iter.js';
+export type { RetryOptions } from './retry.js';
+export { AbortedError, retry, TimeoutError, timeout } from './retry.js';
+export type { ErrorCodec, ErrorCodecRegistry, SerializedError, SerializedResult } from './serialize.js';
+export {
+  createErrorCodecRegistry,
+  deserializeResult,
+  SERIALIZED_RESULT_VERSION,
+  serializeResult,
+  taggedErrorCodec,
+} from './serialize.js';
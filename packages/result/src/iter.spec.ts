@@ -0,0 +1,105 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { first } from './helpers.js';
+import type { Ok, Result } from './index.js';
+import { err, ok } from './index.js';
+import { collectResults, filterOk, mapOkIter, takeUntilErr } from './iter.js';
+
+describe('iter.ts', () => {
+  function source<const T extends Result[]>(...results: T) {
+    const pulled = vi.fn();
+
+    async function* generate(): AsyncGenerator<T[number]> {
+      for (const result of results) {
+        pulled(result);
+        yield result;
+      }
+    }
+
+    return { iterable: generate(), pulled };
+  }
+
+  async function toArray<T>(iterable: AsyncIterable<T>) {
+    const items: T[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+  }
+
+  describe('mapOkIter', () => {
+    it('transforms data of Ok results and passes Err results unchanged', async () => {
+      const { iterable } = source(ok(1), err('error'), ok(2));
+      const mapped = mapOkIter(iterable, (data) => data * 2);
+
+      expect(await toArray(mapped)).toEqual([ok(2), err('error'), ok(4)]);
+      expectTypeOf(mapped).toEqualTypeOf<AsyncIterable<Result<number, 'error'>>>();
+    });
+
+    it('follows mapOk semantics for async mappers and returned Results', async () => {
+      const { iterable } = source(ok(1), ok(-1));
+      const mapped = mapOkIter(iterable, async (data) => (data > 0 ? ok(data) : err('negative')));
+
+      expect(await toArray(mapped)).toEqual([ok(1), err('negative')]);
+      expectTypeOf(mapped).toEqualTypeOf<AsyncIterable<Result<1 | -1, 'negative'>>>();
+    });
+
+    it('is lazy', async () => {
+      const { iterable, pulled } = source(ok(1), ok(2));
+      const mapper = vi.fn((data: 1 | 2) => data);
+      const iterator = mapOkIter(iterable, mapper)[Symbol.asyncIterator]();
+
+      expect(pulled).not.toHaveBeenCalled();
+
+      await iterator.next();
+
+      expect(pulled).toHaveBeenCalledTimes(1);
+      expect(mapper).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('filterOk', () => {
+    it('skips Err results', async () => {
+      const { iterable } = source(ok(1), err('error'), ok('two'));
+      const filtered = filterOk(iterable);
+
+      expect(await toArray(filtered)).toEqual([ok(1), ok('two')]);
+      expectTypeOf(filtered).toEqualTypeOf<AsyncIterable<Ok<1> | Ok<'two'>>>();
+    });
+  });
+
+  describe('takeUntilErr', () => {
+    it('passes Results until the first Err result (inclusive)', async () => {
+      const { iterable, pulled } = source(ok(1), err('first'), ok(2), err('second'));
+
+      expect(await toArray(takeUntilErr(iterable))).toEqual([ok(1), err('first')]);
+      expect(pulled).toHaveBeenCalledTimes(2);
+    });
+
+    it('passes all Results when there is no Err result', async () => {
+      const { iterable } = source(ok(1), ok(2));
+
+      expect(await toArray(takeUntilErr(iterable))).toEqual([ok(1), ok(2)]);
+    });
+  });
+
+  describe('collectResults', () => {
+    it('returns an Ok result with data of all items', async () => {
+      const { iterable } = source(ok(1), ok(2), first(ok(3), err('error')));
+      const result = await collectResults(iterable);
+
+      expect(result).toEqual(ok([1, 2, 3]));
+      expectTypeOf(result).toEqualTypeOf<Result<(1 | 2 | 3)[], 'error'>>();
+    });
+
+    it('returns the first Err result without consuming the rest', async () => {
+      const { iterable, pulled } = source(ok(1), err('first'), err('second'));
+
+      expect(await collectResults(iterable)).toEqual(err('first'));
+      expect(pulled).toHaveBeenCalledTimes(2);
+    });
+
+    it('returns an Ok result with an empty list for empty iterables', async () => {
+      const { iterable } = source();
+
+      expect(await collectResults(iterable)).toEqual(ok([]));
+    });
+  });
+});
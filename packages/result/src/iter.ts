@@ -0,0 +1,104 @@
+import type { InferValueAsOk, OrPromise } from './helpers.js';
+import type { ExtractOk, Result, UnwrapErr, UnwrapOk } from './index.js';
+import { isErr, isOk, mapOk, ok } from './index.js';
+
+/**
+ * Lazily transforms the data of Ok results from an async iterable using the mapper function.
+ * Err results are passed unchanged, following the semantics of `mapOk`.
+ *
+ * @template R - The Result type of the iterable items
+ * @template MapperReturn - The type returned by the mapper function
+ * @param iterable - The async iterable of Results to transform
+ * @param mapper - Function to transform the Ok data (can return a Result or a Promise)
+ * @returns An async iterable of transformed Results
+ *
+ * @example
+ * ```typescript
+ * async function* fetchPages() {
+ *   yield await fetchPage(1); // Result<Page, ApiError>
+ *   yield await fetchPage(2); // Result<Page, ApiError>
+ * }
+ *
+ * const items = mapOkIter(fetchPages(), (page) => page.items); // AsyncIterable<Result<Item[], ApiError>>
+ * ```
+ */
+export async function* mapOkIter<R extends Result, const MapperReturn>(
+  iterable: AsyncIterable<R>,
+  mapper: (data: UnwrapOk<R>) => OrPromise<MapperReturn>,
+): AsyncIterable<Result<InferValueAsOk<MapperReturn>, UnwrapErr<R | MapperReturn>>> {
+  for await (const result of iterable) {
+    yield mapOk(result, mapper);
+  }
+}
+
+/**
+ * Lazily skips Err results from an async iterable, leaving only the Ok results.
+ *
+ * @template R - The Result type of the iterable items
+ * @param iterable - The async iterable of Results to filter
+ * @returns An async iterable of Ok results
+ *
+ * @example
+ * ```typescript
+ * for await (const { data } of filterOk(readLines(file))) {
+ *   console.log(data); // Only successfully parsed lines
+ * }
+ * ```
+ */
+export async function* filterOk<R extends Result>(iterable: AsyncIterable<R>): AsyncIterable<ExtractOk<R>> {
+  for await (const result of iterable) {
+    if (isOk(result)) yield result as ExtractOk<R>;
+  }
+}
+
+/**
+ * Lazily passes Results from an async iterable until the first Err result.
+ * The Err result is passed as the last item and the source iterable is closed afterwards,
+ * so no further items are requested from it.
+ *
+ * @template R - The Result type of the iterable items
+ * @param iterable - The async iterable of Results
+ * @returns An async iterable of Results ending with the first Err result (if any)
+ *
+ * @example
+ * ```typescript
+ * for await (const page of takeUntilErr(fetchPages())) {
+ *   if (isErr(page)) {
+ *     console.error('Stopped fetching pages', page.error);
+ *   }
+ * }
+ * ```
+ */
+export async function* takeUntilErr<R extends Result>(iterable: AsyncIterable<R>): AsyncIterable<R> {
+  for await (const result of iterable) {
+    yield result;
+    if (isErr(result)) return;
+  }
+}
+
+/**
+ * Consumes an async iterable of Results into a single Result.
+ * Returns an Ok result with the data of all items (in the iteration order) or the first Err result.
+ * Unlike `collect`, it stops at the first Err result, so the rest of the iterable is not consumed.
+ *
+ * @template R - The Result type of the iterable items
+ * @param iterable - The async iterable of Results to consume
+ * @returns A Promise of an Ok result with a list of all data or the first Err result
+ *
+ * @example
+ * ```typescript
+ * const pages = await collectResults(fetchPages()); // Result<Page[], ApiError>
+ * ```
+ */
+export async function collectResults<R extends Result>(
+  iterable: AsyncIterable<R>,
+): Promise<Result<UnwrapOk<R>[], UnwrapErr<R>>> {
+  const data: UnwrapOk<R>[] = [];
+
+  for await (const result of iterable) {
+    if (isErr(result)) return result as Result<never, UnwrapErr<R>>;
+    data.push(result.data as UnwrapOk<R>);
+  }
+
+  return ok(data);
+}
@@ -0,0 +1,75 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { first } from '../helpers.js';
+import type { Result } from '../index.js';
+import { err, ok } from '../index.js';
+import { option } from './builder.js';
+import type { Option } from './index.js';
+import { fromNullable, none, some } from './index.js';
+
+describe('option/builder.ts', () => {
+  describe('sync option', () => {
+    it('chains operations', () => {
+      const created = option(some(1))
+        .mapSome((value) => value * 2)
+        .mapSome((value) => (value > 1 ? some(String(value)) : none()))
+        .create();
+
+      expect(created).toEqual(some('2'));
+      expectTypeOf(created).toEqualTypeOf<Option<string>>();
+    });
+
+    it('switches to async builder for async mappers', async () => {
+      const created = option(some(1))
+        .mapSome(async (value) => value * 2)
+        .create();
+
+      expect(await created).toEqual(some(2));
+      expectTypeOf(created).toEqualTypeOf<Promise<Option<number>>>();
+    });
+
+    it('matches, unwraps and converts to result', () => {
+      const builder = option(first(some('value'), none()));
+
+      expect(builder.match((value) => ({ value }), 'empty')).toEqual({ value: 'value' });
+      expect(builder.unwrapOr('default')).toBe('value');
+      expect(builder.toResult('missing')).toEqual(ok('value'));
+      expectTypeOf(builder.toResult('missing')).toEqualTypeOf<Result<'value', 'missing'>>();
+      expect(option(none()).toResult(() => 'missing')).toEqual(err('missing'));
+    });
+  });
+
+  describe('async option', () => {
+    it('chains operations', async () => {
+      const builder = option(Promise.resolve(first(some(1), none()))).mapSome((value) => value + 1);
+
+      expect(await builder.create()).toEqual(some(2));
+      expect(await builder.unwrapOr(0)).toBe(2);
+      expect(await builder.match((value) => value * 10, 'empty')).toBe(20);
+      expect(await builder.toResult('missing')).toEqual(ok(2));
+      expectTypeOf(builder.unwrapOr(0)).toEqualTypeOf<Promise<number>>();
+    });
+  });
+
+  describe('function option', () => {
+    it('creates a function returning the final option', () => {
+      const users = new Map([['1', { name: 'John' }]]);
+
+      const getUserName = option((id: string) => fromNullable(users.get(id)))
+        .mapSome((user) => user.name)
+        .unwrapOr('Anonymous');
+
+      expect(getUserName('1')).toBe('John');
+      expect(getUserName('2')).toBe('Anonymous');
+      expectTypeOf(getUserName).toEqualTypeOf<(id: string) => string>();
+    });
+
+    it('becomes async once any step is async', async () => {
+      const fn = option((value: number) => some(value))
+        .mapSome(async (value) => value * 2)
+        .toResult('missing');
+
+      expect(await fn(2)).toEqual(ok(4));
+      expectTypeOf(fn).toEqualTypeOf<(value: number) => Promise<Result<number, 'missing'>>>();
+    });
+  });
+});
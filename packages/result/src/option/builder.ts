@@ -0,0 +1,177 @@
+import type { InferValueAsSome, IsAsync, NonPromise, OrFunction, OrPromise } from '../helpers.js';
+import { isFunction, isPromise } from '../helpers.js';
+import type { Result } from '../index.js';
+import type { Option, UnwrapSome } from './index.js';
+import { mapSome, match, toResult, unwrapOr } from './index.js';
+
+/**
+ * Creates a fluent Option builder that allows chaining operations.
+ * Serves as an alternative API to the functional approach for transforming and handling Options.
+ *
+ * Automatically handles sync/async contexts and preserves type safety throughout the chain.
+ *
+ * @template O - The Option type returned by the function or the direct Option type
+ * @template A - The argument types of the function (when input is a function)
+ *
+ * @param fn - A function that returns a synchronous Option
+ * @returns A function Option builder for chaining operations on the function's Option
+ *
+ * @example
+ * ```typescript
+ * const returningOption = option(some(1))
+ *   .mapSome(value => value * 2)
+ *   .create(); // Some<2>
+ *
+ * const returningFunction = option((id: string) => fromNullable(users.get(id)))
+ *   .mapSome(user => user.name)
+ *   .create(); // (id: string) => Option<string>
+ * ```
+ */
+export function option<O extends Option, A extends unknown[] = []>(
+  fn: (...args: A) => NonPromise<O>,
+): FnOptionBuilder<O, A, false>;
+export function option<O extends Option>(option: NonPromise<O>): SyncOptionBuilder<O>;
+export function option<O extends OrPromise<Option>, A extends unknown[] = []>(
+  fn: (...args: A) => OrPromise<O>,
+): FnOptionBuilder<O, A, true>;
+export function option<O extends OrPromise<Option>>(option: O): AsyncOptionBuilder<Awaited<O>>;
+export function option<O extends OrFunction<OrPromise<Option>, A>, A extends unknown[] = []>(option: O): unknown {
+  return isFunction(option)
+    ? new FnOptionBuilder(option)
+    : isPromise(option)
+      ? new AsyncOptionBuilder(option)
+      : new SyncOptionBuilder(option);
+}
+
+class SyncOptionBuilder<O extends Option> {
+  constructor(private option: NonPromise<O>) {}
+
+  mapSome<const MapperReturn>(
+    mapper: (value: UnwrapSome<O>) => NonPromise<MapperReturn>,
+  ): SyncOptionBuilder<Option<InferValueAsSome<MapperReturn>>>;
+  mapSome<const MapperReturn>(
+    mapper: (value: UnwrapSome<O>) => OrPromise<MapperReturn>,
+  ): AsyncOptionBuilder<Option<InferValueAsSome<MapperReturn>>>;
+  mapSome<const MapperReturn>(mapper: (value: UnwrapSome<O>) => OrPromise<MapperReturn>): unknown {
+    const mapperOption = mapSome(this.option, mapper);
+
+    return isPromise(mapperOption) ? new AsyncOptionBuilder(mapperOption) : new SyncOptionBuilder(mapperOption);
+  }
+
+  match<const SomeReturn, const NoneReturn>(
+    onSome: (value: UnwrapSome<O>) => NonPromise<SomeReturn>,
+    onNone: OrFunction<NonPromise<NoneReturn>>,
+  ): SomeReturn | NoneReturn;
+  match<const SomeReturn, const NoneReturn>(
+    onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+    onNone: OrFunction<OrPromise<NoneReturn>>,
+  ): Promise<SomeReturn | NoneReturn>;
+  match<const SomeReturn, const NoneReturn>(
+    onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+    onNone: OrFunction<OrPromise<NoneReturn>>,
+  ): unknown {
+    return match(this.option, onSome, onNone);
+  }
+
+  unwrapOr<const NoneReturn>(onNone: OrFunction<NonPromise<NoneReturn>>): UnwrapSome<O> | NoneReturn;
+  unwrapOr<const NoneReturn>(onNone: OrFunction<OrPromise<NoneReturn>>): Promise<UnwrapSome<O> | NoneReturn>;
+  unwrapOr<const NoneReturn>(onNone: OrFunction<OrPromise<NoneReturn>>): unknown {
+    return unwrapOr(this.option, onNone);
+  }
+
+  toResult<const ErrValue>(onNone: OrFunction<NonPromise<ErrValue>>): Result<UnwrapSome<O>, ErrValue>;
+  toResult<const ErrValue>(onNone: OrFunction<OrPromise<ErrValue>>): Promise<Result<UnwrapSome<O>, ErrValue>>;
+  toResult<const ErrValue>(onNone: OrFunction<OrPromise<ErrValue>>): unknown {
+    return toResult(this.option, onNone);
+  }
+
+  create(): O {
+    return this.option;
+  }
+}
+
+class AsyncOptionBuilder<O extends Option> {
+  constructor(private option: Promise<O>) {}
+
+  mapSome<const MapperReturn>(
+    mapper: (value: UnwrapSome<O>) => OrPromise<MapperReturn>,
+  ): AsyncOptionBuilder<Option<InferValueAsSome<MapperReturn>>> {
+    return new AsyncOptionBuilder(mapSome(this.option, mapper));
+  }
+
+  match<const SomeReturn, const NoneReturn>(
+    onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+    onNone: OrFunction<OrPromise<NoneReturn>>,
+  ): Promise<SomeReturn | NoneReturn> {
+    return match(this.option, onSome, onNone);
+  }
+
+  unwrapOr<const NoneReturn>(onNone: OrFunction<OrPromise<NoneReturn>>): Promise<UnwrapSome<O> | NoneReturn> {
+    return unwrapOr(this.option, onNone);
+  }
+
+  toResult<const ErrValue>(onNone: OrFunction<OrPromise<ErrValue>>): Promise<Result<UnwrapSome<O>, ErrValue>> {
+    return toResult(this.option, onNone);
+  }
+
+  create(): Promise<O> {
+    return this.option;
+  }
+}
+
+class FnOptionBuilder<O extends OrPromise<Option>, A extends unknown[] = [], Async extends boolean = false> {
+  constructor(private fn: (...args: A) => O) {}
+
+  mapSome<const MapperReturn>(
+    mapper: (value: UnwrapSome<O>) => NonPromise<MapperReturn>,
+  ): FnOptionBuilder<Option<InferValueAsSome<MapperReturn>>, A, IsAsync<Async, MapperReturn>>;
+  mapSome<const MapperReturn>(
+    mapper: (value: UnwrapSome<O>) => MapperReturn,
+  ): FnOptionBuilder<Option<InferValueAsSome<MapperReturn>>, A, IsAsync<Async, MapperReturn>>;
+  mapSome<const MapperReturn>(mapper: (value: UnwrapSome<O>) => OrPromise<MapperReturn>): unknown {
+    return new FnOptionBuilder((...args: A) => mapSome(this.fn(...args), mapper));
+  }
+
+  match<const SomeReturn, const NoneReturn>(
+    onSome: (value: UnwrapSome<O>) => NonPromise<SomeReturn>,
+    onNone: OrFunction<NonPromise<NoneReturn>>,
+  ): FnOption<A, SomeReturn | NoneReturn, Async>;
+  match<const SomeReturn, const NoneReturn>(
+    onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+    onNone: OrFunction<OrPromise<NoneReturn>>,
+  ): (...args: A) => Promise<SomeReturn | NoneReturn>;
+  match<const SomeReturn, const NoneReturn>(
+    onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+    onNone: OrFunction<OrPromise<NoneReturn>>,
+  ): unknown {
+    return (...args: A) => match(this.fn(...args), onSome, onNone);
+  }
+
+  unwrapOr<const NoneReturn>(
+    onNone: OrFunction<NonPromise<NoneReturn>>,
+  ): FnOption<A, UnwrapSome<O> | NoneReturn, Async>;
+  unwrapOr<const NoneReturn>(
+    onNone: OrFunction<OrPromise<NoneReturn>>,
+  ): (...args: A) => Promise<UnwrapSome<O> | NoneReturn>;
+  unwrapOr<const NoneReturn>(onNone: OrFunction<OrPromise<NoneReturn>>): unknown {
+    return (...args: A) => unwrapOr(this.fn(...args), onNone);
+  }
+
+  toResult<const ErrValue>(
+    onNone: OrFunction<NonPromise<ErrValue>>,
+  ): FnOption<A, Result<UnwrapSome<O>, ErrValue>, Async>;
+  toResult<const ErrValue>(
+    onNone: OrFunction<OrPromise<ErrValue>>,
+  ): (...args: A) => Promise<Result<UnwrapSome<O>, ErrValue>>;
+  toResult<const ErrValue>(onNone: OrFunction<OrPromise<ErrValue>>): unknown {
+    return (...args: A) => toResult(this.fn(...args), onNone);
+  }
+
+  create() {
+    return this.fn as FnOption<A, O, Async>;
+  }
+}
+
+type FnOption<A extends unknown[], T, Async extends boolean> = (
+  ...args: A
+) => Async extends true ? Promise<Awaited<T>> : Awaited<T>;
@@ -0,0 +1,88 @@
+import { flow, pipe } from '@uni-ts/composition';
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { first } from '../helpers.js';
+import type { Result } from '../index.js';
+import { err, ok } from '../index.js';
+import type { Option } from './fp.js';
+import { fromNullable, mapSome, match, none, some, toResult, unwrapOr } from './fp.js';
+
+describe('option/fp.ts', () => {
+  describe('unwrapOr', () => {
+    it('allows composition', async () => {
+      expect(pipe(some('value'), unwrapOr('default'))).toBe('value');
+      expectTypeOf(pipe(some('value'), unwrapOr('default'))).toEqualTypeOf<'value' | 'default'>();
+
+      expect(pipe(none(), unwrapOr('default'))).toBe('default');
+      expectTypeOf(pipe(none(), unwrapOr('default'))).toEqualTypeOf<'default'>();
+
+      expect(await pipe(some('value'), async (o) => o, unwrapOr('default'))).toBe('value');
+      expectTypeOf(pipe(some('value'), async (o) => o, unwrapOr('default'))).toEqualTypeOf<
+        Promise<'value' | 'default'>
+      >();
+    });
+  });
+
+  describe('mapSome', () => {
+    it('allows composition', async () => {
+      const sync = pipe(
+        some(1),
+        mapSome((value) => value * 2),
+        mapSome((value) => (value > 1 ? some(String(value)) : none())),
+      );
+      expect(sync).toEqual(some('2'));
+      expectTypeOf(sync).toEqualTypeOf<Option<string>>();
+
+      const async = pipe(
+        some(1),
+        mapSome(async (value) => value * 2),
+        mapSome((value) => (value > 1 ? some(String(value)) : none())),
+      );
+      expect(await async).toEqual(some('2'));
+      expectTypeOf(async).toEqualTypeOf<Promise<Option<string>>>();
+    });
+  });
+
+  describe('toResult', () => {
+    it('allows composition', async () => {
+      const sync = pipe(first(some('value'), none()), toResult('missing'));
+      expect(sync).toEqual(ok('value'));
+      expectTypeOf(sync).toEqualTypeOf<Result<'value', 'missing'>>();
+
+      const async = pipe(none(), async (o) => o, toResult('missing'));
+      expect(await async).toEqual(err('missing'));
+      expectTypeOf(async).toEqualTypeOf<Promise<Result<never, 'missing'>>>();
+    });
+  });
+
+  describe('match', () => {
+    it('allows composition', async () => {
+      const sync = pipe(
+        first(some('value'), none()),
+        match((value) => ({ value }), 'empty'),
+      );
+      expect(sync).toEqual({ value: 'value' });
+      expectTypeOf(sync).toEqualTypeOf<{ readonly value: 'value' } | 'empty'>();
+
+      const async = pipe(
+        Promise.resolve(first(some('value'), none())),
+        match((value) => ({ value }), 'empty'),
+      );
+      expect(await async).toEqual({ value: 'value' });
+      expectTypeOf(async).toEqualTypeOf<Promise<{ readonly value: 'value' } | 'empty'>>();
+    });
+  });
+
+  it('builds reusable pipelines with flow', () => {
+    const users = new Map([['1', { name: 'John' }]]);
+
+    const getUserName = flow(
+      (id: string) => fromNullable(users.get(id)),
+      mapSome((user) => user.name),
+      unwrapOr('Anonymous'),
+    );
+
+    expect(getUserName('1')).toBe('John');
+    expect(getUserName('2')).toBe('Anonymous');
+    expectTypeOf(getUserName).toEqualTypeOf<(id: string) => string>();
+  });
+});
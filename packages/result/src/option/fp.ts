@@ -0,0 +1,135 @@
+import type { InferValueAsSome, NonPromise, OrFunction, OrPromise } from '../helpers.js';
+import type { Result } from '../index.js';
+import type { Option, UnwrapSome } from './index.js';
+import { mapSome as _mapSome, match as _match, toResult as _toResult, unwrapOr as _unwrapOr } from './index.js';
+
+/**
+ * Takes the fallback for None options and returns a function that accepts an Option.
+ * The returned function unwraps the Option, returning the value for Some options and the fallback for None options.
+ *
+ * @template O - The input Option type
+ * @template NoneReturn - The type returned for None options
+ * @param onNone - The value or function that determines the value returned for None options
+ * @returns A function that takes an Option and returns either the Some value or the fallback
+ *
+ * @example
+ * ```typescript
+ * const value1 = pipe(some("hello"), unwrapOr("default")); // "hello"
+ * const value2 = pipe(none(), unwrapOr("default")); // "default"
+ * ```
+ */
+export function unwrapOr<O extends Option, const NoneReturn>(
+  onNone: OrFunction<NonPromise<NoneReturn>>,
+): (option: NonPromise<O>) => UnwrapSome<O> | NoneReturn;
+export function unwrapOr<O extends OrPromise<Option>, const NoneReturn>(
+  onNone: OrFunction<OrPromise<NoneReturn>>,
+): (option: O) => Promise<UnwrapSome<O> | NoneReturn>;
+export function unwrapOr<O extends OrPromise<Option>, const NoneReturn>(
+  onNone: OrFunction<OrPromise<NoneReturn>>,
+): (option: O) => OrPromise<UnwrapSome<O> | NoneReturn> {
+  return (option: O) => _unwrapOr(option, onNone);
+}
+
+/**
+ * Takes a mapper function and returns a function that accepts an Option.
+ * The returned function transforms the value of Some options using the mapper, while passing None options unchanged.
+ *
+ * @template O - The input Option type
+ * @template MapperReturn - The type returned by the mapper function
+ * @param fn - Function to transform the Some value
+ * @returns A function that takes an Option and returns a new Option with the transformed value
+ *
+ * @example
+ * ```typescript
+ * const option = pipe(
+ *   some(42),
+ *   mapSome((x) => x * 2),         // Some<number>
+ *   mapSome((x) => x.toString()),  // Some<string>
+ * );
+ * ```
+ */
+export function mapSome<O extends Option, const MapperReturn>(
+  fn: (value: UnwrapSome<O>) => NonPromise<MapperReturn>,
+): (option: NonPromise<O>) => Option<InferValueAsSome<MapperReturn>>;
+export function mapSome<O extends Option, const MapperReturn>(
+  fn: (value: UnwrapSome<O>) => OrPromise<MapperReturn>,
+): (option: OrPromise<O>) => Promise<Option<InferValueAsSome<MapperReturn>>>;
+export function mapSome<O extends Option, const MapperReturn>(
+  fn: (value: UnwrapSome<O>) => OrPromise<MapperReturn>,
+): (option: OrPromise<O>) => OrPromise<Option<InferValueAsSome<MapperReturn>>> {
+  return (option) => _mapSome(option, fn);
+}
+
+/**
+ * Takes the error for None options and returns a function that accepts an Option.
+ * The returned function converts the Option into a Result, using the provided error for None options.
+ *
+ * @template O - The input Option type
+ * @template ErrValue - The type of the error used for None options
+ * @param onNone - The error value or function returning it used for None options
+ * @returns A function that takes an Option and returns a Result
+ *
+ * @example
+ * ```typescript
+ * const result = pipe(
+ *   fromNullable(users.get(id)),
+ *   toResult(() => new NotFoundError()),
+ * ); // Result<User, NotFoundError>
+ * ```
+ */
+export function toResult<O extends Option, const ErrValue>(
+  onNone: OrFunction<NonPromise<ErrValue>>,
+): (option: NonPromise<O>) => Result<UnwrapSome<O>, ErrValue>;
+export function toResult<O extends OrPromise<Option>, const ErrValue>(
+  onNone: OrFunction<OrPromise<ErrValue>>,
+): (option: O) => Promise<Result<UnwrapSome<O>, ErrValue>>;
+export function toResult<O extends OrPromise<Option>, const ErrValue>(
+  onNone: OrFunction<OrPromise<ErrValue>>,
+): (option: O) => OrPromise<Result<UnwrapSome<O>, ErrValue>> {
+  return (option: O) => _toResult(option, onNone);
+}
+
+/**
+ * Takes handlers for Some and None options and returns a function that accepts an Option.
+ * The returned function pattern matches on the Option and calls the appropriate handler.
+ *
+ * @template O - The input Option type
+ * @template SomeReturn - The type returned by the Some handler
+ * @template NoneReturn - The type returned by the None handler
+ * @param onSome - Function to handle Some options
+ * @param onNone - Value or function to handle None options
+ * @returns A function that takes an Option and returns the result of the appropriate handler
+ *
+ * @example
+ * ```typescript
+ * const message = pipe(some("hello"), match(
+ *   (value) => `Value: ${value}`,
+ *   () => "No value",
+ * )); // "Value: hello"
+ * ```
+ */
+export function match<O extends Option, const SomeReturn, const NoneReturn>(
+  onSome: (value: UnwrapSome<O>) => NonPromise<SomeReturn>,
+  onNone: OrFunction<NonPromise<NoneReturn>>,
+): (option: NonPromise<O>) => SomeReturn | NoneReturn;
+export function match<O extends Option, const SomeReturn, const NoneReturn>(
+  onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+  onNone: OrFunction<OrPromise<NoneReturn>>,
+): (option: OrPromise<O>) => Promise<SomeReturn | NoneReturn>;
+export function match<O extends Option, const SomeReturn, const NoneReturn>(
+  onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+  onNone: OrFunction<OrPromise<NoneReturn>>,
+): (option: OrPromise<O>) => OrPromise<SomeReturn | NoneReturn> {
+  return (option) => _match(option, onSome, onNone);
+}
+
+export type {
+  ExtractSome,
+  FlattenSome,
+  None,
+  Option,
+  Some,
+  UnknownOption,
+  UnwrapSome,
+} from './index.js';
+export { fromNullable, fromResult, isNone, isOption, isSome, none, some } from './index.js';
@@ -0,0 +1,196 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { first } from '../helpers.js';
+import type { Result } from '../index.js';
+import { err, ok } from '../index.js';
+import type { Option } from './index.js';
+import {
+  fromNullable,
+  fromResult,
+  isNone,
+  isOption,
+  isSome,
+  mapSome,
+  match,
+  none,
+  some,
+  toResult,
+  unwrapOr,
+} from './index.js';
+
+describe('option/index.ts', () => {
+  describe('some', () => {
+    it('creates a Some option', () => {
+      expect(some('value')).toEqual({ some: true, value: 'value' });
+      expectTypeOf(some('value')).toEqualTypeOf<{ readonly some: true; readonly value: 'value' }>();
+    });
+  });
+
+  describe('none', () => {
+    it('creates a None option', () => {
+      expect(none()).toEqual({ some: false });
+      expectTypeOf(none()).toEqualTypeOf<{ readonly some: false }>();
+    });
+  });
+
+  describe('isOption', () => {
+    it('returns true for valid options', () => {
+      expect(isOption(some(1))).toBe(true);
+      expect(isOption(some(undefined))).toBe(true);
+      expect(isOption(none())).toBe(true);
+    });
+
+    it('returns false for other values', () => {
+      expect(isOption(null)).toBe(false);
+      expect(isOption({ value: 1 })).toBe(false);
+      expect(isOption({ some: true })).toBe(false);
+      expect(isOption({ some: false, value: 1 })).toBe(false);
+      expect(isOption({ some: true, value: 1, extra: 2 })).toBe(false);
+      expect(isOption(ok(1))).toBe(false);
+    });
+  });
+
+  describe('isSome / isNone', () => {
+    it('narrows the option type', () => {
+      const option = first(some('value'), none());
+
+      expect(isSome(option)).toBe(true);
+      expect(isNone(option)).toBe(false);
+
+      if (isSome(option)) {
+        expectTypeOf(option.value).toEqualTypeOf<'value'>();
+      }
+    });
+  });
+
+  describe('fromNullable', () => {
+    it('returns Some for non-nullish values', () => {
+      expect(fromNullable(0)).toEqual(some(0));
+      expect(fromNullable('')).toEqual(some(''));
+      expect(fromNullable(false)).toEqual(some(false));
+    });
+
+    it('returns None for null and undefined', () => {
+      expect(fromNullable(null)).toEqual(none());
+      expect(fromNullable(undefined)).toEqual(none());
+    });
+
+    it('removes nullish types from the value', () => {
+      expectTypeOf(fromNullable(first('value', null, undefined))).toEqualTypeOf<Option<'value'>>();
+    });
+  });
+
+  describe('fromResult', () => {
+    it('converts Ok results to Some options', () => {
+      expect(fromResult(ok('data'))).toEqual(some('data'));
+      expectTypeOf(fromResult(first(ok('data'), err('error')))).toEqualTypeOf<Option<'data'>>();
+    });
+
+    it('converts Err results to None options', () => {
+      expect(fromResult(err('error'))).toEqual(none());
+    });
+
+    it('works with promises', async () => {
+      const option = fromResult(Promise.resolve(ok('data')));
+
+      expect(await option).toEqual(some('data'));
+      expectTypeOf(option).toEqualTypeOf<Promise<Option<'data'>>>();
+    });
+  });
+
+  describe('toResult', () => {
+    it('converts Some options to Ok results', () => {
+      const result = toResult(first(some('value'), none()), 'missing');
+
+      expect(result).toEqual(ok('value'));
+      expectTypeOf(result).toEqualTypeOf<Result<'value', 'missing'>>();
+    });
+
+    it('converts None options to Err results', () => {
+      expect(toResult(none(), 'missing')).toEqual(err('missing'));
+      expect(toResult(none(), () => 'missing')).toEqual(err('missing'));
+    });
+
+    it('works with promises', async () => {
+      const result = toResult(Promise.resolve(first(some('value'), none())), 'missing');
+
+      expect(await result).toEqual(ok('value'));
+      expectTypeOf(result).toEqualTypeOf<Promise<Result<'value', 'missing'>>>();
+      expect(await toResult(Promise.resolve(none()), async () => 'missing')).toEqual(err('missing'));
+    });
+  });
+
+  describe('mapSome', () => {
+    it('transforms the value of Some options', () => {
+      const option = mapSome(first(some(2), none()), (value) => value * 2);
+
+      expect(option).toEqual(some(4));
+      expectTypeOf(option).toEqualTypeOf<Option<number>>();
+    });
+
+    it('passes None options unchanged', () => {
+      const mapper = (value: number) => value * 2;
+
+      expect(mapSome(none(), mapper)).toEqual(none());
+    });
+
+    it('flattens options returned from the mapper', () => {
+      const option = mapSome(some(2), (value) => (value > 1 ? some('big') : none()));
+
+      expect(option).toEqual(some('big'));
+      expectTypeOf(option).toEqualTypeOf<Option<'big'>>();
+      expect(mapSome(some(0), (value) => (value > 1 ? some('big') : none()))).toEqual(none());
+    });
+
+    it('works with promises', async () => {
+      const option = mapSome(Promise.resolve(some(2)), async (value) => value * 2);
+
+      expect(await option).toEqual(some(4));
+      expectTypeOf(option).toEqualTypeOf<Promise<Option<number>>>();
+    });
+  });
+
+  describe('unwrapOr', () => {
+    it('returns the value of Some options', () => {
+      const value = unwrapOr(first(some('value'), none()), 'default');
+
+      expect(value).toBe('value');
+      expectTypeOf(value).toEqualTypeOf<'value' | 'default'>();
+    });
+
+    it('returns the fallback for None options', () => {
+      expect(unwrapOr(none(), 'default')).toBe('default');
+      expect(unwrapOr(none(), () => 'default')).toBe('default');
+    });
+
+    it('works with promises', async () => {
+      const value = unwrapOr(Promise.resolve(first(some('value'), none())), 'default');
+
+      expect(await value).toBe('value');
+      expectTypeOf(value).toEqualTypeOf<Promise<'value' | 'default'>>();
+    });
+  });
+
+  describe('match', () => {
+    it('calls the handler matching the option', () => {
+      const option = first(some(1), none());
+      const matched = match(option, (value) => ({ value }), 'empty');
+
+      expect(matched).toEqual({ value: 1 });
+      expectTypeOf(matched).toEqualTypeOf<{ readonly value: 1 } | 'empty'>();
+      expect(
+        match(
+          none(),
+          () => 'value',
+          () => 'empty',
+        ),
+      ).toBe('empty');
+    });
+
+    it('works with promises', async () => {
+      const matched = match(Promise.resolve(first(some(1), none())), async (value) => value + 1, 'empty');
+
+      expect(await matched).toBe(2);
+      expectTypeOf(matched).toEqualTypeOf<Promise<number | 'empty'>>();
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import type { InferValueAsSome, NonPromise, OrFunction, OrPromise, Returned } from '../helpers.js';
+import { callOrFunction, isObject, isPromise, mapOrPromise } from '../helpers.js';
+import type { Result, UnwrapOk } from '../index.js';
+import { err, isOk, ok } from '../index.js';
+
+/**
+ * Represents an Option containing a value.
+ *
+ * This interface is part of a discriminated union with `None` to create the `Option` type.
+ * Use the `some()` function to create instances rather than constructing manually.
+ *
+ * @template T - The type of the contained value
+ *
+ * @example
+ * ```typescript
+ * const option: Some<string> = some("Hello");
+ * console.log(option.some); // true
+ * console.log(option.value); // "Hello"
+ * ```
+ */
+export interface Some<T = any> {
+  readonly some: true;
+  readonly value: T;
+}
+
+/**
+ * Represents an Option without a value.
+ *
+ * This interface is part of a discriminated union with `Some` to create the `Option` type.
+ * Use the `none()` function to create instances rather than constructing manually.
+ *
+ * @example
+ * ```typescript
+ * const option: None = none();
+ * console.log(option.some); // false
+ * ```
+ */
+export interface None {
+  readonly some: false;
+}
+
+/**
+ * Represents a value that may be absent.
+ * This is a discriminated union of Some and None types where the `some` property is used as a discriminant.
+ *
+ * Unlike `null` or `undefined`, an Option can be nested and transformed without losing
+ * the information about whether the value was present.
+ *
+ * @template T - The type of the contained value
+ *
+ * @example
+ * ```typescript
+ * function findUser(id: string): Option<User> {
+ *   const user = users.get(id);
+ *   return user ? some(user) : none();
+ * }
+ *
+ * const option = findUser("1");
+ * if (option.some) {
+ *   console.log(option.value); // User
+ * }
+ * ```
+ */
+export type Option<T = any> = Some<T> | None;
+
+/**
+ * An Option type with unknown value type.
+ * Useful when you need to work with options but don't know the specific type.
+ */
+export type UnknownOption = Option<unknown>;
+
+/**
+ * Extracts only the Some types from a union type.
+ *
+ * @template T - The type to extract Some types from
+ *
+ * @example
+ * ```typescript
+ * type T1 = ExtractSome<Some<'x'> | None | Some<true>>; // Some<'x'> | Some<true>
+ * ```
+ */
+export type ExtractSome<T> = Extract<T, Some>;
+
+/**
+ * Extracts the value type from Some options, handling promises and function return types.
+ * Returns never if no Some types are found in the input type.
+ *
+ * @template T - The type to extract the value from
+ *
+ * @example
+ * ```typescript
+ * type T1 = UnwrapSome<Option<string>>; // string
+ * type T2 = UnwrapSome<Promise<Option<string>>>; // string
+ * type T3 = UnwrapSome<() => Option<number>>; // number
+ * type T4 = UnwrapSome<None>; // never
+ * ```
+ */
+export type UnwrapSome<T> = ExtractSome<Awaited<Returned<T>>> extends never
+  ? never
+  : ExtractSome<Awaited<Returned<T>>> extends Some<infer V>
+    ? V
+    : never;
+
+/**
+ * Extracts the value from Some types, leaving non-Some types unchanged.
+ *
+ * @template T - The type to potentially flatten
+ *
+ * @example
+ * ```typescript
+ * type T1 = FlattenSome<Some<string>>; // string
+ * type T2 = FlattenSome<string>; // string (unchanged)
+ * ```
+ */
+export type FlattenSome<T> = T extends Some<infer V> ? V : T;
+
+/**
+ * Creates a Some option containing the provided value.
+ *
+ * @template T - The type of the value
+ * @param value - The value to wrap in a Some option
+ * @returns A Some option
+ *
+ * @example
+ * ```typescript
+ * const o1 = some("hello"); // Some<"hello">
+ * ```
+ */
+export function some<const T>(value: T): Some<T> {
+  return { some: true, value };
+}
+
+/**
+ * Creates a None option representing an absent value.
+ *
+ * @returns A None option
+ *
+ * @example
+ * ```typescript
+ * const o1 = none(); // None
+ * ```
+ */
+export function none(): None {
+  return { some: false };
+}
+
+/**
+ * Type guard that checks if a value is a valid Option (either Some or None).
+ *
+ * @param value - The value to check
+ * @returns `true` if the value is a valid Option, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * isOption(some(1)); // true
+ * isOption(none()); // true
+ * isOption({ value: 1 }); // false
+ * ```
+ */
+export function isOption(value: unknown): value is Option {
+  if (!isObject(value) || !('some' in value)) return false;
+
+  const keys = Object.keys(value).length;
+
+  return (value.some === true && 'value' in value && keys === 2) || (value.some === false && keys === 1);
+}
+
+/**
+ * Type guard that checks if an Option is a Some option.
+ *
+ * @template T - The type of the contained value
+ * @param option - The Option to check
+ * @returns True if the option is Some, false if it's None
+ *
+ * @example
+ * ```typescript
+ * const o: Option<string> = some("hello");
+ *
+ * if (isSome(o)) {
+ *   console.log(o.value); // "hello"
+ * }
+ * ```
+ */
+export function isSome<T>(option: Option<T>): option is Some<T> {
+  return option.some === true;
+}
+
+/**
+ * Type guard that checks if an Option is a None option.
+ *
+ * @param option - The Option to check
+ * @returns True if the option is None, false if it's Some
+ *
+ * @example
+ * ```typescript
+ * isNone(none()); // true
+ * isNone(some(1)); // false
+ * ```
+ */
+export function isNone(option: UnknownOption): option is None {
+  return option.some === false;
+}
+
+/**
+ * Creates an Option from a value that may be `null` or `undefined`.
+ * Returns None for `null` and `undefined`, and Some for any other value.
+ *
+ * @template T - The type of the value
+ * @param value - The value that may be nullish
+ * @returns Some with the value or None
+ *
+ * @example
+ * ```typescript
+ * fromNullable(users.get(id)); // Option<User>
+ * fromNullable(null); // Option<never>
+ * ```
+ */
+export function fromNullable<T>(value: T): Option<NonNullable<T>> {
+  return value === null || value === undefined ? none() : some(value as NonNullable<T>);
+}
+
+/**
+ * Creates an Option from a Result.
+ * Returns Some with the data of Ok results and None for Err results, dropping the error.
+ *
+ * @template R - The Result type
+ * @param result - The Result to convert
+ * @returns Some with the Ok data or None
+ *
+ * @example
+ * ```typescript
+ * fromResult(ok(42)); // Option<42>
+ * fromResult(err("failed")); // Option<never>
+ * await fromResult(Promise.resolve(ok(42))); // Option<42>
+ * ```
+ */
+export function fromResult<R extends Result>(result: NonPromise<R>): Option<UnwrapOk<R>>;
+export function fromResult<R extends Result>(result: OrPromise<R>): Promise<Option<UnwrapOk<R>>>;
+export function fromResult<R extends Result>(result: OrPromise<R>): OrPromise<Option<UnwrapOk<R>>> {
+  return mapOrPromise(result, (r) => (isOk(r) ? some(r.data) : none()));
+}
+
+/**
+ * Converts an Option into a Result.
+ * Returns Ok with the value of Some options and Err with the provided error for None options.
+ *
+ * @template O - The Option type
+ * @template ErrValue - The type of the error used for None options
+ * @param option - The Option to convert
+ * @param onNone - The error value or function returning it used for None options
+ * @returns Ok with the Some value or Err with the provided error
+ *
+ * @example
+ * ```typescript
+ * toResult(some(42), "missing"); // Result<42, "missing">
+ * toResult(none(), () => new NotFoundError()); // Result<never, NotFoundError>
+ * ```
+ */
+export function toResult<O extends Option, const ErrValue>(
+  option: NonPromise<O>,
+  onNone: OrFunction<NonPromise<ErrValue>>,
+): Result<UnwrapSome<O>, ErrValue>;
+export function toResult<O extends Option, const ErrValue>(
+  option: OrPromise<O>,
+  onNone: OrFunction<OrPromise<ErrValue>>,
+): Promise<Result<UnwrapSome<O>, ErrValue>>;
+export function toResult<O extends Option, const ErrValue>(
+  option: OrPromise<O>,
+  onNone: OrFunction<OrPromise<ErrValue>>,
+): OrPromise<Result<UnwrapSome<O>, ErrValue>> {
+  return match(option, ok, () => mapOrPromise(callOrFunction(onNone), err));
+}
+
+/**
+ * Transforms the value of a Some option using a mapper function.
+ * If the option is None, it passes through unchanged. The mapper can return a value, Option, or Promise.
+ *
+ * @template O - The input Option type
+ * @template MapperReturn - The type returned by the mapper function
+ * @param option - The Option to map over
+ * @param mapper - Function to transform the Some value
+ * @returns A new Option with the transformed value, or None
+ *
+ * @example
+ * ```typescript
+ * mapSome(some(5), (x) => x * 2); // Option<number>
+ *
+ * mapSome(none(), (x) => x * 2); // Option<number>
+ *
+ * mapSome(some("user-1"), (id) => fromNullable(users.get(id))); // Option<User>
+ * ```
+ */
+export function mapSome<O extends Option, const MapperReturn>(
+  option: NonPromise<O>,
+  mapper: (value: UnwrapSome<O>) => NonPromise<MapperReturn>,
+): Option<InferValueAsSome<MapperReturn>>;
+export function mapSome<O extends Option, const MapperReturn>(
+  option: OrPromise<O>,
+  mapper: (value: UnwrapSome<O>) => OrPromise<MapperReturn>,
+): Promise<Option<InferValueAsSome<MapperReturn>>>;
+export function mapSome<O extends Option, const MapperReturn>(
+  option: OrPromise<O>,
+  mapper: (value: UnwrapSome<O>) => OrPromise<MapperReturn>,
+): OrPromise<Option<InferValueAsSome<MapperReturn>>> {
+  return match(option, (value) => mapOrPromise(mapper(value), valueToSome), none);
+}
+
+/**
+ * Unwraps an Option, returning the value for Some options and the provided fallback for None options.
+ * The fallback can be a static value or a function returning a value.
+ *
+ * @template O - Type of the Option to unwrap
+ * @template NoneReturn - Type of the value returned for None options
+ * @param option - The Option to unwrap
+ * @param onNone - The value or function that determines the value returned for None options
+ * @returns Value from the Some option or the fallback value
+ *
+ * @example
+ * ```typescript
+ * unwrapOr(some("hello"), "default"); // "hello"
+ * unwrapOr(none(), "default"); // "default"
+ * unwrapOr(none(), () => computeDefault()); // ReturnType<typeof computeDefault>
+ * ```
+ */
+export function unwrapOr<O extends Option, const NoneReturn>(
+  option: NonPromise<O>,
+  onNone: OrFunction<NonPromise<NoneReturn>>,
+): UnwrapSome<O> | NoneReturn;
+export function unwrapOr<O extends Option, const NoneReturn>(
+  option: OrPromise<O>,
+  onNone: OrFunction<OrPromise<NoneReturn>>,
+): Promise<UnwrapSome<O> | NoneReturn>;
+export function unwrapOr<O extends Option, const NoneReturn>(
+  option: OrPromise<O>,
+  onNone: OrFunction<OrPromise<NoneReturn>>,
+): OrPromise<UnwrapSome<O> | NoneReturn> {
+  return match(option, (value) => value, onNone);
+}
+
+/**
+ * Pattern matches on an Option, calling the appropriate handler.
+ * The None handler can be a static value or a function returning a value.
+ *
+ * @template O - The input Option type
+ * @template SomeReturn - The type returned by the Some handler
+ * @template NoneReturn - The type returned by the None handler
+ * @param option - The Option to match on
+ * @param onSome - Function to handle Some options
+ * @param onNone - Value or function to handle None options
+ * @returns The return value of the called handler
+ *
+ * @example
+ * ```typescript
+ * match(
+ *   some(42),
+ *   (value) => `Value: ${value}`,
+ *   () => 'No value',
+ * ); // "Value: 42"
+ *
+ * match(none(), (value) => `Value: ${value}`, 'No value'); // "No value"
+ * ```
+ */
+export function match<O extends Option, const SomeReturn, const NoneReturn>(
+  option: NonPromise<O>,
+  onSome: (value: UnwrapSome<O>) => NonPromise<SomeReturn>,
+  onNone: OrFunction<NonPromise<NoneReturn>>,
+): SomeReturn | NoneReturn;
+export function match<O extends Option, const SomeReturn, const NoneReturn>(
+  option: OrPromise<O>,
+  onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+  onNone: OrFunction<OrPromise<NoneReturn>>,
+): Promise<SomeReturn | NoneReturn>;
+export function match<O extends Option, const SomeReturn, const NoneReturn>(
+  option: OrPromise<O>,
+  onSome: (value: UnwrapSome<O>) => OrPromise<SomeReturn>,
+  onNone: OrFunction<OrPromise<NoneReturn>>,
+): OrPromise<SomeReturn | NoneReturn> {
+  if (isPromise(option)) {
+    return option.then((o) => match(o, onSome, onNone));
+  }
+
+  return isSome(option) ? onSome(option.value) : callOrFunction(onNone);
+}
+
+function valueToSome(value: unknown) {
+  return isOption(value) ? value : some(value);
+}
@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { first } from './helpers.js';
+import type { Result } from './index.js';
+import { err, ok } from './index.js';
+import { AbortedError, retry, TimeoutError, timeout } from './retry.js';
+
+describe('retry.ts', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function sequence<const T extends Result[]>(...results: T) {
+    let call = 0;
+    return vi.fn(
+      async (_id: string, _signal?: AbortSignal): Promise<T[number]> =>
+        results[Math.min(call++, results.length - 1)] as T[number],
+    );
+  }
+
+  describe('retry', () => {
+    it('returns the first Ok result', async () => {
+      const fn = sequence(err('network'), err('network'), ok('data'));
+      const result = await retry(fn, { attempts: 3 })('1');
+
+      expect(result).toEqual(ok('data'));
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(fn).toHaveBeenCalledWith('1');
+    });
+
+    it('returns the last Err result when attempts are exhausted', async () => {
+      const fn = sequence(err('first'), err('second'), err('third'));
+      const result = await retry(fn, { attempts: 2 })('1');
+
+      expect(result).toEqual(err('second'));
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the signature of the wrapped function', () => {
+      const fn = sequence(ok('data'), err('network'));
+
+      expectTypeOf(retry(fn, { attempts: 3 })).toEqualTypeOf<
+        (_id: string, _signal?: AbortSignal) => Promise<Result<'data', 'network'>>
+      >();
+    });
+
+    it('retries only errors matching retryIf', async () => {
+      const fn = sequence(err('network'), err('not_found'), ok('data'));
+      const retryIf = vi.fn((error: 'network' | 'not_found') => error === 'network');
+      const result = await retry(fn, { attempts: 5, retryIf })('1');
+
+      expect(result).toEqual(err('not_found'));
+      expect(fn).toHaveBeenCalledTimes(2);
+      expect(retryIf).toHaveBeenNthCalledWith(1, 'network', 1);
+      expect(retryIf).toHaveBeenNthCalledWith(2, 'not_found', 2);
+    });
+
+    it('passes typed errors to options', () => {
+      retry(sequence(ok('data'), err('network'), err('not_found')), {
+        attempts: 2,
+        backoff: (attempt, error) => {
+          expectTypeOf(error).toEqualTypeOf<'network' | 'not_found'>();
+          return attempt;
+        },
+        retryIf: (error) => {
+          expectTypeOf(error).toEqualTypeOf<'network' | 'not_found'>();
+          return true;
+        },
+      });
+    });
+
+    it('waits for the backoff before the next attempt', async () => {
+      const fn = sequence(err('network'), err('network'), ok('data'));
+      const promise = retry(fn, { attempts: 3, backoff: (attempt) => 100 * 2 ** attempt })('1');
+
+      await vi.advanceTimersByTimeAsync(0);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(199);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fn).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(400);
+      expect(fn).toHaveBeenCalledTimes(3);
+      expect(await promise).toEqual(ok('data'));
+    });
+
+    it('stops retrying once the signal passed to the call is aborted', async () => {
+      const controller = new AbortController();
+      const fn = sequence(err('network'), ok('data'));
+      const retried = retry(fn, { attempts: 3, backoff: 1000 });
+      const promise = retried('1', controller.signal);
+
+      await vi.advanceTimersByTimeAsync(500);
+      controller.abort();
+
+      expect(await promise).toEqual(err('network'));
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(fn.mock.calls[0]?.[1]).not.toBe(controller.signal);
+      expect(fn.mock.calls[0]?.[1]?.aborted).toBe(true);
+
+      const next = retried('1');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await next).toEqual(ok('data'));
+    });
+  });
+
+  describe('timeout', () => {
+    function delayed<const T extends Result>(result: T, ms: number) {
+      return (_id: string) => new Promise<T>((resolve) => setTimeout(() => resolve(result), ms));
+    }
+
+    function cancellable<const T extends Result>(result: T, ms: number) {
+      return vi.fn((id: string, _signal?: AbortSignal) => delayed(result, ms)(id));
+    }
+
+    it('returns the result of functions settled in time', async () => {
+      const promise = timeout(delayed(ok('data'), 100), 200)('1');
+
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(await promise).toEqual(ok('data'));
+    });
+
+    it('returns TimeoutError when the time runs out', async () => {
+      const fn = timeout(delayed(ok('data'), 300), 200);
+      const promise = fn('1');
+
+      await vi.advanceTimersByTimeAsync(200);
+      const result = await promise;
+
+      expect(result).toEqual(err(expect.any(TimeoutError)));
+      expect(result.success ? null : result.error.message).toBe('Timed out after 200ms');
+      expectTypeOf(fn).toEqualTypeOf<(_id: string) => Promise<Result<'data', TimeoutError>>>();
+    });
+
+    it('returns custom timeout error', async () => {
+      const fn = timeout(delayed(first(ok('data'), err('network')), 300), 200, (ms) => ({ ms }));
+      const promise = fn('1');
+
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(await promise).toEqual(err({ ms: 200 }));
+      expectTypeOf(fn).toEqualTypeOf<(_id: string) => Promise<Result<'data', 'network' | { readonly ms: number }>>>();
+    });
+
+    it('aborts the signal passed to the function when the time runs out', async () => {
+      const fn = cancellable(ok('data'), 300);
+      const { signal: callSignal } = new AbortController();
+      const promise = timeout(fn, 200)('1', callSignal);
+
+      const signal = fn.mock.calls[0]?.[1];
+      expect(signal).not.toBe(callSignal);
+      expect(signal?.aborted).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(signal?.aborted).toBe(true);
+      expect(signal?.reason).toBeInstanceOf(TimeoutError);
+      expect(await promise).toEqual(err(expect.any(TimeoutError)));
+    });
+
+    it('returns AbortedError once the signal passed to the call is aborted', async () => {
+      const controller = new AbortController();
+      const fn = cancellable(ok('data'), 300);
+      const limited = timeout(fn, 200, 'timeout');
+      const promise = limited('1', controller.signal);
+
+      controller.abort();
+
+      expect(await promise).toEqual(err(expect.any(AbortedError)));
+      expect(fn.mock.calls[0]?.[1]?.aborted).toBe(true);
+      expect(await limited('1', controller.signal)).toEqual(err(expect.any(AbortedError)));
+
+      const next = limited('1');
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(await next).toEqual(err('timeout'));
+      expectTypeOf(limited).toEqualTypeOf<
+        (id: string, _signal?: AbortSignal) => Promise<Result<'data', 'timeout' | AbortedError>>
+      >();
+    });
+
+    it('passes the arguments unchanged when the call has no signal', async () => {
+      const fn = vi.fn(async (_id: string, _page?: number) => ok('data'));
+
+      await timeout(fn, 200)('1');
+      await retry(fn, { attempts: 1 })('1');
+
+      expect(fn.mock.calls).toEqual([['1'], ['1']]);
+    });
+
+    it('rejects when the function rejects', async () => {
+      const fn = timeout(async (_id: string): Promise<Result<never, never>> => Promise.reject(new Error('boom')), 200);
+
+      await expect(fn('1')).rejects.toThrow('boom');
+    });
+
+    it('can be combined with retry', async () => {
+      const fn = vi.fn(delayed(ok('data'), 300));
+      const promise = retry(timeout(fn, 200), { attempts: 2 })('1');
+
+      await vi.advanceTimersByTimeAsync(400);
+
+      expect(await promise).toEqual(err(expect.any(TimeoutError)));
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+  });
+});
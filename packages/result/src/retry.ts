@@ -0,0 +1,220 @@
+import { defineError } from './error.js';
+import type { OrFunction } from './helpers.js';
+import { callOrFunction, delay } from './helpers.js';
+import type { Result, UnwrapErr, UnwrapOk } from './index.js';
+import { err, isErr } from './index.js';
+
+/**
+ * Options accepted by the `retry` function.
+ *
+ * @template E - The type of the error returned by the retried function
+ */
+export interface RetryOptions<E> {
+  /**
+   * Maximum number of calls to the function, including the first one.
+   */
+  attempts: number;
+  /**
+   * Delay in milliseconds before the next attempt.
+   * Can be a static number or a function receiving the number of the failed attempt (starting from 1) and its error.
+   *
+   * @default 0
+   */
+  backoff?: OrFunction<number, [attempt: number, error: E]>;
+  /**
+   * Decides whether the given error should be retried.
+   * By default, every Err result is retried.
+   */
+  retryIf?: (error: E, attempt: number) => boolean;
+}
+
+/**
+ * Default error returned by functions wrapped with `timeout`.
+ *
+ * @example
+ * ```typescript
+ * const result = await timeout(fetchUser, 1000)('1');
+ *
+ * if (isErr(result) && result.error instanceof TimeoutError) {
+ *   console.error(`Gave up after ${result.error.ms}ms`);
+ * }
+ * ```
+ */
+export class TimeoutError extends defineError('Timeout', (props: { ms: number }) => `Timed out after ${props.ms}ms`) {}
+
+/**
+ * Error returned by functions wrapped with `timeout` when the signal passed to the call is aborted.
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * const promise = timeout(fetchUser, 1000)('1', controller.signal);
+ *
+ * controller.abort();
+ * await promise; // Err(AbortedError)
+ * ```
+ */
+export class AbortedError extends defineError('Aborted', 'The operation was aborted') {}
+
+/**
+ * Wraps an async Result-returning function so that Err results are retried.
+ * The returned function has the same signature and resolves to the first Ok result
+ * or the last Err result once the attempts are exhausted.
+ *
+ * When the last argument of the call is an AbortSignal, it's replaced with a signal of that call, which is aborted
+ * together with the passed one. Once it's aborted, no further attempts are made and the last result is returned.
+ * Calls without a signal pass their arguments unchanged.
+ *
+ * @template A - The argument types of the function
+ * @template R - The Result type returned by the function
+ * @param fn - The function to retry
+ * @param options - Number of attempts, backoff and retry condition
+ * @returns A function with the same signature that retries failed calls
+ *
+ * @example
+ * ```typescript
+ * const fetchUser = fromThrowable(
+ *   (id: string, signal?: AbortSignal) => fetch(`/users/${id}`, { signal }).then((res) => res.json()),
+ *   () => new NetworkError(),
+ * );
+ *
+ * const fetchUserWithRetry = retry(fetchUser, {
+ *   attempts: 3,
+ *   backoff: (attempt) => 100 * 2 ** attempt,
+ *   retryIf: (error) => error instanceof NetworkError,
+ * });
+ *
+ * const user = await fetchUserWithRetry('1'); // Result<User, NetworkError>
+ * const cancellable = await fetchUserWithRetry('1', controller.signal); // stops retrying once aborted
+ * ```
+ */
+export function retry<A extends unknown[], R extends Result>(
+  fn: (...args: A) => Promise<R>,
+  options: RetryOptions<UnwrapErr<R>>,
+): (...args: A) => Promise<R> {
+  const { attempts, backoff = 0, retryIf = () => true } = options;
+
+  return async (...callArgs: A) => {
+    const { args, signal, dispose } = linkCallSignal(callArgs);
+
+    try {
+      let result = await fn(...(args as A));
+
+      for (let attempt = 1; attempt < attempts && isErr(result); attempt++) {
+        if (signal.aborted || !retryIf(result.error, attempt)) break;
+
+        await delay(callOrFunction(backoff, attempt, result.error), signal);
+
+        if (signal.aborted) break;
+
+        result = await fn(...(args as A));
+      }
+
+      return result;
+    } finally {
+      dispose();
+    }
+  };
+}
+
+/**
+ * Wraps an async Result-returning function so that it returns an Err result when it doesn't settle in time.
+ * The returned function has the same arguments and its error union is extended with the timeout error.
+ *
+ * By default, the timeout error is a `TimeoutError` instance. It can be replaced with a static value
+ * or a function receiving the number of milliseconds.
+ *
+ * When the last argument of the call is an AbortSignal, it's replaced with a signal of that call, which is aborted
+ * when the time runs out, so the function can stop its work. Aborting the passed signal makes the call return
+ * `AbortedError` (added to the error union of functions accepting a signal).
+ * Calls without a signal pass their arguments unchanged.
+ *
+ * @template A - The argument types of the function
+ * @template R - The Result type returned by the function
+ * @template TimeoutReturn - The type of the error returned on timeout
+ * @param fn - The function to limit
+ * @param ms - Number of milliseconds after which the timeout error is returned
+ * @param onTimeout - The error value or function returning it used on timeout
+ * @returns A function with the same arguments that returns the timeout error when the time runs out
+ *
+ * @example
+ * ```typescript
+ * const fetchUser = fromThrowable(
+ *   (id: string, signal?: AbortSignal) => fetch(`/users/${id}`, { signal }).then((res) => res.json()),
+ *   () => new NetworkError(),
+ * );
+ *
+ * const fetchUserWithTimeout = timeout(fetchUser, 5000);
+ * await fetchUserWithTimeout('1'); // Result<User, NetworkError | TimeoutError | AbortedError>
+ * await fetchUserWithTimeout('1', controller.signal); // AbortedError once the controller is aborted
+ *
+ * const fetchUserOrFail = timeout(fetchUser, 5000, 'timeout');
+ * await fetchUserOrFail('1'); // Result<User, NetworkError | "timeout" | AbortedError>
+ * ```
+ */
+export function timeout<A extends unknown[], R extends Result>(
+  fn: (...args: A) => Promise<R>,
+  ms: number,
+  onTimeout?: undefined,
+): (...args: A) => Promise<Result<UnwrapOk<R>, UnwrapErr<R> | TimeoutError | AbortErr<A>>>;
+export function timeout<A extends unknown[], R extends Result, const TimeoutReturn>(
+  fn: (...args: A) => Promise<R>,
+  ms: number,
+  onTimeout: OrFunction<TimeoutReturn, [ms: number]>,
+): (...args: A) => Promise<Result<UnwrapOk<R>, UnwrapErr<R> | TimeoutReturn | AbortErr<A>>>;
+export function timeout(
+  fn: (...args: unknown[]) => Promise<Result>,
+  ms: number,
+  onTimeout?: OrFunction<unknown, [ms: number]>,
+): (...args: unknown[]) => Promise<Result> {
+  const timeoutErr = () => err(onTimeout === undefined ? new TimeoutError({ ms }) : callOrFunction(onTimeout, ms));
+
+  return (...callArgs) => {
+    const { args, signal, abort, dispose } = linkCallSignal(callArgs);
+
+    if (signal.aborted) {
+      dispose();
+      return Promise.resolve(err(new AbortedError()));
+    }
+
+    return new Promise((resolve, reject) => {
+      const settle = <T>(callback: (value: T) => void) => {
+        return (value: T) => {
+          clearTimeout(timer);
+          signal.removeEventListener('abort', onAbort);
+          dispose();
+          callback(value);
+        };
+      };
+      const onAbort = settle(() => resolve(err(new AbortedError())));
+      const onTimeout = settle(() => {
+        const result = timeoutErr();
+        abort(result.error);
+        resolve(result);
+      });
+      const timer = setTimeout(onTimeout, ms);
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      fn(...args).then(settle(resolve), settle(reject));
+    });
+  };
+}
+
+function linkCallSignal(callArgs: unknown[]) {
+  const controller = new AbortController();
+  const callSignal = callArgs.at(-1) instanceof AbortSignal ? (callArgs.at(-1) as AbortSignal) : undefined;
+  const abort = (reason?: unknown) => controller.abort(reason);
+  const onCallAbort = () => abort(callSignal?.reason);
+
+  if (callSignal?.aborted) onCallAbort();
+  else callSignal?.addEventListener('abort', onCallAbort, { once: true });
+
+  return {
+    args: callSignal ? [...callArgs.slice(0, -1), controller.signal] : callArgs,
+    signal: controller.signal,
+    abort,
+    dispose: () => callSignal?.removeEventListener('abort', onCallAbort),
+  };
+}
+
+type AbortErr<A extends unknown[]> = AbortSignal extends A[number] ? AbortedError : never;
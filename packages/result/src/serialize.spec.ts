@@ -0,0 +1,137 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { defineError } from './error.js';
+import type { Result } from './index.js';
+import { err, ok } from './index.js';
+import type { ErrorCodec } from './serialize.js';
+import {
+  createErrorCodecRegistry,
+  deserializeResult,
+  SERIALIZED_RESULT_VERSION,
+  serializeResult,
+  taggedErrorCodec,
+} from './serialize.js';
+
+describe('serialize.ts', () => {
+  class HttpError extends Error {
+    constructor(readonly status: number) {
+      super(`HTTP ${status}`);
+    }
+  }
+
+  const httpErrorCodec: ErrorCodec<HttpError, { status: number }> = {
+    type: 'HttpError',
+    is: (error) => error instanceof HttpError,
+    encode: (error) => ({ status: error.status }),
+    decode: (value) => new HttpError(value.status),
+  };
+
+  const NotFoundError = defineError('NotFound', (props: { id: string }) => `Entity ${props.id} not found`);
+
+  function roundTrip(result: Result, registry = createErrorCodecRegistry()) {
+    return deserializeResult(JSON.parse(JSON.stringify(serializeResult(result, registry))), registry);
+  }
+
+  describe('serializeResult', () => {
+    it('produces versioned wire format', () => {
+      expect(serializeResult(ok({ id: 1 }))).toEqual({ version: SERIALIZED_RESULT_VERSION, result: ok({ id: 1 }) });
+      expect(serializeResult(err('not_found'))).toEqual({
+        version: SERIALIZED_RESULT_VERSION,
+        result: err({ codec: 'Value', value: 'not_found' }),
+      });
+    });
+
+    it('encodes errors with the matching codec', () => {
+      const registry = createErrorCodecRegistry([httpErrorCodec]);
+
+      expect(serializeResult(err(new HttpError(404)), registry).result).toEqual(
+        err({ codec: 'HttpError', value: { status: 404 } }),
+      );
+    });
+
+    it('works with promises', async () => {
+      const serialized = serializeResult(Promise.resolve(ok('data')));
+
+      expect(await serialized).toEqual({ version: SERIALIZED_RESULT_VERSION, result: ok('data') });
+      expectTypeOf(serialized).resolves.toEqualTypeOf(serializeResult(ok('data')));
+    });
+  });
+
+  describe('deserializeResult', () => {
+    it('restores Ok results and plain errors', () => {
+      expect(roundTrip(ok({ id: 1 }))).toEqual(ok({ id: 1 }));
+      expect(roundTrip(err({ code: 'not_found' }))).toEqual(err({ code: 'not_found' }));
+    });
+
+    it('restores native errors with their cause', () => {
+      const error = new TypeError('Invalid input', { cause: new Error('Original') });
+      const result = roundTrip(err(error));
+      const restored = (result as { error: Error }).error;
+
+      expect(restored).toBeInstanceOf(Error);
+      expect(restored.name).toBe('TypeError');
+      expect(restored.message).toBe('Invalid input');
+      expect(restored.cause).toEqual(new Error('Original'));
+    });
+
+    it('restores errors using registered codecs', () => {
+      const registry = createErrorCodecRegistry().register(httpErrorCodec).register(taggedErrorCodec(NotFoundError));
+
+      const http = roundTrip(err(new HttpError(404)), registry);
+      expect((http as { error: HttpError }).error).toBeInstanceOf(HttpError);
+      expect((http as { error: HttpError }).error.status).toBe(404);
+
+      const notFound = roundTrip(err(new NotFoundError({ id: '1' })), registry);
+      expect((notFound as { error: unknown }).error).toBeInstanceOf(NotFoundError);
+      expect((notFound as { error: unknown }).error).toMatchObject({
+        type: 'NotFound',
+        id: '1',
+        message: 'Entity 1 not found',
+      });
+    });
+
+    it('allows to specify the expected result type', () => {
+      const result = deserializeResult<Result<number, string>>(serializeResult(ok(1)));
+
+      expectTypeOf(result).toEqualTypeOf<Result<number, string>>();
+    });
+
+    it('throws for values that are not serialized results', () => {
+      expect(() => deserializeResult(null)).toThrow(TypeError);
+      expect(() => deserializeResult(ok(1))).toThrow(TypeError);
+      expect(() => deserializeResult({ version: SERIALIZED_RESULT_VERSION, result: { success: true } })).toThrow(
+        TypeError,
+      );
+      expect(() => deserializeResult({ version: SERIALIZED_RESULT_VERSION, result: err('raw') })).toThrow(TypeError);
+    });
+
+    it('throws for unsupported versions', () => {
+      expect(() => deserializeResult({ version: 2, result: ok(1) })).toThrow(
+        'Unsupported serialized Result version: 2',
+      );
+    });
+
+    it('throws for unknown codecs', () => {
+      const serialized = serializeResult(err(new HttpError(500)), createErrorCodecRegistry([httpErrorCodec]));
+
+      expect(() => deserializeResult(serialized)).toThrow('No error codec registered for "HttpError"');
+    });
+
+    it('throws TypeError for payloads the codec cannot decode', () => {
+      const error = (value: unknown) => ({
+        version: SERIALIZED_RESULT_VERSION,
+        result: err({ codec: 'Error', value }),
+      });
+
+      expect(() => deserializeResult(error(null))).toThrow(TypeError);
+      expect(() => deserializeResult(error({ name: 'Error', message: 1 }))).toThrow(
+        'Value can\'t be decoded with the "Error" error codec',
+      );
+      expect(() =>
+        deserializeResult(
+          { version: SERIALIZED_RESULT_VERSION, result: err({ codec: 'HttpError', value: null }) },
+          createErrorCodecRegistry([httpErrorCodec]),
+        ),
+      ).toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import type { TaggedErrorClass } from './error.js';
+import type { NonPromise, OrPromise } from './helpers.js';
+import { isObject, mapOrPromise } from './helpers.js';
+import type { Result, UnknownResult } from './index.js';
+import { err, isOk, isResult, ok } from './index.js';
+
+/**
+ * Version of the wire format produced by `serializeResult`.
+ */
+export const SERIALIZED_RESULT_VERSION = 1;
+
+/**
+ * Error encoded by one of the codecs from the registry.
+ */
+export interface SerializedError {
+  readonly codec: string;
+  readonly value: unknown;
+}
+
+/**
+ * JSON-compatible representation of a Result produced by `serializeResult`.
+ */
+export interface SerializedResult {
+  readonly version: typeof SERIALIZED_RESULT_VERSION;
+  readonly result: Result<unknown, SerializedError>;
+}
+
+/**
+ * Describes how to encode a specific kind of error into a JSON-compatible value and how to decode it back.
+ *
+ * @template E - The type of the error handled by the codec
+ * @template S - The type of the encoded value
+ *
+ * @example
+ * ```typescript
+ * const httpErrorCodec: ErrorCodec<HttpError, { status: number }> = {
+ *   type: 'HttpError',
+ *   is: (error) => error instanceof HttpError,
+ *   encode: (error) => ({ status: error.status }),
+ *   decode: (value) => new HttpError(value.status),
+ * };
+ * ```
+ */
+export interface ErrorCodec<E = any, S = any> {
+  /**
+   * Unique name of the codec stored in the wire format.
+   */
+  readonly type: string;
+  /**
+   * Checks whether the codec can encode the given error.
+   */
+  is(error: unknown): error is E;
+  /**
+   * Encodes the error into a JSON-compatible value.
+   * The registry can be used to encode nested errors (e.g. `cause`).
+   */
+  encode(error: E, registry: ErrorCodecRegistry): S;
+  /**
+   * Decodes the error from its encoded value.
+   * The registry can be used to decode nested errors (e.g. `cause`).
+   */
+  decode(value: S, registry: ErrorCodecRegistry): E;
+}
+
+/**
+ * Set of error codecs used to serialize and deserialize Result errors.
+ * Codecs are matched in registration order, falling back to the built-in codecs
+ * for native Error instances and plain JSON values.
+ */
+export interface ErrorCodecRegistry {
+  /**
+   * Adds the codec to the registry.
+   *
+   * @param codec - The codec to add
+   * @returns The same registry for chaining
+   */
+  register(codec: ErrorCodec): ErrorCodecRegistry;
+  /**
+   * Encodes the error with the first matching codec.
+   *
+   * @param error - The error to encode
+   * @returns The encoded error
+   */
+  encode(error: unknown): SerializedError;
+  /**
+   * Decodes the error with the codec it was encoded with.
+   *
+   * @param serialized - The encoded error
+   * @returns The decoded error
+   * @throws {TypeError} When the codec used to encode the error is not registered or can't decode the value
+   */
+  decode(serialized: SerializedError): unknown;
+}
+
+const nativeErrorCodec: ErrorCodec<Error, { name: string; message: string; cause?: SerializedError }> = {
+  type: 'Error',
+  is: (error) => error instanceof Error,
+  encode: ({ name, message, cause }, registry) => ({
+    name,
+    message,
+    ...(cause === undefined ? {} : { cause: registry.encode(cause) }),
+  }),
+  decode: (value, registry) => {
+    if (!isObject(value) || typeof value.name !== 'string' || typeof value.message !== 'string') {
+      throw new TypeError('Value is not a serialized Error');
+    }
+
+    const { name, message, cause } = value;
+    const error = new Error(message, cause === undefined ? undefined : { cause: registry.decode(cause) });
+    return Object.defineProperty(error, 'name', { value: name, writable: true, configurable: true });
+  },
+};
+
+const valueCodec: ErrorCodec<unknown, unknown> = {
+  type: 'Value',
+  is: (_error): _error is unknown => true,
+  encode: (error) => error,
+  decode: (value) => value,
+};
+
+/**
+ * Creates a registry of error codecs used by `serializeResult` and `deserializeResult`.
+ *
+ * @param codecs - Initial codecs, matched in the given order
+ * @returns A registry that can be extended with additional codecs
+ *
+ * @example
+ * ```typescript
+ * const registry = createErrorCodecRegistry([modelValidationErrorCodec])
+ *   .register(thrownActionErrorCodec)
+ *   .register(taggedErrorCodec(NotFoundError));
+ *
+ * const serialized = serializeResult(result, registry);
+ * const deserialized = deserializeResult(serialized, registry);
+ * ```
+ */
+export function createErrorCodecRegistry(codecs: ErrorCodec[] = []): ErrorCodecRegistry {
+  const registered = [...codecs];
+
+  const registry: ErrorCodecRegistry = {
+    register(codec) {
+      registered.push(codec);
+      return registry;
+    },
+    encode(error) {
+      const codec = [...registered, nativeErrorCodec, valueCodec].find((c) => c.is(error)) ?? valueCodec;
+      return { codec: codec.type, value: codec.encode(error, registry) };
+    },
+    decode({ codec: type, value }) {
+      const codec = [...registered, nativeErrorCodec, valueCodec].find((c) => c.type === type);
+      if (!codec) throw new TypeError(`No error codec registered for "${type}"`);
+
+      try {
+        return codec.decode(value, registry);
+      } catch (cause) {
+        throw new TypeError(`Value can't be decoded with the "${type}" error codec`, { cause });
+      }
+    },
+  };
+
+  return registry;
+}
+
+/**
+ * Creates an error codec for a class returned by `defineError`.
+ * The codec encodes the error properties and recreates the error with them on decoding.
+ *
+ * @template Type - The literal type of the error
+ * @template Props - The additional properties of the error
+ * @param ErrorClass - The class returned by `defineError` (or a class extending it)
+ * @returns An error codec for the given class
+ *
+ * @example
+ * ```typescript
+ * const NotFoundError = defineError('NotFound', (props: { id: string }) => `Entity ${props.id} not found`);
+ *
+ * const registry = createErrorCodecRegistry([taggedErrorCodec(NotFoundError)]);
+ * ```
+ */
+export function taggedErrorCodec<Type extends string, Props extends object>(
+  ErrorClass: TaggedErrorClass<Type, Props>,
+): ErrorCodec<InstanceType<TaggedErrorClass<Type, Props>>, Props> {
+  const Constructor = ErrorClass as unknown as new (props: Props) => InstanceType<TaggedErrorClass<Type, Props>>;
+
+  return {
+    type: ErrorClass.type,
+    is: (error): error is InstanceType<TaggedErrorClass<Type, Props>> => error instanceof ErrorClass,
+    encode: (error) => {
+      const { type: _type, name: _name, message: _message, ...props } = error as Error & Record<string, unknown>;
+      return props as Props;
+    },
+    decode: (props) => new Constructor(props),
+  };
+}
+
+const defaultRegistry = createErrorCodecRegistry();
+
+/**
+ * Converts a Result into a versioned, JSON-compatible format that can be sent across process and network boundaries.
+ * Errors are encoded with the codecs from the given registry, so their fields survive the serialization.
+ *
+ * @template R - The Result type
+ * @param result - The Result to serialize
+ * @param registry - Error codecs used to encode the error (native Errors and plain values are always supported)
+ * @returns The serialized Result
+ *
+ * @example
+ * ```typescript
+ * const serialized = serializeResult(err(new Error('Not found')));
+ * // { version: 1, result: { success: false, error: { codec: 'Error', value: { name: 'Error', message: 'Not found' } } } }
+ *
+ * response.json(serialized);
+ * ```
+ */
+export function serializeResult<R extends Result>(
+  result: NonPromise<R>,
+  registry?: ErrorCodecRegistry,
+): SerializedResult;
+export function serializeResult<R extends Result>(
+  result: OrPromise<R>,
+  registry?: ErrorCodecRegistry,
+): Promise<SerializedResult>;
+export function serializeResult<R extends Result>(
+  result: OrPromise<R>,
+  registry: ErrorCodecRegistry = defaultRegistry,
+): OrPromise<SerializedResult> {
+  return mapOrPromise(result, (r) => ({
+    version: SERIALIZED_RESULT_VERSION,
+    result: isOk(r) ? ok(r.data) : err(registry.encode(r.error)),
+  }));
+}
+
+/**
+ * Converts a value produced by `serializeResult` back into a Result.
+ * Errors are decoded with the codecs from the given registry, restoring their original classes and fields.
+ *
+ * The value is validated before decoding, and errors thrown by codecs are rethrown as `TypeError`,
+ * so untrusted data (e.g. a parsed response body) either produces a Result or throws a `TypeError`.
+ *
+ * @template R - The expected Result type
+ * @param value - The serialized Result
+ * @param registry - Error codecs used to decode the error (native Errors and plain values are always supported)
+ * @returns The deserialized Result
+ * @throws {TypeError} When the value is not a serialized Result, its version is not supported or its error can't be decoded
+ *
+ * @example
+ * ```typescript
+ * const response = await fetch('/api/users/1');
+ * const result = deserializeResult<Result<User, NotFoundError>>(await response.json(), registry);
+ * ```
+ */
+export function deserializeResult<R extends Result = UnknownResult>(value: unknown, registry = defaultRegistry): R {
+  if (!isObject(value) || !('version' in value) || !('result' in value)) {
+    throw new TypeError('Value is not a serialized Result');
+  }
+
+  if (value.version !== SERIALIZED_RESULT_VERSION) {
+    throw new TypeError(`Unsupported serialized Result version: ${String(value.version)}`);
+  }
+
+  const { result } = value;
+
+  if (!isResult(result) || !(isOk(result) || isSerializedError(result.error))) {
+    throw new TypeError('Value is not a serialized Result');
+  }
+
+  return (isOk(result) ? ok(result.data) : err(registry.decode(result.error))) as R;
+}
+
+function isSerializedError(value: unknown): value is SerializedError {
+  return isObject(value) && 'codec' in value && typeof value.codec === 'string' && 'value' in value;
+}